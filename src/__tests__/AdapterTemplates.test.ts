@@ -0,0 +1,181 @@
+import { DevToAdapter, HackerNewsAdapter, RedditAdapter, TwitterAdapter } from '../adapters';
+import { DevToConfig, HackerNewsConfig, RedditConfig, Tool, TwitterConfig } from '../models';
+import { createPlatformRegistry } from '../platforms';
+
+describe('adapter templates', () => {
+  const tool: Tool = {
+    id: 'test-tool',
+    name: 'Test Tool',
+    shortDescription: 'A test tool for developers',
+    longDescription: 'This is a comprehensive test tool designed to help developers with testing their applications.',
+    url: 'https://example.com/test-tool',
+    category: ['testing'],
+    targetAudience: ['developers'],
+    tags: ['testing', 'cli']
+  };
+
+  const env = {
+    DEVTO_API_KEY: 'key',
+    TWITTER_ACCESS_TOKEN: 'token',
+    REDDIT_CLIENT_ID: 'id',
+    REDDIT_CLIENT_SECRET: 'secret',
+    REDDIT_SUBREDDITS: 'webdev,programming',
+    HACKERNEWS_USERNAME: 'user',
+    HACKERNEWS_PASSWORD: 'password'
+  };
+  const configs = createPlatformRegistry().loadConfigsFromEnv(env);
+  const findConfig = <T>(platform: string) => configs.find(config => config.platform === platform) as unknown as T;
+  const devToConfig = findConfig<DevToConfig>('dev.to');
+  const twitterConfig = findConfig<TwitterConfig>('twitter');
+  const redditConfig = findConfig<RedditConfig>('reddit');
+  const hackerNewsConfig = findConfig<HackerNewsConfig>('hackernews');
+
+  it('should use built-in generators when no templates are configured', async () => {
+    const content = await new DevToAdapter(devToConfig).formatContent(tool);
+
+    expect(content.title).toBe('Test Tool: A test tool for developers');
+    expect(content.body).toContain('## 🔗 Key Information');
+  });
+
+  it('should render configured title and body templates', async () => {
+    const adapter = new DevToAdapter({
+      ...devToConfig,
+      templates: { title: '{name | upper}', body: '{shortDescription}{#each categories} [{this}]{/each}' }
+    });
+
+    const content = await adapter.formatContent(tool);
+
+    expect(content.title).toBe('TEST TOOL');
+    expect(content.body).toBe('A test tool for developers [testing]');
+  });
+
+  it('should prefer the platform titleTemplate setting over config templates', async () => {
+    const adapter = new DevToAdapter({
+      ...devToConfig,
+      settings: { ...devToConfig.settings, titleTemplate: '{name}!' },
+      templates: { title: '{name | upper}' }
+    });
+
+    expect((await adapter.formatContent(tool)).title).toBe('Test Tool!');
+  });
+
+  it('should split templated Twitter threads on --- lines', async () => {
+    const adapter = new TwitterAdapter({
+      ...twitterConfig,
+      templates: { body: '{name}: {shortDescription}\n---\n{url}\n---\n{tags | hashtag}' }
+    });
+
+    const content = await adapter.formatContent(tool);
+
+    expect(content.metadata?.tweets).toEqual([
+      'Test Tool: A test tool for developers',
+      'https://example.com/test-tool',
+      '#testing #cli'
+    ]);
+  });
+
+  describe('release announcements', () => {
+    const releaseTool: Tool = {
+      ...tool,
+      version: '1.2.0',
+      release: { version: '1.2.0', date: '2024-05-01', notes: '### Added\n\n- **Watch** mode', url: 'https://example.com/releases/1.2.0' }
+    };
+
+    it('should announce the release in the built-in content', async () => {
+      const devTo = await new DevToAdapter(devToConfig).formatContent(releaseTool);
+      const twitter = await new TwitterAdapter(twitterConfig).formatContent(releaseTool);
+
+      expect(devTo.title).toBe('Test Tool 1.2.0 released: A test tool for developers');
+      expect(devTo.body).toContain("## What's New in 1.2.0\n\n### Added\n\n- **Watch** mode");
+      expect(devTo.body).toContain('- **Release Notes:** [1.2.0](https://example.com/releases/1.2.0)');
+      expect(devTo.body).not.toContain(tool.longDescription);
+      expect(twitter.metadata?.tweets[0]).toMatch(/^🚀 Test Tool 1\.2\.0 is out: A test tool for developers/);
+      expect(twitter.metadata?.tweets[1]).toBe('Added\n\n• Watch mode\n\n🔗 https://example.com/releases/1.2.0');
+    });
+
+    it('should expose release notes to templates', async () => {
+      const adapter = new DevToAdapter({
+        ...devToConfig,
+        templates: { title: '{name} {#if release}{release.version}{/if}', body: '{releaseNotes}|{changelog | markdown:twitter}' }
+      });
+
+      const content = await adapter.formatContent(releaseTool);
+
+      expect(content.title).toBe('Test Tool 1.2.0');
+      expect(content.body).toBe('### Added\n\n- **Watch** mode|Added\n\n• Watch mode');
+    });
+  });
+
+  describe('tool overrides', () => {
+    const overriddenTool: Tool = {
+      ...tool,
+      overrides: {
+        hackernews: { title: '{name} for testing', postType: 'show', body: 'Plain words.' },
+        reddit: { url: 'https://example.com/reddit', postType: 'link' },
+        'reddit:r/programming': { title: 'Programmers: {name}', tags: ['programming'] },
+        twitter: { body: 'Playful 🎉\n---\n{url}' }
+      }
+    };
+
+    it('should replace title, body and post type for a platform', async () => {
+      const content = await new HackerNewsAdapter(hackerNewsConfig).formatContent(overriddenTool);
+
+      expect(content.title).toBe('Test Tool for testing');
+      expect(content.body).toBe('Plain words.');
+      expect(content.metadata?.postType).toBe('show');
+    });
+
+    it('should layer target overrides over platform overrides', async () => {
+      const adapter = new RedditAdapter(redditConfig);
+
+      const shared = await adapter.formatContent(overriddenTool);
+      const programming = await adapter.formatContent(overriddenTool, { target: 'r/programming' });
+
+      expect(shared).toMatchObject({ title: 'Test Tool - A test tool for developers', url: 'https://example.com/reddit', tags: ['testing', 'cli'] });
+      expect(programming).toMatchObject({ title: 'Programmers: Test Tool', url: 'https://example.com/reddit', tags: ['programming'] });
+    });
+
+    it('should split Twitter body overrides into a thread', async () => {
+      const content = await new TwitterAdapter(twitterConfig).formatContent(overriddenTool);
+
+      expect(content.metadata?.tweets).toEqual(['Playful 🎉', 'https://example.com/test-tool']);
+    });
+
+    it('should reject unsupported post types', async () => {
+      const tool2 = { ...tool, overrides: { reddit: { postType: 'video' } } };
+
+      await expect(new RedditAdapter(redditConfig).formatContent(tool2)).rejects.toThrow('Invalid Reddit post type override: video');
+    });
+  });
+
+  describe('images', () => {
+    const imageTool: Tool = {
+      ...tool,
+      images: {
+        logo: { src: 'https://example.com/logo.png' },
+        screenshots: [{ src: 'https://example.com/screenshot.png', alt: 'Dashboard' }]
+      }
+    };
+
+    it('should attach screenshots to tweets and use them as Dev.to covers', async () => {
+      const tweet = await new TwitterAdapter(twitterConfig).formatContent(imageTool);
+      const article = await new DevToAdapter(devToConfig).formatContent(imageTool);
+
+      expect(tweet.images?.map(image => image.src)).toEqual(['https://example.com/screenshot.png', 'https://example.com/logo.png']);
+      expect(article.images).toEqual([{ src: 'https://example.com/screenshot.png', alt: 'Dashboard' }]);
+    });
+
+    it('should format Reddit image posts from the primary image', async () => {
+      const content = await new RedditAdapter(redditConfig).formatContent({
+        ...imageTool,
+        overrides: { reddit: { postType: 'image' } }
+      });
+
+      expect(content).toMatchObject({ body: '', metadata: { postType: 'image' } });
+      expect(content.url).toBeUndefined();
+      expect(content.images).toEqual([{ src: 'https://example.com/screenshot.png', alt: 'Dashboard' }]);
+      await expect(new RedditAdapter(redditConfig).formatContent({ ...tool, overrides: { reddit: { postType: 'image' } } }))
+        .rejects.toThrow('Reddit image posts require an image');
+    });
+  });
+});
\ No newline at end of file
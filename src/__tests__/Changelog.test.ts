@@ -0,0 +1,88 @@
+import { findChangelogRelease, parseChangelog } from '../content';
+
+describe('Changelog', () => {
+  const keepAChangelog = [
+    '# Changelog',
+    '',
+    'All notable changes to this project will be documented in this file.',
+    '',
+    '## [Unreleased]',
+    '',
+    '- Work in progress',
+    '',
+    '## [1.2.0] - 2024-05-01',
+    '',
+    '### Added',
+    '',
+    '- Watch mode',
+    '',
+    '### Fixed',
+    '',
+    '- Crash on empty input',
+    '',
+    '## [1.1.0] - 2024-03-10',
+    '',
+    '### Changed',
+    '',
+    '- Faster startup',
+    '',
+    '[Unreleased]: https://github.com/example/tool/compare/v1.2.0...HEAD',
+    '[1.2.0]: https://github.com/example/tool/compare/v1.1.0...v1.2.0',
+    '[1.1.0]: https://github.com/example/tool/compare/v1.0.0...v1.1.0'
+  ].join('\n');
+
+  const conventionalChangelog = [
+    '# Changelog',
+    '',
+    '### [2.0.1](https://github.com/example/tool/compare/v2.0.0...v2.0.1) (2024-06-02)',
+    '',
+    '### Bug Fixes',
+    '',
+    '* handle missing config ([abc1234](https://github.com/example/tool/commit/abc1234))',
+    '',
+    '<a name="2.0.0"></a>',
+    '# [2.0.0](https://github.com/example/tool/compare/v1.9.0...v2.0.0) (2024-06-01)',
+    '',
+    '### Features',
+    '',
+    '* new plugin API'
+  ].join('\n');
+
+  it('should parse Keep a Changelog entries with their compare links', () => {
+    const releases = parseChangelog(keepAChangelog);
+
+    expect(releases.map(release => release.version)).toEqual(['Unreleased', '1.2.0', '1.1.0']);
+    expect(releases[1]).toEqual({
+      version: '1.2.0',
+      date: '2024-05-01',
+      notes: '### Added\n\n- Watch mode\n\n### Fixed\n\n- Crash on empty input',
+      url: 'https://github.com/example/tool/compare/v1.1.0...v1.2.0'
+    });
+    expect(releases[2].notes).toBe('### Changed\n\n- Faster startup');
+  });
+
+  it('should parse conventional-changelog entries across heading levels', () => {
+    const releases = parseChangelog(conventionalChangelog);
+
+    expect(releases).toEqual([
+      {
+        version: '2.0.1',
+        date: '2024-06-02',
+        notes: '### Bug Fixes\n\n* handle missing config ([abc1234](https://github.com/example/tool/commit/abc1234))',
+        url: 'https://github.com/example/tool/compare/v2.0.0...v2.0.1'
+      },
+      {
+        version: '2.0.0',
+        date: '2024-06-01',
+        notes: '### Features\n\n* new plugin API',
+        url: 'https://github.com/example/tool/compare/v1.9.0...v2.0.0'
+      }
+    ]);
+  });
+
+  it('should find a version, accepting a v prefix, or default to the newest release', () => {
+    expect(findChangelogRelease(keepAChangelog, 'v1.1.0')?.notes).toBe('### Changed\n\n- Faster startup');
+    expect(findChangelogRelease(keepAChangelog)?.version).toBe('1.2.0');
+    expect(findChangelogRelease(keepAChangelog, '3.0.0')).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -127,4 +127,73 @@ describe('ConfigManager', () => {
       expect(enabledPlatforms[0].platform).toBe('reddit');
     });
   });
+
+  describe('getPlatformTemplates', () => {
+    it('should resolve inline and file templates with fallback to the default', async () => {
+      mockFs.readFileSync.mockReturnValue('# {name}\n\n{longDescription}');
+
+      await configManager.loadConfig([{
+        type: 'inline',
+        data: {
+          templates: {
+            default: { title: '{name}: {shortDescription}', body: '{longDescription}' },
+            reddit: '{name} - {shortDescription}',
+            'dev.to': { bodyFile: './templates/devto.md' }
+          }
+        }
+      }]);
+
+      expect(configManager.getPlatformTemplates('reddit')).toEqual({
+        title: '{name} - {shortDescription}',
+        body: '{longDescription}'
+      });
+      expect(configManager.getPlatformTemplates('dev.to')).toEqual({
+        title: '{name}: {shortDescription}',
+        body: '# {name}\n\n{longDescription}'
+      });
+      expect(mockFs.readFileSync).toHaveBeenCalledWith('/test/templates/devto.md', 'utf8');
+    });
+
+    it('should resolve template files relative to the config file that names them', async () => {
+      mockFs.readFileSync
+        .mockReturnValueOnce(JSON.stringify({ templates: { github: { bodyFile: './templates/github.md' } } }))
+        .mockReturnValueOnce('## {name}');
+
+      await configManager.loadConfig([{ type: 'file', path: '/configs/syndication.config.json' }]);
+
+      expect(configManager.getPlatformTemplates('github')).toEqual({ body: '## {name}' });
+      expect(mockFs.readFileSync).toHaveBeenCalledWith('/configs/templates/github.md', 'utf8');
+    });
+
+    it('should use no templates by default', async () => {
+      await configManager.loadConfig([{ type: 'inline', data: {} }]);
+
+      expect(configManager.getPlatformTemplates('github')).toEqual({});
+    });
+
+    it('should ignore the multi-line string templates written by older config --init', async () => {
+      await configManager.loadConfig([{
+        type: 'inline',
+        data: {
+          templates: {
+            default: '{name}: {shortDescription}\n\n{url}',
+            reddit: '{name} - {shortDescription}',
+            twitter: '🚀 {name}: {shortDescription} {url}',
+            github: '## {name}\n\n{shortDescription}\n\n**Link:** {url}'
+          }
+        }
+      }]);
+
+      expect(configManager.getPlatformTemplates('github')).toEqual({});
+      expect(configManager.getPlatformTemplates('dev.to')).toEqual({});
+      expect(configManager.getPlatformTemplates('reddit')).toEqual({ title: '{name} - {shortDescription}' });
+    });
+
+    it('should reject templates given both inline and as a file', async () => {
+      await expect(configManager.loadConfig([{
+        type: 'inline',
+        data: { templates: { github: { body: '{name}', bodyFile: './github.md' } } }
+      }])).rejects.toThrow('Template for github cannot set both body and bodyFile');
+    });
+  });
 });
\ No newline at end of file
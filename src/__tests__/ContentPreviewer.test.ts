@@ -0,0 +1,81 @@
+import { FormattedContent, PlatformAdapter } from '../adapters/PlatformAdapter';
+import { Tool } from '../models';
+import { createPlatformRegistry } from '../platforms';
+import { ContentPreviewer, renderHtmlPreview, renderMarkdownPreview } from '../preview';
+
+function createAdapter(platform: string, content: FormattedContent): PlatformAdapter {
+  return {
+    platform,
+    config: {
+      platform,
+      enabled: true,
+      baseUrl: 'https://example.com',
+      auth: { type: 'token', token: 'test' },
+      rateLimit: { requestsPerMinute: 60, requestsPerHour: 600, requestsPerDay: 1000, burstLimit: 10 },
+      retryConfig: { maxRetries: 3, baseDelay: 1000, maxDelay: 30000, backoffMultiplier: 2 },
+      settings: {}
+    },
+    authenticate: jest.fn().mockResolvedValue(true),
+    isAuthenticated: jest.fn().mockResolvedValue(true),
+    validateConfig: jest.fn().mockResolvedValue({ isValid: true, errors: [] }),
+    formatContent: jest.fn().mockResolvedValue(content),
+    publish: jest.fn()
+  };
+}
+
+describe('ContentPreviewer', () => {
+  const tool: Tool = {
+    id: 'test-tool',
+    name: 'Test Tool',
+    shortDescription: 'A test tool for developers',
+    longDescription: 'This is a comprehensive test tool designed to help developers with testing their applications.',
+    url: 'https://example.com/test-tool',
+    category: ['testing'],
+    targetAudience: ['developers']
+  };
+
+  const previewer = new ContentPreviewer(createPlatformRegistry());
+
+  it('should report counts against platform limits and truncation', async () => {
+    const [preview] = await previewer.preview(tool, [createAdapter('hackernews', {
+      title: 'Show HN: Test Tool - A test tool for developers which does a great many things...',
+      body: 'Body <b>text</b>'
+    })]);
+
+    expect(preview.displayName).toBe('Hacker News');
+    expect(preview.title).toEqual({ length: 81, limit: 80 });
+    expect(preview.warnings).toEqual([
+      'Title is 81 characters, over the 80 character limit',
+      'Title was truncated to fit the platform'
+    ]);
+    expect(renderHtmlPreview(tool, [preview])).toContain('Body &lt;b&gt;text&lt;/b&gt;');
+  });
+
+  it('should split Twitter threads and flag tags beyond the platform limit', async () => {
+    const [devto, twitter] = await previewer.preview(tool, [
+      createAdapter('dev.to', { title: 'Test Tool', body: 'Body', tags: ['a', 'b', 'c', 'd', 'e'] }),
+      createAdapter('twitter', {
+        title: 'Test Tool',
+        body: 'First\n\n---TWEET_BREAK---\n\nSecond',
+        metadata: { tweets: ['First', 'x'.repeat(300)] }
+      })
+    ]);
+
+    expect(devto.warnings).toEqual(['Only the first 4 of 5 tags will be used']);
+    expect(twitter.thread?.map(post => post.length)).toEqual([5, 300]);
+    expect(twitter.warnings).toEqual(['Post 2/2 is 300 characters, over the 280 character limit']);
+
+    const markdown = renderMarkdownPreview(tool, [devto, twitter]);
+    expect(markdown).toContain('## Twitter/X (`twitter`)');
+    expect(markdown).toContain('2/2 (300/280 chars ⚠️)');
+  });
+
+  it('should report adapters that fail to format content', async () => {
+    const adapter = createAdapter('reddit', { title: '', body: '' });
+    (adapter.formatContent as jest.Mock).mockRejectedValue(new Error('Missing subreddit'));
+
+    const [preview] = await previewer.preview(tool, [adapter]);
+
+    expect(preview.error).toBe('Missing subreddit');
+  });
+});
\ No newline at end of file
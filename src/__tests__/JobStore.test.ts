@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JOB_LEASE_MS, JobStore, MAX_JOB_ATTEMPTS, ScheduledJobStatus, Scheduler } from '../scheduler';
+import { JsonFileJobStore } from '../storage/JsonFileJobStore';
+import { SqliteJobStore } from '../storage/SqliteJobStore';
+
+describe.each([
+  ['JsonFileJobStore', (dir: string) => new JsonFileJobStore(path.join(dir, 'jobs.json'))],
+  ['SqliteJobStore', (dir: string) => new SqliteJobStore(path.join(dir, 'syndication.db'))]
+])('%s', (_name, createStore: (dir: string) => JobStore) => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'syndication-jobs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should let only one of two schedulers sharing the queue claim a job', () => {
+    const first = new Scheduler(createStore(tempDir));
+    const second = new Scheduler(createStore(tempDir));
+    const job = first.schedule('test-tool', '1.0.0', 'reddit', new Date(Date.now() - 1000));
+
+    // Both workers list the job as due before either claims it
+    expect(first.getDueJobs()).toHaveLength(1);
+    expect(second.getDueJobs()).toHaveLength(1);
+
+    const claims = [first.claim(job.id), second.claim(job.id)];
+
+    expect(claims.filter(claim => claim !== undefined)).toHaveLength(1);
+    expect(second.getJob(job.id)).toMatchObject({ status: ScheduledJobStatus.RUNNING, attempts: 1 });
+    expect(fs.readdirSync(tempDir).some(file => file.endsWith('.lock'))).toBe(false);
+  });
+
+  it('should not cancel or reschedule a job a worker has claimed', () => {
+    const scheduler = new Scheduler(createStore(tempDir));
+    const publishAt = new Date(Date.now() - 1000);
+    const job = scheduler.schedule('test-tool', '1.0.0', 'reddit', publishAt);
+    scheduler.claim(job.id);
+
+    expect(scheduler.cancel(job.id)).toBe(false);
+    expect(scheduler.getJob(job.id)?.status).toBe(ScheduledJobStatus.RUNNING);
+    expect(scheduler.schedule('test-tool', '1.0.0', 'reddit', publishAt).id).not.toBe(job.id);
+  });
+
+  it('should requeue jobs stranded in running and fail them after the last attempt', () => {
+    const scheduler = new Scheduler(createStore(tempDir));
+    const job = scheduler.schedule('test-tool', '1.0.0', 'reddit', new Date(Date.now() - 1000));
+    const afterLease = () => new Date(Date.now() + JOB_LEASE_MS + 1000);
+
+    scheduler.claim(job.id);
+    expect(scheduler.recoverStalledJobs()).toHaveLength(0);
+    expect(scheduler.recoverStalledJobs(afterLease())[0]).toMatchObject({ status: ScheduledJobStatus.PENDING, attempts: 1 });
+
+    for (let attempt = 2; attempt <= MAX_JOB_ATTEMPTS; attempt++) {
+      scheduler.claim(job.id);
+      scheduler.recoverStalledJobs(afterLease());
+    }
+
+    expect(scheduler.getJob(job.id)).toMatchObject({ status: ScheduledJobStatus.FAILED, attempts: MAX_JOB_ATTEMPTS });
+  });
+});
\ No newline at end of file
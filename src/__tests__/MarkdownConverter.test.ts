@@ -0,0 +1,70 @@
+import { convertMarkdown } from '../content';
+
+describe('convertMarkdown', () => {
+  const markdown = [
+    '## Features',
+    '',
+    'A **fast** tool for _developers_ with `snake_case` support and [docs](https://example.com/a_b_c) 🚀.',
+    '',
+    '- Parses **configs**',
+    '  - Nested item',
+    '',
+    '```ts',
+    'const answer = 42;',
+    '```',
+    '',
+    '![Screenshot](https://example.com/shot.png)'
+  ].join('\n');
+
+  it('should pass GitHub-flavored markdown through for GitHub and Dev.to', () => {
+    expect(convertMarkdown(`${markdown}\n`, 'github')).toBe(markdown);
+    expect(convertMarkdown(markdown, 'devto')).toBe(markdown);
+  });
+
+  it('should convert images and fenced code for Reddit', () => {
+    const result = convertMarkdown(markdown, 'reddit');
+
+    expect(result).toContain('A **fast** tool for _developers_');
+    expect(result).toContain('    const answer = 42;');
+    expect(result).not.toContain('```');
+    expect(result).toContain('[Screenshot](https://example.com/shot.png)');
+    expect(result).not.toContain('![');
+  });
+
+  it('should render LinkedIn plain text with headings on their own line and no emphasis markers', () => {
+    const result = convertMarkdown(markdown, 'linkedin');
+
+    expect(result).toBe([
+      'Features',
+      'A fast tool for developers with snake_case support and docs (https://example.com/a_b_c) 🚀.',
+      '• Parses configs\n  • Nested item',
+      'const answer = 42;'
+    ].join('\n\n'));
+    // Mathematical Alphanumeric Symbols, which screen readers and search do not read as letters
+    expect(result).not.toMatch(/[\u{1D400}-\u{1D7FF}]/u);
+  });
+
+  it('should render Twitter plain text without styled characters', () => {
+    const result = convertMarkdown(markdown, 'twitter');
+
+    expect(result).toBe([
+      'Features',
+      'A fast tool for developers with snake_case support and docs (https://example.com/a_b_c) 🚀.',
+      '• Parses configs\n  • Nested item',
+      'const answer = 42;'
+    ].join('\n\n'));
+  });
+
+  it('should render Hacker News text with italics and indented code', () => {
+    const result = convertMarkdown(markdown, 'hackernews');
+
+    expect(result).toContain('A *fast* tool for *developers* with snake_case support');
+    expect(result).toContain('- Parses *configs*\n\n- Nested item');
+    expect(result).toContain('  const answer = 42;');
+  });
+
+  it('should keep accents, CJK and surrogate pairs intact', () => {
+    expect(convertMarkdown('**Café 👩‍💻 v2**', 'linkedin')).toBe('Café 👩‍💻 v2');
+    expect(convertMarkdown('**日本語 🎉**', 'linkedin')).toBe('日本語 🎉');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Tool } from '../models';
+import { extractMarkdownSection, resolveLongDescription, rewriteRelativeUrls } from '../content';
+
+describe('MarkdownFile', () => {
+  const readme = [
+    '# My Tool',
+    '',
+    'Intro paragraph.',
+    '',
+    '## Getting Started',
+    '',
+    '![Demo](./docs/demo.png)',
+    '',
+    '```bash',
+    '# not a heading',
+    '```',
+    '',
+    '### Options',
+    '',
+    'See [the guide](docs/guide.md#setup) or [the site](https://example.com).',
+    '',
+    '## License',
+    '',
+    'MIT'
+  ].join('\n');
+
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-file-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should extract a section by heading text or anchor', () => {
+    const section = extractMarkdownSection(readme, 'Getting Started');
+
+    expect(section).toContain('# not a heading');
+    expect(section).toContain('### Options');
+    expect(section).not.toContain('License');
+    expect(extractMarkdownSection(readme, '#license')).toBe('MIT');
+    expect(() => extractMarkdownSection(readme, 'Missing')).toThrow('Section not found in markdown: Missing');
+  });
+
+  it('should rewrite relative links and images against a GitHub repository', () => {
+    const result = rewriteRelativeUrls(readme, 'https://github.com/example/my-tool.git');
+
+    expect(result).toContain('![Demo](https://raw.githubusercontent.com/example/my-tool/HEAD/docs/demo.png)');
+    expect(result).toContain('[the guide](https://github.com/example/my-tool/blob/HEAD/docs/guide.md#setup)');
+    expect(result).toContain('[the site](https://example.com)');
+  });
+
+  it('should resolve links from nested files relative to the repository root', () => {
+    const result = rewriteRelativeUrls('<img src="../logo.svg"> [API](api.md)', 'https://gitlab.com/example/my-tool', 'docs/guides');
+
+    expect(result).toBe('<img src="https://gitlab.com/example/my-tool/docs/logo.svg"> [API](https://gitlab.com/example/my-tool/docs/guides/api.md)');
+  });
+
+  it('should load longDescription from a file relative to the tool file', () => {
+    fs.writeFileSync(path.join(tempDir, 'README.md'), readme);
+
+    const tool: Partial<Tool> = resolveLongDescription({
+      name: 'My Tool',
+      githubUrl: 'https://github.com/example/my-tool',
+      longDescriptionFile: './README.md',
+      longDescriptionSection: 'Getting Started'
+    }, tempDir);
+
+    expect(tool.longDescription).toMatch(/^!\[Demo\]\(https:\/\/raw\.githubusercontent\.com\/example\/my-tool\/HEAD\/docs\/demo\.png\)/);
+    expect(tool.longDescription).not.toContain('License');
+  });
+
+  it('should reject a tool with both an inline and a file description', () => {
+    expect(() => resolveLongDescription({ longDescription: 'Inline', longDescriptionFile: 'README.md' }, tempDir))
+      .toThrow('Tool cannot set both longDescription and longDescriptionFile');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Tool, ToolValidator } from '../models';
+import {
+  MediaError,
+  MediaLimits,
+  detectImageFormat,
+  getPrimaryImage,
+  listToolImages,
+  loadMediaFile,
+  loadValidatedMedia,
+  resolveToolImages,
+  validateMedia
+} from '../media';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+describe('MediaFile', () => {
+  const limits: MediaLimits = { formats: ['png', 'jpeg'], maxBytes: 1024, maxCount: 2 };
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-file-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeImage = (name: string, data: Buffer | string): string => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, data);
+    return filePath;
+  };
+
+  it('should detect image formats from file contents', () => {
+    expect(detectImageFormat(PNG)).toBe('png');
+    expect(detectImageFormat(JPEG)).toBe('jpeg');
+    expect(detectImageFormat(Buffer.from('GIF89a...'))).toBe('gif');
+    expect(detectImageFormat(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('webp');
+    expect(detectImageFormat(Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBe('svg');
+    expect(detectImageFormat(Buffer.from('not an image'))).toBeUndefined();
+  });
+
+  it('should order images with the social card first', () => {
+    const images = {
+      logo: { src: 'logo.png' },
+      screenshots: [{ src: 'one.png' }, { src: 'two.png' }],
+      socialCard: { src: 'card.png' }
+    };
+
+    expect(listToolImages(images).map(image => image.src)).toEqual(['card.png', 'one.png', 'two.png', 'logo.png']);
+    expect(getPrimaryImage({ logo: { src: 'logo.png' } })?.src).toBe('logo.png');
+    expect(listToolImages(undefined)).toEqual([]);
+  });
+
+  it('should resolve local image paths relative to the tool file', () => {
+    const tool = resolveToolImages({
+      name: 'My Tool',
+      images: {
+        logo: { src: 'assets/logo.png', alt: 'Logo' },
+        screenshots: [{ src: 'https://example.com/shot.png' }]
+      }
+    } as Partial<Tool>, tempDir);
+
+    expect(tool.images?.logo).toEqual({ src: path.join(tempDir, 'assets/logo.png'), alt: 'Logo' });
+    expect(tool.images?.screenshots?.[0].src).toBe('https://example.com/shot.png');
+  });
+
+  it('should load a local image with its detected type', async () => {
+    const file = await loadMediaFile({ src: writeImage('logo.png', PNG), alt: 'Logo' });
+
+    expect(file.filename).toBe('logo.png');
+    expect(file.format).toBe('png');
+    expect(file.mimeType).toBe('image/png');
+    expect(file.alt).toBe('Logo');
+  });
+
+  it('should report unsupported formats and oversized files', async () => {
+    const gif = await loadMediaFile({ src: writeImage('anim.gif', 'GIF89a') });
+    const large = await loadMediaFile({ src: writeImage('large.png', Buffer.concat([PNG, Buffer.alloc(2048)])) });
+
+    expect(validateMedia(gif, limits, 'twitter')).toEqual([
+      'anim.gif: twitter does not accept gif images (use png, jpeg)'
+    ]);
+    expect(validateMedia(large, limits, 'twitter')).toEqual([
+      'large.png is 3 KB; twitter allows up to 1 KB'
+    ]);
+  });
+
+  it('should validate every image before returning any', async () => {
+    const images = [
+      { src: writeImage('a.png', PNG) },
+      { src: writeImage('b.jpg', JPEG) },
+      { src: writeImage('c.png', 'ignored beyond maxCount') }
+    ];
+
+    const files = await loadValidatedMedia(images, limits, 'linkedin');
+    expect(files.map(file => file.format)).toEqual(['png', 'jpeg']);
+
+    await expect(loadValidatedMedia([{ src: writeImage('bad.png', 'text') }], limits, 'linkedin'))
+      .rejects.toThrow(MediaError);
+    await expect(loadValidatedMedia([{ src: path.join(tempDir, 'missing.png') }], limits, 'linkedin'))
+      .rejects.toThrow('Image not found');
+  });
+
+  it('should reject malformed image entries in tool files', () => {
+    const result = ToolValidator.validate({
+      name: 'My Tool',
+      shortDescription: 'Short',
+      longDescription: 'Long',
+      url: 'https://example.com',
+      category: ['development'],
+      targetAudience: ['developers'],
+      images: { logo: { src: '' }, screenshots: 'shot.png' }
+    } as unknown as Tool);
+
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Image logo must have a src',
+      'Image screenshots must be a list'
+    ]));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { AxiosInstance } from 'axios';
+import { DevToAdapter, classifyError } from '../adapters';
+import {
+  AuthError,
+  ContentRejectedError,
+  DuplicateContentError,
+  ExitCode,
+  NetworkError,
+  PlatformError,
+  PlatformUnavailableError,
+  RateLimitError,
+  exitCodeForCategories
+} from '../errors';
+import { DevToConfig, InMemoryPublicationStore, PublicationManager, PublicationStatus, Tool } from '../models';
+import { RateLimitExceededError } from '../ratelimit';
+import { createPlatformRegistry } from '../platforms';
+
+function httpError(status: number, data: unknown = {}, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data, headers } });
+}
+
+describe('PlatformErrors', () => {
+  it('should classify HTTP statuses and network failures', () => {
+    expect(classifyError(httpError(401), 'dev.to')).toBeInstanceOf(AuthError);
+    expect(classifyError(httpError(409))).toBeInstanceOf(DuplicateContentError);
+    expect(classifyError(httpError(422))).toBeInstanceOf(ContentRejectedError);
+    expect(classifyError(httpError(503))).toBeInstanceOf(PlatformUnavailableError);
+    expect(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBeInstanceOf(NetworkError);
+
+    const unknown = classifyError(new Error('Something odd'), 'dev.to');
+    expect(unknown.category).toBe('unknown');
+    expect(unknown.retryable).toBe(false);
+    expect(unknown.platform).toBe('dev.to');
+
+    // A timed out request may still have been published, so it is not retried
+    expect(classifyError(Object.assign(new Error('timeout of 30000ms exceeded'), { code: 'ECONNABORTED' })).retryable).toBe(false);
+  });
+
+  it('should treat 429 and exhausted 403s as rate limits with a retry time', () => {
+    const before = Date.now();
+    const throttled = classifyError(httpError(429, {}, { 'retry-after': '120' }));
+    const exhausted = classifyError(httpError(403, {}, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '4102444800' }));
+
+    expect(throttled).toBeInstanceOf(RateLimitError);
+    expect((throttled as RateLimitError).retryAt!.getTime()).toBeGreaterThanOrEqual(before + 120 * 1000);
+    expect((exhausted as RateLimitError).retryAt).toEqual(new Date(4102444800 * 1000));
+    expect(throttled.retryable).toBe(true);
+  });
+
+  it('should pass typed errors through unchanged', () => {
+    const exceeded = new RateLimitExceededError('reddit', 'day', 100, new Date());
+
+    expect(classifyError(exceeded)).toBe(exceeded);
+    expect(exceeded).toBeInstanceOf(RateLimitError);
+    expect(exceeded).toBeInstanceOf(PlatformError);
+  });
+
+  it('should pick the exit code of the most actionable failure', () => {
+    expect(exitCodeForCategories([])).toBe(ExitCode.SUCCESS);
+    expect(exitCodeForCategories(['network', 'rate_limit'])).toBe(ExitCode.RETRY_LATER);
+    expect(exitCodeForCategories(['network', undefined])).toBe(ExitCode.FAILURE);
+    expect(exitCodeForCategories(['duplicate_content', 'network'])).toBe(ExitCode.CONTENT_REJECTED);
+    expect(exitCodeForCategories(['content_rejected', 'auth'])).toBe(ExitCode.AUTH);
+  });
+
+  it('should report Dev.to duplicate titles as duplicate content', async () => {
+    const [config] = createPlatformRegistry().loadConfigsFromEnv({ DEVTO_API_KEY: 'key' }) as DevToConfig[];
+    const adapter = new DevToAdapter(config);
+    const post = jest.fn().mockRejectedValue(httpError(422, { error: 'Title has already been taken' }));
+    (adapter as unknown as { client: AxiosInstance }).client.post = post;
+
+    const result = await adapter.publish({ name: 'Tool' } as Tool, { title: 'Tool', body: 'Body' });
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Title has already been taken',
+      errorCategory: 'duplicate_content',
+      retryable: false
+    });
+  });
+
+  it('should queue or fail publications by category rather than the retryable flag', () => {
+    const manager = new PublicationManager(new InMemoryPublicationStore());
+    const unavailable = manager.createPublication('tool', 'reddit');
+    const duplicate = manager.createPublication('tool', 'dev.to');
+    const unclassified = manager.createPublication('tool', 'hackernews');
+
+    manager.recordFailure(unavailable.id, 'Bad gateway', { category: 'platform_unavailable', retryable: false });
+    manager.recordFailure(duplicate.id, 'Already posted', { category: 'duplicate_content', retryable: true });
+    manager.recordFailure(unclassified.id, 'Timed out', { category: 'unknown', retryable: true });
+
+    expect(manager.getPublication(unavailable.id)).toMatchObject({
+      status: PublicationStatus.RETRYING,
+      errorCategory: 'platform_unavailable'
+    });
+    expect(manager.getPublication(duplicate.id)).toMatchObject({
+      status: PublicationStatus.FAILED,
+      errorCategory: 'duplicate_content'
+    });
+    expect(manager.getPublication(unclassified.id)?.status).toBe(PublicationStatus.RETRYING);
+  });
+});
\ No newline at end of file
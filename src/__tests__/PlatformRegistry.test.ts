@@ -0,0 +1,68 @@
+import { ConfigManager } from '../config/ConfigManager';
+import { LinkedInAdapter, TwitterAdapter, HackerNewsAdapter } from '../adapters';
+import { createPlatformRegistry, PlatformRegistry } from '../platforms';
+
+describe('PlatformRegistry', () => {
+  let registry: PlatformRegistry;
+
+  beforeEach(() => {
+    registry = createPlatformRegistry();
+  });
+
+  it('should register all built-in platforms', () => {
+    expect(registry.list().map(definition => definition.name)).toEqual([
+      'reddit', 'dev.to', 'github', 'linkedin', 'twitter', 'hackernews'
+    ]);
+  });
+
+  it('should reject registering a platform twice', () => {
+    expect(() => registry.register(registry.get('reddit')!)).toThrow('Platform already registered: reddit');
+  });
+
+  it('should only load platforms whose credentials are present', () => {
+    const configs = registry.loadConfigsFromEnv({
+      LINKEDIN_ACCESS_TOKEN: 'linkedin-token',
+      TWITTER_ACCESS_TOKEN: 'twitter-token',
+      TWITTER_HASHTAGS: 'devtools, opensource',
+      HACKERNEWS_USERNAME: 'hn-user',
+      HACKERNEWS_PASSWORD: 'hn-pass'
+    });
+
+    expect(configs.map(config => config.platform)).toEqual(['linkedin', 'twitter', 'hackernews']);
+    expect(configs[1].settings.defaultHashtags).toEqual(['devtools', 'opensource']);
+    expect(configs[2].auth).toMatchObject({ token: 'hn-user', tokenSecret: 'hn-pass' });
+    expect(configs[2].settings.postType).toBe('show');
+  });
+
+  it('should create adapters for the newly reachable platforms', () => {
+    const configs = registry.loadConfigsFromEnv({
+      LINKEDIN_ACCESS_TOKEN: 'linkedin-token',
+      TWITTER_ACCESS_TOKEN: 'twitter-token',
+      HACKERNEWS_USERNAME: 'hn-user',
+      HACKERNEWS_PASSWORD: 'hn-pass'
+    });
+
+    const adapters = configs.map(config => registry.createAdapter(config));
+
+    expect(adapters[0]).toBeInstanceOf(LinkedInAdapter);
+    expect(adapters[1]).toBeInstanceOf(TwitterAdapter);
+    expect(adapters[2]).toBeInstanceOf(HackerNewsAdapter);
+  });
+
+  it('should throw for unknown platforms', () => {
+    const config = { ...registry.loadConfigsFromEnv({ GITHUB_TOKEN: 'token' })[0], platform: 'myspace' };
+    expect(() => registry.createAdapter(config)).toThrow('Unknown platform: myspace');
+  });
+
+  it('should feed ConfigManager environment loading', async () => {
+    const configManager = new ConfigManager('/test', registry);
+    process.env.TWITTER_ACCESS_TOKEN = 'twitter-token';
+
+    try {
+      await configManager.loadConfig([{ type: 'env' }]);
+      expect(configManager.getPlatformConfig('twitter')?.auth.accessToken).toBe('twitter-token');
+    } finally {
+      delete process.env.TWITTER_ACCESS_TOKEN;
+    }
+  });
+});
\ No newline at end of file
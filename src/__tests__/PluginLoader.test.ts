@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlatformConfig } from '../models';
+import { PlatformRegistry } from '../platforms';
+import { PluginLoader } from '../plugins';
+
+const pluginSource = (name: string, adapterBody = '') => `
+module.exports = {
+  name: '${name}',
+  displayName: 'Test ${name}',
+  configSchema: {
+    endpoint: { type: 'string', required: true },
+    draft: { type: 'boolean', default: true }
+  },
+  createAdapter: (config) => ({
+    platform: '${name}',
+    config,
+    authenticate: async () => true,
+    isAuthenticated: async () => true,
+    validateConfig: async () => ({ isValid: true, errors: [] }),
+    formatContent: async (tool) => ({ title: tool.name, body: tool.shortDescription }),
+    ${adapterBody || "publish: async () => ({ success: true, postId: '1' })"}
+  })
+};
+`;
+
+function writePlugin(filePath: string, source: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, source);
+}
+
+function createPlatformConfig(platform: string, settings: Record<string, unknown>): PlatformConfig {
+  return {
+    platform,
+    enabled: true,
+    baseUrl: 'https://example.com',
+    auth: { type: 'token', token: 'test' },
+    rateLimit: { requestsPerMinute: 60, requestsPerHour: 600, requestsPerDay: 1000, burstLimit: 10 },
+    retryConfig: { maxRetries: 3, baseDelay: 1000, maxDelay: 30000, backoffMultiplier: 2 },
+    settings
+  };
+}
+
+describe('PluginLoader', () => {
+  let tempDir: string;
+  let registry: PlatformRegistry;
+  let loader: PluginLoader;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'syndication-plugins-'));
+    registry = new PlatformRegistry();
+    loader = new PluginLoader(registry, tempDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should discover installed and configured plugins', () => {
+    writePlugin(path.join(tempDir, 'node_modules/syndication-adapter-blog/index.js'), pluginSource('company-blog'));
+    writePlugin(path.join(tempDir, 'node_modules/@acme/syndication-adapter-forum/index.js'), pluginSource('forum'));
+    writePlugin(path.join(tempDir, 'node_modules/unrelated-package/index.js'), 'module.exports = {};');
+    writePlugin(path.join(tempDir, 'plugins/wiki.js'), pluginSource('wiki'));
+
+    const result = loader.load(['./plugins/wiki.js']);
+
+    expect(result.errors).toEqual([]);
+    expect(result.loaded).toEqual([
+      { source: '@acme/syndication-adapter-forum', platform: 'forum' },
+      { source: 'syndication-adapter-blog', platform: 'company-blog' },
+      { source: './plugins/wiki.js', platform: 'wiki' }
+    ]);
+    expect(registry.list().map(definition => definition.name)).toEqual(['forum', 'company-blog', 'wiki']);
+  });
+
+  it('should apply the plugin config schema when creating adapters', () => {
+    writePlugin(path.join(tempDir, 'plugins/blog.js'), pluginSource('company-blog'));
+    loader.load(['./plugins/blog.js']);
+
+    const adapter = registry.createAdapter(createPlatformConfig('company-blog', { endpoint: 'https://blog.internal' }));
+
+    expect(adapter.config.settings).toEqual({ endpoint: 'https://blog.internal', draft: true });
+    expect(registry.validateSettings(createPlatformConfig('company-blog', { draft: 'yes' })).errors).toEqual([
+      'Setting "endpoint" is required',
+      'Setting "draft" must be of type boolean'
+    ]);
+  });
+
+  it('should reject adapters that do not implement PlatformAdapter', () => {
+    writePlugin(path.join(tempDir, 'plugins/broken.js'), pluginSource('broken', "publish: 'not a function'"));
+    loader.load(['./plugins/broken.js']);
+
+    expect(() => registry.createAdapter(createPlatformConfig('broken', { endpoint: 'https://broken.internal' })))
+      .toThrow('Plugin ./plugins/broken.js does not implement PlatformAdapter: Adapter must implement publish()');
+  });
+
+  it('should report plugins that cannot be loaded without aborting', () => {
+    writePlugin(path.join(tempDir, 'plugins/empty.js'), 'module.exports = { name: "empty" };');
+    writePlugin(path.join(tempDir, 'plugins/wiki.js'), pluginSource('wiki'));
+
+    const result = loader.load(['./plugins/missing.js', './plugins/empty.js', './plugins/wiki.js']);
+
+    expect(result.loaded).toEqual([{ source: './plugins/wiki.js', platform: 'wiki' }]);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[1]).toBe('Failed to load plugin ./plugins/empty.js: Plugin must define createAdapter()');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PublicationManager, PublicationStatus, PublicationStore } from '../models/Publication';
+import { JsonFilePublicationStore } from '../storage/JsonFilePublicationStore';
+import { SqlitePublicationStore } from '../storage/SqlitePublicationStore';
+
+describe.each([
+  ['JsonFilePublicationStore', (dir: string) => new JsonFilePublicationStore(path.join(dir, 'publications.json'))],
+  ['SqlitePublicationStore', (dir: string) => new SqlitePublicationStore(path.join(dir, 'syndication.db'))]
+])('%s', (_name, createStore: (dir: string) => PublicationStore) => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'syndication-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist publications across manager instances', () => {
+    const manager = new PublicationManager(createStore(tempDir));
+    const publication = manager.createPublication('test-tool', 'reddit');
+
+    manager.updatePublication(publication.id, {
+      status: PublicationStatus.FAILED,
+      error: 'Rate limited'
+    });
+
+    const reloaded = new PublicationManager(createStore(tempDir)).getPublication(publication.id);
+    expect(reloaded).toBeDefined();
+    expect(reloaded?.status).toBe(PublicationStatus.FAILED);
+    expect(reloaded?.error).toBe('Rate limited');
+    expect(reloaded?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should keep publications created in the same millisecond apart', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    const first = new PublicationManager(createStore(tempDir)).createPublication('test-tool', 'reddit');
+    const second = new PublicationManager(createStore(tempDir)).createPublication('test-tool', 'reddit');
+    jest.restoreAllMocks();
+
+    expect(first.id).not.toBe(second.id);
+    expect(new PublicationManager(createStore(tempDir)).getPublicationsByTool('test-tool')).toHaveLength(2);
+    expect(fs.readdirSync(tempDir).some(file => file.endsWith('.lock'))).toBe(false);
+  });
+
+  it('should treat the most recently created publication as the latest, however the store orders them', () => {
+    const store = createStore(tempDir);
+    const manager = new PublicationManager(store);
+    const older = manager.createPublication('test-tool', 'reddit', 3, '1.0.0');
+    const newer = manager.createPublication('test-tool', 'reddit', 3, '1.0.0');
+    store.save({ ...older, timestamp: new Date(1700000000000) });
+    store.save({ ...newer, timestamp: new Date(1700000001000) });
+
+    manager.updatePublication(newer.id, { status: PublicationStatus.SUCCESS });
+    manager.updatePublication(older.id, { status: PublicationStatus.SUCCESS });
+
+    expect(manager.findExistingPublication('test-tool', '1.0.0', 'reddit')?.id).toBe(newer.id);
+    expect(manager.getPublicationsByTool('test-tool').map(pub => pub.id)).toEqual([older.id, newer.id]);
+  });
+
+  it('should find publications by tool, platform and status', () => {
+    const manager = new PublicationManager(createStore(tempDir));
+    const reddit = manager.createPublication('test-tool', 'reddit');
+    manager.createPublication('test-tool', 'dev.to');
+    manager.createPublication('other-tool', 'reddit');
+
+    manager.updatePublication(reddit.id, {
+      status: PublicationStatus.SUCCESS,
+      platformPostId: 'abc123'
+    });
+
+    const reloaded = new PublicationManager(createStore(tempDir));
+    expect(reloaded.getPublicationsByTool('test-tool')).toHaveLength(2);
+    expect(reloaded.getPublicationsByPlatform('reddit')).toHaveLength(2);
+    expect(reloaded.getFailedPublications()).toHaveLength(0);
+    expect(reloaded.getPublication(reddit.id)?.platformPostId).toBe('abc123');
+  });
+
+  it('should queue retryable failures with backoff and fail the rest for good', () => {
+    const manager = new PublicationManager(createStore(tempDir));
+    const policy = { baseDelay: 60000, maxDelay: 300000, backoffMultiplier: 2 };
+    const throttled = manager.createPublication('test-tool', 'reddit', 1);
+    const rejected = manager.createPublication('test-tool', 'dev.to', 1);
+
+    const before = Date.now();
+    manager.recordFailure(throttled.id, 'Too many requests', { retryable: true, policy });
+    manager.recordFailure(rejected.id, 'Invalid API key', { retryable: false, policy });
+
+    const reloaded = new PublicationManager(createStore(tempDir));
+    const queued = reloaded.getPublication(throttled.id)!;
+    expect(queued.status).toBe(PublicationStatus.RETRYING);
+    expect(queued.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    expect(reloaded.getPublication(rejected.id)?.status).toBe(PublicationStatus.FAILED);
+    expect(reloaded.getFailedPublications()).toHaveLength(2);
+    expect(reloaded.getDueRetries()).toHaveLength(0);
+    expect(reloaded.getDueRetries(new Date(before + 120000)).map(pub => pub.id)).toEqual([throttled.id]);
+
+    // Once the attempts run out, even retryable failures stop being queued
+    reloaded.updatePublication(throttled.id, { retryCount: 1 });
+    reloaded.recordFailure(throttled.id, 'Too many requests', { retryable: true, policy });
+    expect(reloaded.getPublication(throttled.id)).toMatchObject({ status: PublicationStatus.FAILED, nextAttemptAt: undefined });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AdaptiveRateLimiter,
+  CompositeRateLimiter,
+  InMemoryRateLimitStore,
+  RateLimitExceededError,
+  RateLimitBackend,
+  RateLimitStore,
+  SharedRateLimiter,
+  parseRateLimitHeaders
+} from '../ratelimit';
+import { BasePlatformAdapter, FormattedContent, PublicationResult } from '../adapters/PlatformAdapter';
+import { PlatformConfig } from '../models';
+import { JsonFileRateLimitStore } from '../storage/JsonFileRateLimitStore';
+import { SqliteRateLimitStore } from '../storage/SqliteRateLimitStore';
+import { FileLockRateLimitBackend } from '../storage/FileLockRateLimitBackend';
+import { SqliteRateLimitBackend } from '../storage/SqliteRateLimitBackend';
+
+const HOUR = 60 * 60 * 1000;
+
+const rateLimit = { requestsPerMinute: 60, requestsPerHour: 3, requestsPerDay: 5, burstLimit: 10 };
+
+describe('CompositeRateLimiter', () => {
+  it('should report remaining quota for every window', () => {
+    const store = new InMemoryRateLimitStore();
+    const now = Date.now();
+    store.record('reddit', now - 2 * HOUR);
+    store.record('reddit', now - 1000);
+
+    const quota = new CompositeRateLimiter('reddit', rateLimit, store).getQuota(now);
+
+    expect(quota.map(({ window, used, remaining }) => ({ window, used, remaining }))).toEqual([
+      { window: 'minute', used: 1, remaining: 59 },
+      { window: 'hour', used: 1, remaining: 2 },
+      { window: 'day', used: 2, remaining: 3 }
+    ]);
+    expect(quota[2].resetsAt).toEqual(new Date(now - 2 * HOUR + 24 * HOUR));
+  });
+
+  it('should fail instead of waiting hours for an exhausted quota', async () => {
+    const store = new InMemoryRateLimitStore();
+    const now = Date.now();
+    [50, 40, 30].forEach(minutes => store.record('reddit', now - minutes * 60 * 1000));
+
+    const limiter = new CompositeRateLimiter('reddit', rateLimit, store);
+
+    expect(await limiter.canMakeRequest()).toBe(false);
+    await expect(limiter.waitIfNeeded()).rejects.toThrow(RateLimitExceededError);
+    await expect(limiter.waitIfNeeded()).rejects.toMatchObject({
+      platform: 'reddit',
+      window: 'hour',
+      limit: 3,
+      retryAt: new Date(now - 50 * 60 * 1000 + HOUR)
+    });
+  });
+
+  it('should keep counts per platform', async () => {
+    const store = new InMemoryRateLimitStore();
+    const reddit = new CompositeRateLimiter('reddit', rateLimit, store);
+    const devto = new CompositeRateLimiter('dev.to', rateLimit, store);
+
+    reddit.recordRequest();
+    reddit.recordRequest();
+
+    expect(reddit.getQuota()[1].remaining).toBe(1);
+    expect(devto.getQuota()[1].remaining).toBe(3);
+    expect(await devto.canMakeRequest()).toBe(true);
+  });
+});
+
+describe('parseRateLimitHeaders', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('should read Retry-After as seconds or an HTTP date', () => {
+    expect(parseRateLimitHeaders({ 'Retry-After': '30' }, now)).toEqual({ retryAfterMs: 30000 });
+    expect(parseRateLimitHeaders({ 'retry-after': 'Thu, 01 Jan 2026 00:02:00 GMT' }, now)).toEqual({ retryAfterMs: 120000 });
+  });
+
+  it('should read reset as epoch seconds (GitHub, Twitter) or seconds from now (Reddit)', () => {
+    expect(parseRateLimitHeaders({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(now / 1000 + 600) }, now))
+      .toEqual({ remaining: 0, resetAt: new Date(now + 600000) });
+    expect(parseRateLimitHeaders({ 'x-ratelimit-remaining': '0.0', 'x-ratelimit-reset': '42' }, now))
+      .toEqual({ remaining: 0, resetAt: new Date(now + 42000) });
+    expect(parseRateLimitHeaders({ 'x-rate-limit-remaining': '12' }, now)).toEqual({ remaining: 12 });
+    expect(parseRateLimitHeaders(undefined, now)).toEqual({});
+  });
+});
+
+describe('AdaptiveRateLimiter', () => {
+  const createLimiter = (maxWaitMs?: number) =>
+    new AdaptiveRateLimiter('github', new CompositeRateLimiter('github', rateLimit), maxWaitMs);
+
+  it('should pause until the reset once the server reports no requests remaining', async () => {
+    const limiter = createLimiter();
+    const now = Date.now();
+
+    expect(limiter.observe({ 'x-ratelimit-remaining': '4', 'x-ratelimit-reset': String(now / 1000 + 3600) }, now)).toBe(0);
+    expect(limiter.observe({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(now / 1000 + 3600) }, now)).toBe(3600000);
+
+    await expect(limiter.waitIfNeeded()).rejects.toMatchObject({ platform: 'github', window: 'server' });
+    expect(limiter.takeWaits()).toEqual([
+      { source: 'rate-limit-reset', waitMs: 3600000, resumeAt: new Date(now + 3600000).toISOString() }
+    ]);
+    expect(limiter.takeWaits()).toEqual([]);
+  });
+
+  it('should wait out a short Retry-After', async () => {
+    const limiter = createLimiter();
+    limiter.observe({ 'retry-after': '0.05' });
+
+    const started = Date.now();
+    await limiter.waitIfNeeded();
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    expect(await limiter.canMakeRequest()).toBe(true);
+  });
+});
+
+describe('BasePlatformAdapter rate limit handling', () => {
+  class TestAdapter extends BasePlatformAdapter {
+    readonly platform = 'test';
+
+    async authenticate(): Promise<boolean> {
+      return true;
+    }
+
+    async isAuthenticated(): Promise<boolean> {
+      return true;
+    }
+
+    async formatContent(): Promise<FormattedContent> {
+      return { title: '', body: '' };
+    }
+
+    async publish(): Promise<PublicationResult> {
+      return { success: true };
+    }
+
+    send<T>(operation: () => Promise<T>): Promise<T> {
+      return this.retryWithExponentialBackoff(operation);
+    }
+  }
+
+  const config: PlatformConfig = {
+    platform: 'test',
+    enabled: true,
+    baseUrl: 'https://example.com',
+    auth: { type: 'token', token: 'test' },
+    rateLimit,
+    // A backoff this long would time the test out if Retry-After were ignored
+    retryConfig: { maxRetries: 2, baseDelay: 60000, maxDelay: 60000, backoffMultiplier: 2 },
+    settings: {}
+  };
+
+  const tooManyRequests = (headers: Record<string, string>) =>
+    Object.assign(new Error('Request failed with status code 429'), { response: { status: 429, headers } });
+
+  it('should retry after the server-specified delay instead of backing off', async () => {
+    const adapter = new TestAdapter(config);
+    const operation = jest.fn()
+      .mockRejectedValueOnce(tooManyRequests({ 'retry-after': '0.05' }))
+      .mockResolvedValueOnce({ data: 'ok', headers: {} });
+
+    await expect(adapter.send(operation)).resolves.toMatchObject({ data: 'ok' });
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(adapter.takeRateLimitWaits()).toMatchObject([{ source: 'retry-after', waitMs: 50 }]);
+  });
+
+  it('should give up with the reset time when the server asks for a long pause', async () => {
+    const adapter = new TestAdapter(config);
+    const operation = jest.fn().mockRejectedValue(tooManyRequests({ 'retry-after': '3600' }));
+
+    await expect(adapter.send(operation)).rejects.toBeInstanceOf(RateLimitExceededError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count rejected requests against the quota', async () => {
+    const adapter = new TestAdapter(config);
+    const rejected = Object.assign(new Error('Request failed with status code 422'), { response: { status: 422, headers: {} } });
+
+    await expect(adapter.send(jest.fn().mockRejectedValue(rejected))).rejects.toBe(rejected);
+    expect(adapter.getRateLimitQuota().find(quota => quota.window === 'minute')?.used).toBe(1);
+  });
+});
+
+describe.each([
+  ['JsonFileRateLimitStore', (dir: string) => new JsonFileRateLimitStore(path.join(dir, 'rate-limits.json'))],
+  ['SqliteRateLimitStore', (dir: string) => new SqliteRateLimitStore(path.join(dir, 'syndication.db'))]
+])('%s', (_name, createStore: (dir: string) => RateLimitStore) => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limit-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should carry quotas over to the next run', () => {
+    new CompositeRateLimiter('reddit', rateLimit, createStore(tempDir)).recordRequest();
+    new CompositeRateLimiter('reddit', rateLimit, createStore(tempDir)).recordRequest();
+
+    const quota = new CompositeRateLimiter('reddit', rateLimit, createStore(tempDir)).getQuota();
+    expect(quota.map(({ remaining }) => remaining)).toEqual([58, 1, 3]);
+  });
+
+  it('should forget requests older than a day', () => {
+    const store = createStore(tempDir);
+    const now = Date.now();
+    store.record('reddit', now - 25 * HOUR);
+    store.record('reddit', now);
+
+    expect(createStore(tempDir).list('reddit', 0)).toEqual([now]);
+  });
+});
+
+describe.each([
+  ['FileLockRateLimitBackend', (dir: string) => new FileLockRateLimitBackend(dir)],
+  ['SqliteRateLimitBackend', (dir: string) => new SqliteRateLimitBackend(path.join(dir, 'rate-limits.db'))]
+])('SharedRateLimiter with %s', (_name, createBackend: (dir: string) => RateLimitBackend) => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limit-backend-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  // Each limiter opens the backend itself, as separate processes would
+  const createLimiter = (config = rateLimit) => new SharedRateLimiter('reddit', config, createBackend(tempDir));
+
+  it('should draw from one token bucket for every limiter of a platform', async () => {
+    const config = { requestsPerMinute: 6, requestsPerHour: 100, requestsPerDay: 100, burstLimit: 2 };
+    const first = createLimiter(config);
+    const second = createLimiter(config);
+
+    await first.waitIfNeeded();
+    await second.waitIfNeeded();
+
+    expect(await first.canMakeRequest()).toBe(false);
+    expect(await second.getWaitTime()).toBeGreaterThan(9000);
+    expect(createLimiter(config).getQuota()[0]).toMatchObject({ used: 2, remaining: 4 });
+  });
+
+  it('should not lose claims made at the same time', async () => {
+    const config = { requestsPerMinute: 600, requestsPerHour: 600, requestsPerDay: 600, burstLimit: 5 };
+
+    await Promise.all(Array.from({ length: 5 }, () => createLimiter(config).waitIfNeeded()));
+
+    expect(createBackend(tempDir).read('reddit').requests).toHaveLength(5);
+  });
+
+  it('should fail once another process has used up the hourly quota', async () => {
+    await createLimiter().waitIfNeeded();
+    await createLimiter().waitIfNeeded();
+    await createLimiter().waitIfNeeded();
+
+    await expect(createLimiter().waitIfNeeded()).rejects.toMatchObject({ window: 'hour', limit: 3 });
+  });
+});
+describe('FileLockRateLimitBackend lock files', () => {
+  let tempDir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limit-lock-'));
+    lockPath = path.join(tempDir, 'reddit.json.lock');
+    fs.writeFileSync(lockPath, '12345');
+    const abandoned = new Date(Date.now() - 60 * 1000);
+    fs.utimesSync(lockPath, abandoned, abandoned);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should break a lock left behind by a process that died', async () => {
+    await expect(new FileLockRateLimitBackend(tempDir).update('reddit', () => 'updated')).resolves.toBe('updated');
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should wait for a lock that is still held', async () => {
+    fs.utimesSync(lockPath, new Date(), new Date());
+
+    let applied = false;
+    const update = new FileLockRateLimitBackend(tempDir).update('reddit', () => {
+      applied = true;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(applied).toBe(false);
+    expect(fs.existsSync(lockPath)).toBe(true);
+
+    fs.rmSync(lockPath);
+    await update;
+    expect(applied).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Tool } from '../models';
+import {
+  SOCIAL_CARD_HEIGHT,
+  SOCIAL_CARD_WIDTH,
+  SocialCardGenerator,
+  applySocialCard,
+  detectImageFormat,
+  validateSocialCardOptions
+} from '../media';
+
+describe('SocialCard', () => {
+  const tool: Tool = {
+    id: 'my-tool',
+    name: 'My Tool',
+    shortDescription: 'Formats <everything> & more, across every platform you publish to',
+    longDescription: 'Long description',
+    url: 'https://www.example.com/my-tool',
+    category: ['development'],
+    targetAudience: ['developers'],
+    tags: ['cli', 'automation']
+  };
+
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'social-card-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should render a 1200x630 PNG without any image dependencies', () => {
+    const png = new SocialCardGenerator().render(tool);
+
+    expect(detectImageFormat(png)).toBe('png');
+    expect(png.readUInt32BE(16)).toBe(SOCIAL_CARD_WIDTH);
+    expect(png.readUInt32BE(20)).toBe(SOCIAL_CARD_HEIGHT);
+  });
+
+  it('should render SVG cards with escaped text, tags, host and brand colors', () => {
+    const svg = new SocialCardGenerator({ format: 'svg', brandColor: '#ff0066' }).render(tool).toString('utf8');
+
+    expect(detectImageFormat(Buffer.from(svg))).toBe('svg');
+    expect(svg).toContain('>My Tool</text>');
+    expect(svg).toContain('Formats &lt;everything&gt; &amp; more');
+    expect(svg).toContain('>#cli</text>');
+    expect(svg).toContain('>example.com</text>');
+    expect(svg).toContain('fill="#ff0066"');
+  });
+
+  it('should embed a local logo in SVG cards in place of the host', () => {
+    const logo = path.join(tempDir, 'logo.svg');
+    fs.writeFileSync(logo, '<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+
+    const svg = new SocialCardGenerator({ format: 'svg' })
+      .render({ ...tool, images: { logo: { src: logo } } })
+      .toString('utf8');
+
+    expect(svg).toContain('href="data:image/svg+xml;base64,');
+    expect(svg).not.toContain('>example.com</text>');
+  });
+
+  it('should cache cards on disk until the content changes', () => {
+    const generator = new SocialCardGenerator({}, tempDir);
+
+    const first = generator.generate(tool);
+    const mtime = fs.statSync(first.src).mtimeMs;
+    const again = generator.generate(tool);
+    const changed = generator.generate({ ...tool, shortDescription: 'Something else' });
+
+    expect(path.dirname(first.src)).toBe(tempDir);
+    expect(path.basename(first.src)).toMatch(/^my-tool-[0-9a-f]{12}\.png$/);
+    expect(first.alt).toBe(`My Tool: ${tool.shortDescription}`);
+    expect(again.src).toBe(first.src);
+    expect(fs.statSync(again.src).mtimeMs).toBe(mtime);
+    expect(changed.src).not.toBe(first.src);
+  });
+
+  it('should only fill in a missing social card', () => {
+    const generator = new SocialCardGenerator({}, tempDir);
+    const existing = { src: 'https://example.com/card.png' };
+
+    expect(applySocialCard(tool, generator).images?.socialCard?.src).toMatch(/\.png$/);
+    expect(applySocialCard({ ...tool, images: { socialCard: existing } }, generator).images?.socialCard).toBe(existing);
+  });
+
+  it('should reject invalid formats and colors', () => {
+    expect(validateSocialCardOptions({ format: 'jpeg' as 'png', brandColor: 'purple' })).toEqual([
+      'Social card format must be "png" or "svg"',
+      'Social card brandColor must be a hex color like #1e293b'
+    ]);
+    expect(() => new SocialCardGenerator({ textColor: '#12' })).toThrow('Invalid social card options');
+  });
+});
\ No newline at end of file
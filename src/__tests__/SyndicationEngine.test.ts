@@ -0,0 +1,502 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../config/ConfigManager';
+import { SyndicationEngine } from '../core/SyndicationEngine';
+import { FormattedContent, PlatformAdapter, PublicationResult, PublishOptions } from '../adapters/PlatformAdapter';
+import { InMemoryPublicationStore, PlatformConfig, PublicationStatus, Tool, ToolRegistry, formatPublicationTarget } from '../models';
+import { Scheduler, SchedulerWorker, ScheduledJobStatus } from '../scheduler';
+
+function createPlatformConfig(platform: string): PlatformConfig {
+  return {
+    platform,
+    enabled: true,
+    baseUrl: 'https://example.com',
+    auth: { type: 'token', token: 'test' },
+    rateLimit: { requestsPerMinute: 60, requestsPerHour: 600, requestsPerDay: 1000, burstLimit: 10 },
+    retryConfig: { maxRetries: 3, baseDelay: 1000, maxDelay: 30000, backoffMultiplier: 2 },
+    settings: {}
+  };
+}
+
+function createAdapter(platform: string): PlatformAdapter & { publish: jest.Mock } {
+  let postCount = 0;
+
+  return {
+    platform,
+    config: createPlatformConfig(platform),
+    authenticate: jest.fn().mockResolvedValue(true),
+    isAuthenticated: jest.fn().mockResolvedValue(true),
+    validateConfig: jest.fn().mockResolvedValue({ isValid: true, errors: [] }),
+    formatContent: jest.fn(async (tool: Tool): Promise<FormattedContent> => ({
+      title: tool.name,
+      body: tool.longDescription
+    })),
+    publish: jest.fn(async (): Promise<PublicationResult> => {
+      postCount++;
+      return { success: true, postId: `${platform}-${postCount}`, url: `https://${platform}.example.com/${postCount}` };
+    })
+  };
+}
+
+describe('SyndicationEngine', () => {
+  const tool: Tool = {
+    id: 'test-tool',
+    name: 'Test Tool',
+    shortDescription: 'A test tool for developers',
+    longDescription: 'This is a comprehensive test tool designed to help developers with testing their applications.',
+    url: 'https://example.com/test-tool',
+    category: ['testing'],
+    targetAudience: ['developers'],
+    version: '1.0.0'
+  };
+
+  let configManager: ConfigManager;
+  let reddit: ReturnType<typeof createAdapter>;
+  let devto: ReturnType<typeof createAdapter>;
+  let engine: SyndicationEngine;
+
+  beforeEach(async () => {
+    configManager = new ConfigManager('/test');
+    await configManager.loadConfig([{
+      type: 'inline',
+      data: { platforms: [createPlatformConfig('reddit'), createPlatformConfig('dev.to')] }
+    }]);
+
+    reddit = createAdapter('reddit');
+    devto = createAdapter('dev.to');
+    engine = new SyndicationEngine(configManager, [reddit, devto]);
+  });
+
+  describe('syndicate', () => {
+    it('should skip platforms where the same tool version was already published', async () => {
+      await engine.syndicate(tool);
+      const result = await engine.syndicate(tool);
+
+      expect(reddit.publish).toHaveBeenCalledTimes(1);
+      expect(devto.publish).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(true);
+      expect(result.summary).toEqual({ total: 2, successful: 0, failed: 0, skipped: 2, pending: 0, scheduled: 0, partial: 0 });
+      expect(result.publications.every(pub => pub.status === PublicationStatus.SKIPPED)).toBe(true);
+    });
+
+    it('should publish a new tool version', async () => {
+      await engine.syndicate(tool);
+      const result = await engine.syndicate({ ...tool, version: '1.1.0' });
+
+      expect(reddit.publish).toHaveBeenCalledTimes(2);
+      expect(result.summary.successful).toBe(2);
+    });
+
+    it('should publish again when forced', async () => {
+      await engine.syndicate(tool);
+      const result = await engine.syndicate(tool, { force: true });
+
+      expect(reddit.publish).toHaveBeenCalledTimes(2);
+      expect(result.summary.skipped).toBe(0);
+    });
+
+    it('should resume a partly published post on retry and let unpublish remove it', async () => {
+      const partial = { success: false, error: 'socket hang up', errorCategory: 'network' as const, postId: 'dev.to-1', metadata: { tweetIds: ['dev.to-1'] } };
+      devto.publish.mockResolvedValueOnce(partial).mockResolvedValueOnce(partial);
+      await engine.syndicate(tool, { platforms: ['dev.to'] });
+
+      await engine.retryFailed(tool.id);
+      expect(devto.publish).toHaveBeenLastCalledWith(tool, expect.anything(), {
+        previousAttempt: expect.objectContaining({ tweetIds: ['dev.to-1'] })
+      });
+
+      devto.deletePost = jest.fn().mockResolvedValue(true);
+      const result = await engine.unpublish(tool.id);
+
+      expect(devto.deletePost).toHaveBeenCalledWith('dev.to-1', expect.objectContaining({ tweetIds: ['dev.to-1'] }));
+      expect(result.summary.deleted).toBe(1);
+    });
+
+    it('should not treat dry runs as published', async () => {
+      await engine.syndicate(tool, { dryRun: true });
+      const result = await engine.syndicate(tool);
+
+      expect(reddit.publish).toHaveBeenCalledTimes(1);
+      expect(result.summary.successful).toBe(2);
+    });
+  });
+
+  describe('syndicateRelease', () => {
+    let changelogDir: string;
+
+    beforeEach(() => {
+      changelogDir = fs.mkdtempSync(path.join(os.tmpdir(), 'syndication-changelog-'));
+      fs.writeFileSync(path.join(changelogDir, 'CHANGELOG.md'), '## [1.1.0] - 2024-05-01\n\n- Watch mode\n\n## [1.0.0] - 2024-01-01\n\n- Initial release');
+    });
+
+    afterEach(() => {
+      fs.rmSync(changelogDir, { recursive: true, force: true });
+    });
+
+    it('should publish the changelog entry as a new version', async () => {
+      const changelogFile = path.join(changelogDir, 'CHANGELOG.md');
+      const result = await engine.syndicateRelease(tool, undefined, { changelogFile });
+
+      expect(result.tool.version).toBe('1.1.0');
+      expect(result.tool.release).toEqual({ version: '1.1.0', date: '2024-05-01', notes: '- Watch mode' });
+      expect(result.publications.every(pub => pub.toolVersion === 'release-1.1.0')).toBe(true);
+      expect(reddit.formatContent).toHaveBeenCalledWith(result.tool, {});
+      await expect(engine.syndicateRelease(tool, '2.0.0', { changelogFile })).rejects.toThrow('Version 2.0.0 not found');
+    });
+
+    it('should announce a release separately from the tool announcement of the same version', async () => {
+      await engine.syndicate({ ...tool, version: '1.1.0' });
+      const result = await engine.syndicateRelease({ ...tool, version: '1.1.0' }, undefined, { baseDir: changelogDir });
+      const again = await engine.syndicateRelease({ ...tool, version: '1.1.0' }, undefined, { baseDir: changelogDir });
+
+      expect(result.success).toBe(true);
+      expect(result.summary.successful).toBe(2);
+      expect(reddit.publish).toHaveBeenCalledTimes(2);
+      expect(again.summary.skipped).toBe(2);
+    });
+  });
+
+  describe('social cards', () => {
+    let cacheDir: string;
+
+    beforeEach(async () => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'syndication-cards-'));
+      await configManager.loadConfig([{
+        type: 'inline',
+        data: { platforms: [createPlatformConfig('reddit')], socialCard: { enabled: true, cacheDir } }
+      }]);
+    });
+
+    afterEach(() => {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should publish with a generated card and snapshot it for retries', async () => {
+      const result = await engine.syndicate(tool, { platforms: ['reddit'] });
+      const card = result.tool.images?.socialCard;
+
+      expect(card?.src).toMatch(new RegExp(`^${cacheDir}.*\\.png$`));
+      expect(fs.existsSync(card!.src)).toBe(true);
+      expect(reddit.formatContent).toHaveBeenCalledWith(result.tool, {});
+    });
+
+    it('should keep generated cards out of the snapshot checksum', async () => {
+      await engine.syndicate(tool, { platforms: ['reddit'] });
+      await configManager.loadConfig([{
+        type: 'inline',
+        data: { platforms: [createPlatformConfig('reddit')], socialCard: { enabled: true, cacheDir, brandColor: '#ff0000' } }
+      }]);
+
+      const result = await engine.syndicate(tool, { platforms: ['reddit'] });
+
+      expect(result.success).toBe(true);
+      expect(result.summary.skipped).toBe(1);
+    });
+  });
+
+  describe('multi-target platforms', () => {
+    beforeEach(() => {
+      reddit.getTargets = () => ['r/webdev', 'r/programming'];
+      reddit.publish.mockImplementation(async (_tool: Tool, _content: FormattedContent, options: PublishOptions = {}) => ({
+        success: true,
+        targets: (options.targets || []).map(target => target === 'r/programming'
+          ? { target, success: false, error: 'SUBREDDIT_NOEXIST', retryable: true }
+          : { target, success: true, postId: 'abc', url: 'https://reddit.com/r/webdev/abc' })
+      }));
+    });
+
+    it('should create one publication per target and report partial success', async () => {
+      const result = await engine.syndicate(tool, { platforms: ['reddit'] });
+
+      expect(result.publications.map(formatPublicationTarget)).toEqual(['reddit:r/webdev', 'reddit:r/programming']);
+      expect(result.summary).toEqual({ total: 2, successful: 1, failed: 1, skipped: 0, pending: 0, scheduled: 0, partial: 1 });
+      expect(result.errors).toEqual(['Failed to syndicate to reddit:r/programming: SUBREDDIT_NOEXIST']);
+    });
+
+    it('should format and publish targets with their own overrides separately', async () => {
+      const overridden = { ...tool, overrides: { 'reddit:r/programming': { title: 'For programmers' } } };
+      await engine.syndicate(overridden, { platforms: ['reddit'] });
+
+      expect(reddit.formatContent).toHaveBeenCalledWith(overridden, {});
+      expect(reddit.formatContent).toHaveBeenCalledWith(overridden, { target: 'r/programming' });
+      expect(reddit.publish).toHaveBeenCalledWith(overridden, expect.anything(), { targets: ['r/webdev'] });
+      expect(reddit.publish).toHaveBeenCalledWith(overridden, expect.anything(), { targets: ['r/programming'] });
+    });
+
+    it('should retry only the failed target', async () => {
+      await engine.syndicate(tool, { platforms: ['reddit'] });
+      const [result] = await engine.retryFailed(tool.id);
+
+      expect(reddit.publish).toHaveBeenLastCalledWith(tool, expect.anything(), { targets: ['r/programming'] });
+      expect(result.summary.skipped).toBe(1);
+      expect(result.publications.find(pub => pub.target === 'r/programming')?.retryCount).toBe(1);
+    });
+  });
+
+  describe('scheduling', () => {
+    let scheduler: Scheduler;
+    let toolRegistry: ToolRegistry;
+
+    beforeEach(() => {
+      scheduler = new Scheduler();
+      toolRegistry = new ToolRegistry();
+      engine = new SyndicationEngine(configManager, [reddit, devto], { scheduler, toolRegistry });
+    });
+
+    it('should queue platforms with a future publish time', async () => {
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+      const result = await engine.syndicate(tool, { publishAt: { 'dev.to': publishAt } });
+
+      expect(reddit.publish).toHaveBeenCalledTimes(1);
+      expect(devto.publish).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.summary.scheduled).toBe(1);
+      expect(result.scheduledJobs[0]).toMatchObject({ platform: 'dev.to', toolVersion: '1.0.0', publishAt });
+    });
+
+    it('should publish due jobs when the worker drains the queue', async () => {
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+      const { scheduledJobs } = await engine.syndicate(tool, { publishAt: { '*': publishAt } });
+      const worker = new SchedulerWorker(engine, scheduler, toolRegistry);
+
+      expect((await worker.drainDueJobs()).processed).toBe(0);
+
+      const summary = await worker.drainDueJobs(new Date(publishAt.getTime() + 1000));
+
+      expect(summary).toEqual({ processed: 2, completed: 2, failed: 0 });
+      expect(devto.publish).toHaveBeenCalledTimes(1);
+      expect(scheduler.getJob(scheduledJobs[0].id)?.status).toBe(ScheduledJobStatus.COMPLETED);
+    });
+
+    it('should publish forced jobs even where the version was already published', async () => {
+      await engine.syndicate(tool, { platforms: ['dev.to'] });
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+      const { scheduledJobs } = await engine.syndicate(tool, { platforms: ['dev.to'], force: true, publishAt: { '*': publishAt } });
+
+      await new SchedulerWorker(engine, scheduler, toolRegistry).drainDueJobs(new Date(publishAt.getTime() + 1000));
+
+      expect(scheduledJobs[0].options).toEqual({ force: true });
+      expect(devto.publish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail jobs whose publish was only queued for a retry', async () => {
+      const publishAt = new Date(Date.now() + 60 * 60 * 1000);
+      const { scheduledJobs } = await engine.syndicate(tool, { publishAt: { 'dev.to': publishAt } });
+      devto.publish.mockResolvedValueOnce({ success: false, error: 'Bad gateway', errorCategory: 'platform_unavailable', retryable: true });
+
+      const summary = await new SchedulerWorker(engine, scheduler, toolRegistry)
+        .drainDueJobs(new Date(publishAt.getTime() + 1000));
+
+      expect(summary).toEqual({ processed: 1, completed: 0, failed: 1 });
+      expect(scheduler.getJob(scheduledJobs[0].id)).toMatchObject({
+        status: ScheduledJobStatus.FAILED,
+        error: 'dev.to: Bad gateway'
+      });
+    });
+  });
+
+  describe('tool versions', () => {
+    it('should refuse to publish changed content under an already registered version', async () => {
+      await engine.syndicate(tool, { platforms: ['reddit'] });
+      const edited = { ...tool, shortDescription: 'A different description' };
+
+      const result = await engine.syndicate(edited, { platforms: ['dev.to'] });
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('test-tool 1.0.0 is already registered with different content');
+      expect(devto.publish).not.toHaveBeenCalled();
+
+      expect((await engine.syndicate(edited, { platforms: ['dev.to'], force: true })).success).toBe(true);
+    });
+
+    it('should not announce an unversioned tool again when its content changes', async () => {
+      const unversioned = { ...tool, version: undefined };
+      await engine.syndicate(unversioned);
+      const result = await engine.syndicate({ ...unversioned, shortDescription: 'Fixed a typo' });
+
+      expect(result.success).toBe(true);
+      expect(result.summary.skipped).toBe(2);
+      expect(reddit.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not register snapshots on dry runs', async () => {
+      await engine.syndicate(tool, { dryRun: true });
+      await engine.updateTool({ ...tool, shortDescription: 'Previewed only' }, { dryRun: true });
+      const result = await engine.syndicate({ ...tool, shortDescription: 'The final description' });
+
+      expect(result.success).toBe(true);
+      expect(result.summary.successful).toBe(2);
+    });
+  });
+
+  describe('updateTool', () => {
+    it('should edit posts on platforms that support it and report the rest', async () => {
+      const updatePost = jest.fn().mockResolvedValue({ success: true, postId: 'dev.to-1' });
+      devto.updatePost = updatePost;
+      await engine.syndicate(tool);
+
+      const updatedTool = { ...tool, version: '1.1.0', shortDescription: 'An improved test tool' };
+      const result = await engine.updateTool(updatedTool);
+
+      expect(updatePost).toHaveBeenCalledWith('dev.to-1', expect.objectContaining({ title: tool.name }));
+      expect(result.summary).toEqual({ total: 2, updated: 1, failed: 0, unsupported: 1 });
+      expect(result.updates.find(update => update.publication.platform === 'reddit')?.status).toBe('unsupported');
+      expect(result.success).toBe(true);
+
+      // The edited post now carries the new version, so syndicating it is a no-op
+      const rerun = await engine.syndicate(updatedTool, { platforms: ['dev.to'] });
+      expect(rerun.summary.skipped).toBe(1);
+    });
+
+    it('should report posts the platform cannot edit as unsupported', async () => {
+      reddit.updatePost = jest.fn();
+      reddit.getUpdateRestriction = () => 'Reddit link posts cannot be edited';
+      await engine.syndicate(tool, { platforms: ['reddit'] });
+
+      const result = await engine.updateTool(tool, { platforms: ['reddit'] });
+
+      expect(reddit.updatePost).not.toHaveBeenCalled();
+      expect(result.summary).toEqual({ total: 1, updated: 0, failed: 0, unsupported: 1 });
+      expect(result.updates[0].error).toBe('Reddit link posts cannot be edited');
+    });
+  });
+
+  describe('unpublish', () => {
+    it('should delete posts, mark them deleted and report platforms without delete support', async () => {
+      const deletePost = jest.fn().mockResolvedValue(true);
+      devto.deletePost = deletePost;
+      await engine.syndicate(tool);
+
+      const result = await engine.unpublish(tool.id);
+
+      expect(deletePost).toHaveBeenCalledWith('dev.to-1', expect.objectContaining({ content: expect.anything() }));
+      expect(result.summary).toEqual({ total: 2, deleted: 1, failed: 0, unsupported: 1 });
+      expect(result.deletions.find(deletion => deletion.status === 'deleted')?.publication.status)
+        .toBe(PublicationStatus.DELETED);
+
+      // Deleted posts no longer count as published
+      await engine.syndicate(tool, { platforms: ['dev.to'] });
+      expect(devto.publish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a delete that throws and still delete the other posts', async () => {
+      reddit.deletePost = jest.fn().mockRejectedValue(new Error('Token revoked'));
+      devto.deletePost = jest.fn().mockResolvedValue(true);
+      await engine.syndicate(tool);
+
+      const result = await engine.unpublish(tool.id);
+
+      expect(result.summary).toEqual({ total: 2, deleted: 1, failed: 1, unsupported: 0 });
+      expect(result.errors).toEqual(['Failed to delete reddit: Token revoked']);
+    });
+  });
+
+  describe('retryFailed', () => {
+    it('should republish the registered snapshot of the failed tool version', async () => {
+      reddit.publish.mockResolvedValueOnce({ success: false, error: 'Server error', retryable: true });
+      await engine.syndicate(tool);
+
+      const [result] = await engine.retryFailed(tool.id);
+
+      expect(result.tool).toEqual(tool);
+      expect(result.summary).toEqual({ total: 1, successful: 1, failed: 0, skipped: 0, pending: 0, scheduled: 0, partial: 0 });
+      expect(result.publications[0].retryCount).toBe(1);
+      expect(devto.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave permanent failures alone unless all failures are retried', async () => {
+      devto.publish.mockResolvedValueOnce({ success: false, error: 'Unauthorized', errorCategory: 'auth' });
+      await engine.syndicate(tool);
+
+      expect(await engine.retryFailed(tool.id)).toEqual([]);
+
+      const [result] = await engine.retryFailed(tool.id, { all: true });
+
+      expect(devto.publish).toHaveBeenCalledTimes(2);
+      expect(result.summary.successful).toBe(1);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should record pauses the platform imposed in the publication metadata', async () => {
+      const wait = { source: 'retry-after' as const, waitMs: 2000, resumeAt: new Date().toISOString() };
+      reddit.takeRateLimitWaits = jest.fn().mockReturnValueOnce([wait]).mockReturnValue([]);
+
+      const result = await engine.syndicate(tool);
+
+      expect(result.publications.find(pub => pub.platform === 'reddit')?.metadata?.rateLimitWaits).toEqual([wait]);
+      expect(result.publications.find(pub => pub.platform === 'dev.to')?.metadata?.rateLimitWaits).toBeUndefined();
+    });
+  });
+
+  describe('retry queue', () => {
+    let store: InMemoryPublicationStore;
+
+    beforeEach(() => {
+      store = new InMemoryPublicationStore();
+      engine = new SyndicationEngine(configManager, [reddit, devto], { publicationStore: store });
+    });
+
+    it('should queue retryable failures and mark permanent ones failed', async () => {
+      reddit.publish.mockResolvedValueOnce({ success: false, error: 'Server error', retryable: true });
+      devto.publish.mockResolvedValueOnce({ success: false, error: 'Unauthorized', retryable: false });
+
+      const before = Date.now();
+      const result = await engine.syndicate(tool);
+
+      const queued = result.publications.find(pub => pub.platform === 'reddit')!;
+      expect(queued.status).toBe(PublicationStatus.RETRYING);
+      expect(queued.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 5 * 60 * 1000);
+      expect(result.publications.find(pub => pub.platform === 'dev.to')?.status).toBe(PublicationStatus.FAILED);
+      expect(result.summary.failed).toBe(2);
+    });
+
+    it('should decide on a retry from the error category and keep it on the publication', async () => {
+      const retryAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+      reddit.publish.mockResolvedValueOnce({
+        success: false, error: 'Too many requests', errorCategory: 'rate_limit', retryable: true, retryAt
+      });
+      devto.publish.mockResolvedValueOnce({ success: false, error: 'Invalid API key', errorCategory: 'auth', retryable: true });
+
+      const result = await engine.syndicate(tool);
+
+      expect(result.publications.find(pub => pub.platform === 'reddit')).toMatchObject({
+        status: PublicationStatus.RETRYING,
+        errorCategory: 'rate_limit',
+        nextAttemptAt: retryAt
+      });
+      expect(result.publications.find(pub => pub.platform === 'dev.to')).toMatchObject({
+        status: PublicationStatus.FAILED,
+        errorCategory: 'auth'
+      });
+    });
+
+    it('should only retry queued publications whose backoff has elapsed', async () => {
+      reddit.publish.mockResolvedValueOnce({ success: false, error: 'Server error', retryable: true });
+      const [queued] = (await engine.syndicate(tool)).publications.filter(pub => pub.platform === 'reddit');
+
+      expect(await engine.retryFailed(undefined, { due: true })).toEqual([]);
+
+      store.save({ ...store.get(queued.id)!, nextAttemptAt: new Date(Date.now() - 1000) });
+      const [result] = await engine.retryFailed(undefined, { due: true });
+
+      expect(reddit.publish).toHaveBeenCalledTimes(2);
+      expect(result.publications.find(pub => pub.id === queued.id)).toMatchObject({
+        status: PublicationStatus.SUCCESS,
+        retryCount: 1,
+        nextAttemptAt: undefined
+      });
+    });
+
+    it('should not schedule the next attempt before an exhausted quota resets', async () => {
+      const resetsAt = new Date(Date.now() + 12 * 60 * 60 * 1000);
+      reddit.getRateLimitQuota = () => [{ window: 'day', limit: 1000, used: 1000, remaining: 0, resetsAt }];
+      reddit.publish.mockResolvedValueOnce({ success: false, error: 'Daily limit reached', retryable: true });
+
+      const result = await engine.syndicate(tool);
+
+      expect(result.publications.find(pub => pub.platform === 'reddit')?.nextAttemptAt).toEqual(resetsAt);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Tool } from '../models';
+import { TemplateEngine, TemplateError, createToolTemplateData } from '../templates';
+
+describe('TemplateEngine', () => {
+  const tool: Tool = {
+    id: 'test-tool',
+    name: 'Test Tool',
+    shortDescription: 'A test tool for developers',
+    longDescription: 'This is a comprehensive test tool designed to help developers with testing their applications.',
+    url: 'https://example.com/test-tool',
+    category: ['testing', 'quality'],
+    targetAudience: ['developers'],
+    tags: ['cli', 'dev tools'],
+    metadata: { stats: { stars: 1200 } }
+  };
+
+  let engine: TemplateEngine;
+  const render = (template: string) => engine.render(template, createToolTemplateData(tool));
+
+  beforeEach(() => {
+    engine = new TemplateEngine();
+  });
+
+  it('should keep existing single-brace placeholders working', () => {
+    expect(render('{name} - {shortDescription} {url} #{tags}'))
+      .toBe('Test Tool - A test tool for developers https://example.com/test-tool #cli, dev tools');
+  });
+
+  it('should apply filters and nested metadata', () => {
+    expect(render('{name | upper} {name | slug} {tags | hashtag} {metadata.stats.stars}'))
+      .toBe('TEST TOOL test-tool #cli #devTools 1200');
+    expect(render('{longDescription | truncate:30}')).toBe('This is a comprehensive...');
+    expect(render('{tags | join:" / "} {version | default:"latest"}')).toBe('cli / dev tools latest');
+  });
+
+  it('should render conditionals and loops', () => {
+    expect(render('{#if githubUrl}Repo: {githubUrl}{else}No repo{/if}')).toBe('No repo');
+    expect(render('{#unless version}Unreleased{/unless}')).toBe('Unreleased');
+    expect(render('{#each categories as category}[{category}]{/each}')).toBe('[testing][quality]');
+    expect(render('{#each tags}{@number}. {this}{#unless @last}, {/unless}{/each}')).toBe('1. cli, 2. dev tools');
+    expect(render('{#each metadata.missing}x{else}none{/each}')).toBe('none');
+  });
+
+  it('should leave braces that are not tags untouched', () => {
+    expect(render('const config = { name: 1 }; {1}')).toBe('const config = { name: 1 }; {1}');
+  });
+
+  it('should report unknown variables and filters with their position', () => {
+    expect(() => render('Hello\n  {nmae}')).toThrow(new TemplateError('Unknown template variable "nmae"', 2, 3));
+    expect(() => render('{metadata.stats.forks}')).toThrow('Unknown template variable "metadata.stats.forks" at line 1, column 1');
+    expect(() => render('{name | shout}')).toThrow('Unknown template filter "shout"');
+  });
+
+  it('should report unbalanced blocks', () => {
+    expect(() => engine.validate('{#if version}v{version}')).toThrow('Unclosed {#if} block at line 1, column 1');
+    expect(() => engine.validate('{#each tags}{this}{/if}')).toThrow('Unexpected {/if}');
+  });
+
+  it('should convert markdown for a target platform', () => {
+    expect(engine.render('{body | markdown:twitter}', { body: 'A **bold** [link](https://example.com)' }))
+      .toBe('A bold link (https://example.com)');
+    expect(() => engine.render('{body | markdown}', { body: '' })).toThrow(TemplateError);
+  });
+
+  it('should support custom filters', () => {
+    engine.registerFilter('reverse', value => String(value).split('').reverse().join(''));
+    expect(render('{name | reverse}')).toBe('looT tseT');
+  });
+});
\ No newline at end of file
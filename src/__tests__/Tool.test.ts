@@ -76,4 +76,34 @@ describe('ToolValidator', () => {
     expect(result.isValid).toBe(false);
     expect(result.errors).toContain('At least one target audience is required');
   });
+
+  it('should accept platform and target overrides', () => {
+    const tool = {
+      ...validTool,
+      overrides: {
+        hackernews: { title: 'Test Tool', postType: 'show' },
+        'reddit:r/programming': { body: 'Custom body', tags: ['testing'], url: 'https://example.com/reddit' }
+      }
+    };
+    expect(ToolValidator.validate(tool).isValid).toBe(true);
+  });
+
+  it('should reject malformed overrides', () => {
+    const tool = {
+      ...validTool,
+      overrides: {
+        'reddit:': { title: '' },
+        twitter: { url: 'not-a-url', tags: 'cli', hashtags: ['cli'] }
+      }
+    } as unknown as Tool;
+    const result = ToolValidator.validate(tool);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Invalid override key "reddit:": use "platform" or "platform:target"',
+      'Override title for reddit: must be a non-empty string',
+      'Unknown override field for twitter: hashtags',
+      'Override tags for twitter must be a list of strings',
+      'Override URL for twitter must be a valid URL'
+    ]);
+  });
 });
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolValidator } from '../models';
+import { ToolGenerator, normalizeRepositoryUrl } from '../content';
+
+describe('ToolGenerator', () => {
+  let projectDir: string;
+
+  const writeProjectFile = (file: string, content: string) => fs.writeFileSync(path.join(projectDir, file), content);
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'syndication-project-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should build a valid tool from package.json and the README', () => {
+    writeProjectFile('package.json', JSON.stringify({
+      name: '@example/my-tool',
+      description: 'Format code in a flash',
+      version: '2.1.0',
+      keywords: ['formatter', 'cli'],
+      license: 'MIT',
+      repository: { type: 'git', url: 'git+https://github.com/example/my-tool.git' }
+    }));
+    writeProjectFile('README.md', [
+      '# my-tool',
+      '[![npm](https://img.shields.io/npm/v/my-tool.svg)](https://npmjs.com/package/my-tool)',
+      '',
+      'My tool formats **everything**.',
+      '',
+      '![Screenshot](docs/screenshot.png)'
+    ].join('\n'));
+
+    const tool = new ToolGenerator(projectDir).generate({ category: ['formatting'] });
+
+    expect(tool).toEqual({
+      id: 'my-tool',
+      name: 'my-tool',
+      shortDescription: 'Format code in a flash',
+      longDescription: 'My tool formats **everything**.\n\n![Screenshot](https://raw.githubusercontent.com/example/my-tool/HEAD/docs/screenshot.png)',
+      url: 'https://github.com/example/my-tool',
+      category: ['formatting'],
+      targetAudience: ['developers'],
+      tags: ['formatter', 'cli'],
+      version: '2.1.0',
+      githubUrl: 'https://github.com/example/my-tool',
+      metadata: { packageName: '@example/my-tool', license: 'MIT' }
+    });
+    expect(ToolValidator.validate(tool).isValid).toBe(true);
+  });
+
+  it('should fall back to the README for a description and use the latest git tag', () => {
+    writeProjectFile('package.json', JSON.stringify({ name: 'tagged-tool', version: '0.0.0-dev', homepage: 'https://tagged.dev' }));
+    writeProjectFile('README.md', '# tagged-tool\n\nA [tagged](https://tagged.dev) release.');
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: projectDir, stdio: 'ignore' });
+    git('init', '-q');
+    git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '--allow-empty', '-m', 'Initial');
+    git('tag', 'v1.4.0');
+
+    const tool = new ToolGenerator(projectDir).generate();
+
+    expect(tool.shortDescription).toBe('A tagged (https://tagged.dev) release.');
+    expect(tool.url).toBe('https://tagged.dev');
+    expect(tool.version).toBe('1.4.0');
+    expect(tool.metadata).toEqual({ packageName: 'tagged-tool', gitTag: 'v1.4.0' });
+    expect(ToolValidator.validate(tool).isValid).toBe(true);
+  });
+
+  it('should require a package.json', () => {
+    expect(() => new ToolGenerator(projectDir).generate()).toThrow('package.json not found');
+  });
+
+  it('should normalize npm repository formats', () => {
+    expect(normalizeRepositoryUrl('example/my-tool')).toBe('https://github.com/example/my-tool');
+    expect(normalizeRepositoryUrl('gitlab:example/my-tool')).toBe('https://gitlab.com/example/my-tool');
+    expect(normalizeRepositoryUrl('git@github.com:example/my-tool.git')).toBe('https://github.com/example/my-tool');
+    expect(normalizeRepositoryUrl({ url: 'git://github.com/example/my-tool.git' })).toBe('https://github.com/example/my-tool');
+    expect(normalizeRepositoryUrl(undefined)).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { Tool } from '../models/Tool';
+import { ToolRegistry, ToolVersionConflictError, UNVERSIONED_TOOL_VERSION, resolveToolVersion } from '../models/ToolRegistry';
+
+describe('ToolRegistry', () => {
+  const tool: Tool = {
+    id: 'test-tool',
+    name: 'Test Tool',
+    shortDescription: 'A test tool for developers',
+    longDescription: 'This is a comprehensive test tool designed to help developers with testing their applications.',
+    url: 'https://example.com/test-tool',
+    category: ['testing'],
+    targetAudience: ['developers'],
+    version: '1.0.0'
+  };
+
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+  });
+
+  it('should return the latest snapshot when no version is given', () => {
+    registry.register(tool);
+    registry.register({ ...tool, version: '1.1.0', shortDescription: 'Updated description' });
+
+    expect(registry.get('test-tool')?.version).toBe('1.1.0');
+    expect(registry.get('test-tool', '1.0.0')?.shortDescription).toBe('A test tool for developers');
+    expect(registry.listVersions('test-tool')).toHaveLength(2);
+  });
+
+  it('should isolate snapshots from later changes to the tool object', () => {
+    const mutable = { ...tool, tags: ['testing'] };
+    registry.register(mutable);
+    mutable.tags.push('mutated');
+
+    expect(registry.get('test-tool', '1.0.0')?.tags).toEqual(['testing']);
+  });
+
+  it('should reject changed content for a registered version unless replacing it', () => {
+    registry.register(tool);
+    registry.register({ ...tool, version: '1.1.0' });
+    const edited = { ...tool, shortDescription: 'Edited description' };
+
+    expect(() => registry.register(edited)).toThrow(ToolVersionConflictError);
+    expect(registry.get('test-tool', '1.0.0')?.shortDescription).toBe('A test tool for developers');
+
+    registry.register(edited, { replace: true });
+    expect(registry.get('test-tool', '1.0.0')?.shortDescription).toBe('Edited description');
+    expect(registry.get('test-tool')?.version).toBe('1.1.0');
+  });
+
+  it('should key unversioned tools by ID and keep their latest content', () => {
+    const unversioned = { ...tool, version: undefined };
+    const edited = { ...unversioned, shortDescription: 'Edited' };
+
+    expect(resolveToolVersion(unversioned)).toBe(UNVERSIONED_TOOL_VERSION);
+    expect(resolveToolVersion(edited)).toBe(resolveToolVersion(unversioned));
+
+    registry.register(unversioned);
+    registry.register(edited);
+    expect(registry.listVersions('test-tool')).toHaveLength(1);
+    expect(registry.get('test-tool')?.shortDescription).toBe('Edited');
+  });
+
+  it('should remove a single version or every version of a tool', () => {
+    registry.register(tool);
+    registry.register({ ...tool, version: '1.1.0' });
+
+    expect(registry.remove('test-tool', '1.0.0')).toBe(1);
+    expect(registry.listVersions('test-tool')).toHaveLength(1);
+    expect(registry.remove('test-tool')).toBe(1);
+    expect(registry.list()).toHaveLength(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { appendHashtags, buildTwitterThread, truncateTweet, twitterTextLength } from '../content';
+import { AxiosInstance } from 'axios';
+import { TwitterAdapter } from '../adapters';
+import { Tool, TwitterConfig } from '../models';
+import { createPlatformRegistry } from '../platforms';
+
+describe('TwitterText', () => {
+  it('should weigh URLs, emoji and CJK the way Twitter does', () => {
+    expect(twitterTextLength('hello')).toBe(5);
+    expect(twitterTextLength('See https://example.com/a/very/long/path/that/keeps/going.')).toBe(4 + 23 + 1);
+    expect(twitterTextLength('🚀')).toBe(2);
+    expect(twitterTextLength('👩‍💻 and 👍🏽')).toBe(2 + 5 + 2);
+    expect(twitterTextLength('日本語')).toBe(6);
+    expect(twitterTextLength('café — “quoted”')).toBe(15);
+  });
+
+  it('should truncate by weighted length at a word boundary', () => {
+    const text = `${'word '.repeat(60)}end`;
+    const truncated = truncateTweet(text);
+
+    expect(truncated.endsWith('word...')).toBe(true);
+    expect(twitterTextLength(truncated)).toBeLessThanOrEqual(280);
+    expect(twitterTextLength(truncateTweet('漢'.repeat(200)))).toBeLessThanOrEqual(280);
+  });
+
+  it('should add only the hashtags that fit, up to the limit', () => {
+    expect(appendHashtags('Hello #cli', ['#cli', '#devtools', '#testing', '#automation'], { maxHashtags: 2 }))
+      .toBe('Hello #cli\n\n#devtools #testing');
+    expect(appendHashtags('x'.repeat(270), ['#short', '#muchtoolonghashtag'])).toBe(`${'x'.repeat(270)}\n\n#short`);
+  });
+
+  it('should split long blocks at sentence boundaries without truncating', () => {
+    const sentence = 'This sentence is exactly long enough to matter when packing tweets together.';
+    const description = Array(8).fill(sentence).join(' ');
+
+    const thread = buildTwitterThread(['Opening tweet', description]);
+
+    expect(thread[0]).toBe('Opening tweet');
+    expect(thread.length).toBeGreaterThan(2);
+    thread.slice(1).forEach(tweet => {
+      expect(twitterTextLength(tweet)).toBeLessThanOrEqual(280);
+      expect(tweet.endsWith('together.')).toBe(true);
+    });
+    expect(thread.slice(1).join(' ')).toBe(description);
+  });
+
+  it('should keep paragraphs and lines together and start every block in a new tweet', () => {
+    expect(buildTwitterThread(['One', 'Added\n\n• Watch mode\n• Dry runs', 'Three'])).toEqual([
+      'One',
+      'Added\n\n• Watch mode\n• Dry runs',
+      'Three'
+    ]);
+  });
+
+  it('should number multi-tweet threads within the length limit', () => {
+    const long = Array(40).fill('Sentence number one is here.').join(' ');
+    const thread = buildTwitterThread(['Intro', long], { numbering: true });
+
+    expect(thread[0]).toBe(`Intro 1/${thread.length}`);
+    expect(thread[thread.length - 1]).toMatch(new RegExp(` ${thread.length}/${thread.length}$`));
+    thread.forEach(tweet => expect(twitterTextLength(tweet)).toBeLessThanOrEqual(280));
+    expect(buildTwitterThread(['Only one'], { numbering: true })).toEqual(['Only one']);
+  });
+
+  it('should build adapter threads from long descriptions', async () => {
+    const [config] = createPlatformRegistry().loadConfigsFromEnv({ TWITTER_ACCESS_TOKEN: 'token' }) as TwitterConfig[];
+    const tool: Tool = {
+      id: 'thread-tool',
+      name: 'Thread Tool',
+      shortDescription: 'Announces tools in well-formed threads',
+      longDescription: Array(12).fill('Every sentence of the long description ends up in the thread.').join(' '),
+      url: 'https://example.com/thread-tool',
+      category: ['testing'],
+      targetAudience: ['developers'],
+      tags: ['one', 'two', 'three', 'four']
+    };
+
+    const adapter = new TwitterAdapter({ ...config, settings: { ...config.settings, numberThreads: true } });
+    const tweets: string[] = (await adapter.formatContent(tool)).metadata?.tweets;
+
+    expect(tweets[0]).toBe(`🚀 Thread Tool: Announces tools in well-formed threads\n\n#one #two #three 1/${tweets.length}`);
+    expect(tweets.some(tweet => tweet.includes('...'))).toBe(false);
+    expect(tweets.find(tweet => tweet.includes('🔗 https://example.com/thread-tool'))).toBeDefined();
+    tweets.forEach(tweet => expect(twitterTextLength(tweet)).toBeLessThanOrEqual(280));
+  });
+
+  it('should record every tweet of a thread and delete them all', async () => {
+    const [config] = createPlatformRegistry().loadConfigsFromEnv({ TWITTER_ACCESS_TOKEN: 'token' }) as TwitterConfig[];
+    const adapter = new TwitterAdapter(config);
+    const client = (adapter as unknown as { client: AxiosInstance }).client;
+    let id = 0;
+    client.post = jest.fn(async () => ({ data: { data: { id: `tweet-${++id}`, text: '' } } })) as unknown as AxiosInstance['post'];
+    const forbidden = Object.assign(new Error('Forbidden'), { response: { status: 403, data: {}, headers: {} } });
+    const deleted = jest.fn()
+      .mockRejectedValueOnce(forbidden)
+      .mockResolvedValue({ data: { data: { deleted: true } } });
+    client.delete = deleted;
+
+    const result = await adapter.publish({ name: 'Thread' } as Tool, {
+      title: 'Thread',
+      body: 'First',
+      metadata: { tweets: ['First', 'Second'] }
+    });
+
+    expect(result).toMatchObject({ success: true, postId: 'tweet-1', metadata: { tweetIds: ['tweet-1', 'tweet-2'] } });
+
+    // A thread only partly removed is reported as a failed delete
+    expect(await adapter.deletePost('tweet-1', result.metadata)).toBe(false);
+    expect(deleted.mock.calls.map(([url]) => url)).toEqual(['/2/tweets/tweet-2', '/2/tweets/tweet-1']);
+    expect(await adapter.deletePost('tweet-1', result.metadata)).toBe(true);
+  });
+
+  it('should report a half-posted thread and resume it on the next attempt', async () => {
+    const [config] = createPlatformRegistry().loadConfigsFromEnv({ TWITTER_ACCESS_TOKEN: 'token' }) as TwitterConfig[];
+    const adapter = new TwitterAdapter(config);
+    const forbidden = Object.assign(new Error('Forbidden'), { response: { status: 403, data: {}, headers: {} } });
+    const post = jest.fn()
+      .mockResolvedValueOnce({ data: { data: { id: 'tweet-1', text: '' } } })
+      .mockRejectedValueOnce(forbidden)
+      .mockResolvedValue({ data: { data: { id: 'tweet-2', text: '' } } });
+    (adapter as unknown as { client: AxiosInstance }).client.post = post;
+    const content = { title: 'Thread', body: 'First', metadata: { tweets: ['First', 'Second'] } };
+
+    const failed = await adapter.publish({ name: 'Thread' } as Tool, content);
+
+    expect(failed).toMatchObject({ success: false, postId: 'tweet-1', metadata: { tweetIds: ['tweet-1'] } });
+
+    const resumed = await adapter.publish({ name: 'Thread' } as Tool, content, { previousAttempt: failed.metadata });
+
+    expect(post).toHaveBeenLastCalledWith('/2/tweets', { text: 'Second', reply: { in_reply_to_tweet_id: 'tweet-1' } });
+    expect(resumed).toMatchObject({ success: true, postId: 'tweet-1', metadata: { tweetIds: ['tweet-1', 'tweet-2'] } });
+  });
+});
\ No newline at end of file
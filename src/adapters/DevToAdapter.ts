@@ -1,7 +1,11 @@
 import axios, { AxiosInstance } from 'axios';
-import { BasePlatformAdapter, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
-import { Tool, DevToConfig } from '../models';
+import { BasePlatformAdapter, FormatOptions, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
+import { Tool, ToolImage, DevToConfig } from '../models';
 import { Logger } from '../utils';
+import { convertMarkdown, resolveRepositoryFileUrl } from '../content';
+import { MediaError, MediaLimits, guessImageFormat, isRemoteImage, loadValidatedMedia } from '../media';
+import { DuplicateContentError, PlatformError } from '../errors';
+import { errorStatus } from './ErrorClassification';
 
 interface DevToArticle {
   id: number;
@@ -27,6 +31,7 @@ interface DevToCreateArticleRequest {
     description?: string;
     organization_id?: number;
     series?: string;
+    main_image?: string;
   };
 }
 
@@ -35,6 +40,12 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
   private client: AxiosInstance;
   private logger: Logger;
 
+  static readonly MEDIA_LIMITS: MediaLimits = {
+    formats: ['png', 'jpeg', 'gif', 'webp'],
+    maxBytes: 10 * 1024 * 1024,
+    maxCount: 1
+  };
+
   constructor(config: DevToConfig) {
     super(config);
     this.logger = new Logger('DevToAdapter');
@@ -80,31 +91,35 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
     }
   }
 
-  async formatContent(tool: Tool): Promise<FormattedContent> {
+  async formatContent(baseTool: Tool, options: FormatOptions = {}): Promise<FormattedContent> {
+    const { tool, override } = this.applyContentOverride(baseTool, options);
     const devToConfig = this.config as DevToConfig;
     const settings = devToConfig.settings;
 
     // Use custom title template or default format
-    const title = settings.titleTemplate 
-      ? this.replaceTemplateVariables(settings.titleTemplate, tool)
-      : `${tool.name}: ${tool.shortDescription}`;
+    const title = this.formatTitle(tool, () => this.defaultTitle(tool), override);
 
     // Create markdown content for Dev.to
-    const body = this.createMarkdownBody(tool);
+    const body = this.formatBody(tool, () => this.createMarkdownBody(tool), override);
 
     // Merge tool tags with configured tags
     const tags = this.mergeTags(tool.tags || [], settings.tags);
 
+    // Logos make poor cover images, so only the social card or a screenshot is used
+    const cover = tool.images?.socialCard || tool.images?.screenshots?.[0];
+
     return {
       title: this.sanitizeTitle(title),
       body,
       tags,
+      ...(cover && { images: [cover] }),
       metadata: {
         published: settings.published,
         canonicalUrl: settings.canonicalUrl || tool.url,
         organizationId: settings.organizationId,
         series: settings.series,
-        description: tool.shortDescription
+        description: tool.shortDescription,
+        repositoryUrl: tool.githubUrl
       }
     };
   }
@@ -114,6 +129,7 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
       this.logger.debug(`Publishing ${tool.name} to Dev.to`);
 
       const devToConfig = this.config as DevToConfig;
+      const mainImage = content.images?.[0] ? await this.resolveCoverImage(content.images[0], content.metadata?.repositoryUrl) : undefined;
       const articleData: DevToCreateArticleRequest = {
         article: {
           title: content.title,
@@ -123,7 +139,8 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
           description: content.metadata?.description,
           canonical_url: content.metadata?.canonicalUrl,
           organization_id: content.metadata?.organizationId,
-          series: content.metadata?.series
+          series: content.metadata?.series,
+          ...(mainImage && { main_image: mainImage })
         }
       };
 
@@ -141,19 +158,35 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
         url: article.url
       };
     } catch (error) {
-      const errorMessage = this.extractErrorMessage(error);
       this.logger.error('Failed to publish to Dev.to:', error);
-      
-      return {
-        success: false,
-        error: errorMessage,
-        retryable: this.isRetryableError(error)
-      };
+      return this.failure(error);
+    }
+  }
+
+  // Dev.to only takes cover images by URL, so local files must be committed to the tool's GitHub repository
+  private async resolveCoverImage(image: ToolImage, repositoryUrl?: string): Promise<string | undefined> {
+    if (isRemoteImage(image)) {
+      const format = guessImageFormat(image.src);
+      if (format && !DevToAdapter.MEDIA_LIMITS.formats.includes(format)) {
+        throw new MediaError(`Dev.to does not accept ${format} cover images`);
+      }
+      return image.src;
+    }
+
+    await loadValidatedMedia([image], DevToAdapter.MEDIA_LIMITS, this.platform);
+
+    const url = repositoryUrl ? resolveRepositoryFileUrl(image.src, repositoryUrl) : undefined;
+    if (!url) {
+      this.logger.warn(`Skipping Dev.to cover image ${image.src}: local images need a githubUrl and a git checkout to get a public URL`);
     }
+
+    return url;
   }
 
   private createMarkdownBody(tool: Tool): string {
-    let body = `${tool.longDescription}\n\n`;
+    let body = tool.release
+      ? `${tool.shortDescription}\n\n## What's New in ${tool.release.version}\n\n${convertMarkdown(tool.release.notes, 'devto')}\n\n`
+      : `${convertMarkdown(tool.longDescription, 'devto')}\n\n`;
 
     // Add key information section
     body += `## 🔗 Key Information\n\n`;
@@ -171,6 +204,10 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
       body += `- **Version:** ${tool.version}\n`;
     }
 
+    if (tool.release?.url) {
+      body += `- **Release Notes:** [${tool.release.version}](${tool.release.url})\n`;
+    }
+
     body += `\n`;
 
     // Add categories section
@@ -242,7 +279,18 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
     return sanitized;
   }
 
-  private extractErrorMessage(error: unknown): string {
+  // Dev.to refuses a second article with the same canonical URL as "has already been taken"
+  protected toPlatformError(error: unknown): PlatformError {
+    const message = this.describeError(error);
+
+    if (errorStatus(error) === 422 && /already been taken/i.test(message)) {
+      return new DuplicateContentError(message, { platform: this.platform, status: 422, cause: error });
+    }
+
+    return super.toPlatformError(error);
+  }
+
+  protected describeError(error: unknown): string {
     const errorObj = error as { response?: { data?: unknown }; message?: string };
     
     if (errorObj.response?.data) {
@@ -291,6 +339,7 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
   async updatePost(postId: string, content: FormattedContent): Promise<PublicationResult> {
     try {
       const devToConfig = this.config as DevToConfig;
+      const mainImage = content.images?.[0] ? await this.resolveCoverImage(content.images[0], content.metadata?.repositoryUrl) : undefined;
       const articleData: DevToCreateArticleRequest = {
         article: {
           title: content.title,
@@ -300,7 +349,8 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
           description: content.metadata?.description,
           canonical_url: content.metadata?.canonicalUrl,
           organization_id: content.metadata?.organizationId,
-          series: content.metadata?.series
+          series: content.metadata?.series,
+          ...(mainImage && { main_image: mainImage })
         }
       };
 
@@ -318,14 +368,8 @@ export class DevToAdapter extends BasePlatformAdapter implements PlatformAdapter
         url: article.url
       };
     } catch (error) {
-      const errorMessage = this.extractErrorMessage(error);
       this.logger.error(`Failed to update Dev.to article ${postId}:`, error);
-      
-      return {
-        success: false,
-        error: errorMessage,
-        retryable: this.isRetryableError(error)
-      };
+      return this.failure(error);
     }
   }
 
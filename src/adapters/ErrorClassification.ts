@@ -0,0 +1,71 @@
+import {
+  AuthError,
+  ContentRejectedError,
+  DuplicateContentError,
+  NetworkError,
+  PlatformError,
+  PlatformUnavailableError,
+  RateLimitError
+} from '../errors';
+import { parseRateLimitHeaders } from '../ratelimit';
+
+// Leaves out ECONNABORTED, axios' response timeout: the platform may have created the post anyway,
+// so retrying it could publish twice
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+interface HttpErrorShape {
+  response?: { status?: number; headers?: Record<string, unknown> };
+  code?: string;
+}
+
+// Sorts HTTP statuses and network error codes into the error taxonomy. Signals only one platform sends,
+// such as Reddit's ALREADY_SUB, are recognized by the adapters before falling back to this.
+export function classifyError(error: unknown, platform?: string, message?: string): PlatformError {
+  if (error instanceof PlatformError) {
+    return error;
+  }
+
+  const errorObj = (error ?? {}) as HttpErrorShape;
+  const text = message || (error instanceof Error ? error.message : String(error));
+  const status = errorObj.response?.status;
+  const options = { platform, status, cause: error };
+
+  if (status !== undefined) {
+    // GitHub answers an exhausted rate limit with 403 rather than 429
+    const limits = parseRateLimitHeaders(errorObj.response?.headers);
+    if (status === 429 || (status === 403 && limits.remaining !== undefined && limits.remaining < 1)) {
+      const retryAt = limits.retryAfterMs !== undefined ? new Date(Date.now() + limits.retryAfterMs) : limits.resetAt;
+      return new RateLimitError(text, { ...options, retryAt });
+    }
+
+    if (status === 401 || status === 403) {
+      return new AuthError(text, options);
+    }
+
+    if (status === 409) {
+      return new DuplicateContentError(text, options);
+    }
+
+    if (status === 408) {
+      return new NetworkError(text, options);
+    }
+
+    if (status >= 500) {
+      return new PlatformUnavailableError(text, options);
+    }
+
+    if (status >= 400) {
+      return new ContentRejectedError(text, options);
+    }
+  }
+
+  if (errorObj.code && NETWORK_ERROR_CODES.includes(errorObj.code)) {
+    return new NetworkError(text, options);
+  }
+
+  return new PlatformError(text, options);
+}
+
+export function errorStatus(error: unknown): number | undefined {
+  return (error as HttpErrorShape | undefined)?.response?.status;
+}
\ No newline at end of file
@@ -1,10 +1,25 @@
 import axios, { AxiosInstance } from 'axios';
-import { BasePlatformAdapter, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
+import {
+  BasePlatformAdapter,
+  FormatOptions,
+  FormattedContent,
+  PlatformAdapter,
+  PublicationResult,
+  PublishOptions,
+  TargetPublicationResult
+} from './PlatformAdapter';
 import { Tool, GitHubConfig } from '../models';
 import { Logger } from '../utils';
+import { convertMarkdown } from '../content';
+import { AuthError, ContentRejectedError, PlatformError, RateLimitError } from '../errors';
 
 // Removed unused interfaces to fix linting errors
 
+interface GitHubGraphQLError {
+  type?: string;
+  message: string;
+}
+
 interface GitHubDiscussionCategory {
   id: string;
   name: string;
@@ -73,17 +88,16 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
     }
   }
 
-  async formatContent(tool: Tool): Promise<FormattedContent> {
+  async formatContent(baseTool: Tool, options: FormatOptions = {}): Promise<FormattedContent> {
+    const { tool, override } = this.applyContentOverride(baseTool, options);
     const githubConfig = this.config as GitHubConfig;
     const settings = githubConfig.settings;
 
     // Use custom title template or default format
-    const title = settings.titleTemplate 
-      ? this.replaceTemplateVariables(settings.titleTemplate, tool)
-      : `${tool.name}: ${tool.shortDescription}`;
+    const title = this.formatTitle(tool, () => this.defaultTitle(tool), override);
 
     // Create markdown content for GitHub Discussion
-    const body = this.createMarkdownBody(tool);
+    const body = this.formatBody(tool, () => this.createMarkdownBody(tool), override);
 
     return {
       title,
@@ -96,15 +110,22 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
     };
   }
 
-  async publish(tool: Tool, content: FormattedContent): Promise<PublicationResult> {
+  getTargets(): string[] {
+    const githubConfig = this.config as GitHubConfig;
+    return [...githubConfig.settings.repositories];
+  }
+
+  async publish(tool: Tool, content: FormattedContent, options: PublishOptions = {}): Promise<PublicationResult> {
     try {
       const githubConfig = this.config as GitHubConfig;
-      const results: PublicationResult[] = [];
+      const repositories = githubConfig.settings.repositories
+        .filter(repository => !options.targets || options.targets.includes(repository));
+      const results: TargetPublicationResult[] = [];
 
-      for (const repository of githubConfig.settings.repositories) {
+      for (const repository of repositories) {
         try {
           const result = await this.createDiscussion(repository, content);
-          results.push(result);
+          results.push({ ...result, target: repository });
           
           if (result.success) {
             this.logger.info(`Successfully created discussion in ${repository}: ${result.url}`);
@@ -113,41 +134,19 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
           }
 
           // Add delay between repository posts to respect rate limits
-          if (githubConfig.settings.repositories.length > 1) {
+          if (repositories.length > 1) {
             await this.sleep(1000); // 1 second delay
           }
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
           this.logger.error(`Error creating discussion in ${repository}:`, error);
-          results.push({
-            success: false,
-            error: errorMessage,
-            retryable: this.isRetryableError(error)
-          });
+          results.push({ target: repository, ...this.failure(error) });
         }
       }
 
-      // Return the first successful result or the last error
-      const successfulResult = results.find(r => r.success);
-      if (successfulResult) {
-        return successfulResult;
-      }
-
-      const lastResult = results[results.length - 1];
-      return {
-        success: false,
-        error: lastResult?.error || 'Failed to create discussion in any repository',
-        retryable: results.some(r => r.retryable)
-      };
+      return this.summarizeTargetResults(results, 'Failed to create discussion in any repository');
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error('Failed to publish to GitHub:', error);
-      
-      return {
-        success: false,
-        error: errorMessage,
-        retryable: this.isRetryableError(error)
-      };
+      return this.failure(error);
     }
   }
 
@@ -158,7 +157,7 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
     // First, get repository information and discussion categories
     const [owner, repo] = repository.split('/');
     if (!owner || !repo) {
-      throw new Error(`Invalid repository format: ${repository}. Expected format: owner/repo`);
+      throw new ContentRejectedError(`Invalid repository format: ${repository}. Expected format: owner/repo`, { platform: this.platform });
     }
 
     // Get repository ID and discussion category
@@ -199,7 +198,7 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
     });
 
     if (response.data.errors) {
-      throw new Error(`GraphQL errors: ${JSON.stringify(response.data.errors)}`);
+      throw this.graphqlError('GraphQL errors', response.data.errors);
     }
 
     const discussion = response.data.data.createDiscussion.discussion;
@@ -228,16 +227,16 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
     });
 
     if (response.data.errors) {
-      throw new Error(`Failed to get repository info: ${JSON.stringify(response.data.errors)}`);
+      throw this.graphqlError('Failed to get repository info', response.data.errors);
     }
 
     const repository = response.data.data.repository;
     if (!repository) {
-      throw new Error(`Repository ${owner}/${repo} not found`);
+      throw new ContentRejectedError(`Repository ${owner}/${repo} not found`, { platform: this.platform });
     }
 
     if (!repository.hasDiscussionsEnabled) {
-      throw new Error(`Discussions are not enabled for repository ${owner}/${repo}`);
+      throw new ContentRejectedError(`Discussions are not enabled for repository ${owner}/${repo}`, { platform: this.platform });
     }
 
     return {
@@ -270,7 +269,7 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
     });
 
     if (response.data.errors) {
-      throw new Error(`Failed to get discussion categories: ${JSON.stringify(response.data.errors)}`);
+      throw this.graphqlError('Failed to get discussion categories', response.data.errors);
     }
 
     const categories = response.data.data.node.discussionCategories.nodes;
@@ -284,14 +283,16 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
         this.logger.warn(`Category '${categoryName}' not found, using '${categories[0].name}' instead`);
         return categories[0].id;
       }
-      throw new Error(`No discussion categories found and '${categoryName}' does not exist`);
+      throw new ContentRejectedError(`No discussion categories found and '${categoryName}' does not exist`, { platform: this.platform });
     }
 
     return category.id;
   }
 
   private createMarkdownBody(tool: Tool): string {
-    let body = `${tool.longDescription}\n\n`;
+    let body = tool.release
+      ? `${tool.shortDescription}\n\n## What's New in ${tool.release.version}\n\n${convertMarkdown(tool.release.notes, 'github')}\n\n`
+      : `${convertMarkdown(tool.longDescription, 'github')}\n\n`;
 
     // Add key information section
     body += `## 🔗 Key Information\n\n`;
@@ -309,6 +310,10 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
       body += `- **Version:** ${tool.version}\n`;
     }
 
+    if (tool.release?.url) {
+      body += `- **Release Notes:** [${tool.release.version}](${tool.release.url})\n`;
+    }
+
     body += `\n`;
 
     // Add categories section
@@ -366,12 +371,17 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
         }
       `;
 
-      await this.retryWithExponentialBackoff(async () => {
+      const response = await this.retryWithExponentialBackoff(async () => {
         return await this.graphqlClient.post('', {
           query: mutation,
           variables: { id: postId }
         });
       });
+
+      // Missing discussions and permission errors still come back with a 200 status
+      if (response.data.errors) {
+        throw this.graphqlError('Failed to delete discussion', response.data.errors);
+      }
       
       this.logger.info(`Successfully deleted GitHub discussion: ${postId}`);
       return true;
@@ -381,6 +391,76 @@ export class GitHubAdapter extends BasePlatformAdapter implements PlatformAdapte
     }
   }
 
+  async updatePost(postId: string, content: FormattedContent): Promise<PublicationResult> {
+    try {
+      const discussion = await this.updateDiscussion(postId, content);
+
+      this.logger.info(`Successfully updated GitHub discussion: ${discussion.url}`);
+
+      return {
+        success: true,
+        postId: discussion.id,
+        url: discussion.url
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update GitHub discussion ${postId}:`, error);
+      return this.failure(error);
+    }
+  }
+
+  private async updateDiscussion(
+    discussionId: string,
+    content: FormattedContent
+  ): Promise<{ id: string; url: string }> {
+    const mutation = `
+      mutation UpdateDiscussion($discussionId: ID!, $title: String!, $body: String!) {
+        updateDiscussion(input: {
+          discussionId: $discussionId,
+          title: $title,
+          body: $body
+        }) {
+          discussion {
+            id
+            url
+          }
+        }
+      }
+    `;
+
+    const response = await this.retryWithExponentialBackoff(async () => {
+      return await this.graphqlClient.post('', {
+        query: mutation,
+        variables: {
+          discussionId,
+          title: content.title,
+          body: content.body
+        }
+      });
+    });
+
+    if (response.data.errors) {
+      throw this.graphqlError('GraphQL errors', response.data.errors);
+    }
+
+    return response.data.data.updateDiscussion.discussion;
+  }
+
+  // GraphQL failures come back with a 200 status, so the category is read from the error types
+  private graphqlError(context: string, errors: GitHubGraphQLError[]): PlatformError {
+    const message = `${context}: ${JSON.stringify(errors)}`;
+    const types = errors.map(error => error.type);
+
+    if (types.includes('RATE_LIMITED')) {
+      return new RateLimitError(message, { platform: this.platform });
+    }
+
+    if (types.includes('FORBIDDEN') || types.includes('INSUFFICIENT_SCOPES')) {
+      return new AuthError(message, { platform: this.platform });
+    }
+
+    return new ContentRejectedError(message, { platform: this.platform });
+  }
+
   async validateConfig(): Promise<{ isValid: boolean; errors: string[] }> {
     const baseValidation = await super.validateConfig();
     if (!baseValidation.isValid) {
@@ -1,7 +1,10 @@
 import axios, { AxiosInstance } from 'axios';
-import { BasePlatformAdapter, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
+import { BasePlatformAdapter, FormatOptions, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
 import { Tool, HackerNewsConfig } from '../models';
 import { Logger } from '../utils';
+import { convertMarkdown } from '../content';
+import { AuthError, DuplicateContentError, PlatformError, RateLimitError } from '../errors';
+import { errorStatus } from './ErrorClassification';
 
 // Removed unused interfaces to fix linting errors
 
@@ -65,19 +68,25 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
     }
   }
 
-  async formatContent(tool: Tool): Promise<FormattedContent> {
+  async formatContent(baseTool: Tool, options: FormatOptions = {}): Promise<FormattedContent> {
+    const { tool, override } = this.applyContentOverride(baseTool, options);
     const hnConfig = this.config as HackerNewsConfig;
-    const settings = hnConfig.settings;
+    const postType = (override.postType || hnConfig.settings.postType) as HackerNewsConfig['settings']['postType'];
+    const settings = { ...hnConfig.settings, postType };
+
+    if (!['story', 'ask', 'show'].includes(postType)) {
+      throw new Error(`Invalid Hacker News post type override: ${postType}`);
+    }
 
     // Use custom title template or default format
-    let title = settings.titleTemplate 
-      ? this.replaceTemplateVariables(settings.titleTemplate, tool)
-      : this.createDefaultTitle(tool, settings.postType);
+    let title = this.formatTitle(tool, () => this.createDefaultTitle(tool, settings.postType), override);
 
     title = this.sanitizeTitle(title);
 
     // Create appropriate content based on post type
-    const body = this.createHackerNewsContent(tool, settings);
+    const body = settings.postType === 'story'
+      ? ''
+      : this.formatBody(tool, () => this.createHackerNewsContent(tool, settings), override);
 
     return {
       title,
@@ -105,7 +114,8 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
       const fnopMatch = submitPage.match(/name="fnop" value="([^"]+)"/);
       
       if (!fnidMatch || !fnopMatch) {
-        throw new Error('Could not extract CSRF tokens from submit form');
+        // HN serves the login form instead when the session is not logged in
+        throw new AuthError('Could not extract CSRF tokens from submit form', { platform: this.platform });
       }
 
       const submitData = new URLSearchParams({
@@ -145,7 +155,7 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
       if (!postId) {
         // Check if submission was rejected
         if (response.data.includes('duplicate') || response.data.includes('already submitted')) {
-          throw new Error('This URL has already been submitted to HackerNews');
+          throw new DuplicateContentError('This URL has already been submitted to HackerNews', { platform: this.platform });
         }
         throw new Error('Could not determine submission status from HackerNews response');
       }
@@ -158,18 +168,16 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
         url: postUrl
       };
     } catch (error) {
-      const errorMessage = this.extractErrorMessage(error);
       this.logger.error('Failed to publish to HackerNews:', error);
-      
-      return {
-        success: false,
-        error: errorMessage,
-        retryable: this.isRetryableError(error)
-      };
+      return this.failure(error);
     }
   }
 
   private createDefaultTitle(tool: Tool, postType: string): string {
+    if (tool.release && postType !== 'ask') {
+      return postType === 'show' ? `Show HN: ${this.defaultTitle(tool, ' - ')}` : this.defaultTitle(tool);
+    }
+
     switch (postType) {
       case 'ask':
         return `Ask HN: Has anyone used ${tool.name}?`;
@@ -189,14 +197,16 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
 
     let content = '';
 
-    if (settings.postType === 'ask') {
+    if (tool.release) {
+      content = `${tool.name} ${tool.release.version} is out. What's new:\n\n${convertMarkdown(tool.release.notes, 'hackernews')}\n\n`;
+    } else if (settings.postType === 'ask') {
       content = `I came across ${tool.name} and wanted to get the community's thoughts.\n\n`;
     } else if (settings.postType === 'show') {
       content = `I'd like to share ${tool.name} with the HN community.\n\n`;
     }
 
-    if (settings.includeDescription && tool.longDescription) {
-      content += `${tool.longDescription}\n\n`;
+    if (settings.includeDescription && tool.longDescription && !tool.release) {
+      content += `${convertMarkdown(tool.longDescription, 'hackernews')}\n\n`;
     }
 
     // Add key information
@@ -242,7 +252,7 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
     return sanitized.trim();
   }
 
-  private extractErrorMessage(error: any): string {
+  protected describeError(error: any): string {
     if (error.response?.data) {
       const data = error.response.data;
       
@@ -274,11 +284,6 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
     return `https://news.ycombinator.com/item?id=${postId}`;
   }
 
-  async deletePost(_postId: string): Promise<boolean> {
-    this.logger.warn('HackerNews does not support post deletion via API');
-    return false;
-  }
-
   async validateConfig(): Promise<{ isValid: boolean; errors: string[] }> {
     const baseValidation = await super.validateConfig();
     if (!baseValidation.isValid) {
@@ -310,20 +315,24 @@ export class HackerNewsAdapter extends BasePlatformAdapter implements PlatformAd
     };
   }
 
-  protected isRetryableError(error: any): boolean {
-    // Override to handle HackerNews-specific non-retryable errors
-    if (error.response?.data) {
-      const data = error.response.data;
-      if (typeof data === 'string') {
-        // Don't retry on these errors
-        if (data.includes('duplicate') || 
-            data.includes('banned') || 
-            data.includes('Bad login')) {
-          return false;
-        }
+  // HN answers most rejections with a 200 page of text, so the category comes from the message
+  protected toPlatformError(error: unknown): PlatformError {
+    const data = (error as { response?: { data?: unknown } } | undefined)?.response?.data;
+    if (typeof data === 'string') {
+      const message = this.describeError(error);
+      const options = { platform: this.platform, status: errorStatus(error), cause: error };
+
+      if (data.includes('duplicate')) {
+        return new DuplicateContentError(message, options);
+      }
+      if (data.includes('Bad login') || data.includes('banned')) {
+        return new AuthError(message, options);
+      }
+      if (data.includes('Too fast')) {
+        return new RateLimitError(message, options);
       }
     }
 
-    return super.isRetryableError(error);
+    return super.toPlatformError(error);
   }
 }
\ No newline at end of file
@@ -1,7 +1,11 @@
 import axios, { AxiosInstance } from 'axios';
-import { BasePlatformAdapter, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
-import { Tool, LinkedInConfig } from '../models';
+import { BasePlatformAdapter, FormatOptions, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
+import { Tool, ToolImage, LinkedInConfig } from '../models';
 import { Logger } from '../utils';
+import { convertMarkdown } from '../content';
+import { MediaLimits, getPrimaryImage, loadValidatedMedia } from '../media';
+import { DuplicateContentError, PlatformError } from '../errors';
+import { errorStatus } from './ErrorClassification';
 
 interface LinkedInPost {
   id: string;
@@ -44,11 +48,28 @@ interface LinkedInCreatePostRequest {
   };
 }
 
+interface LinkedInRegisterUploadResponse {
+  value: {
+    asset: string;
+    uploadMechanism: {
+      'com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest': {
+        uploadUrl: string;
+      };
+    };
+  };
+}
+
 export class LinkedInAdapter extends BasePlatformAdapter implements PlatformAdapter {
   readonly platform = 'linkedin';
   private client: AxiosInstance;
   private logger: Logger;
 
+  static readonly MEDIA_LIMITS: MediaLimits = {
+    formats: ['png', 'jpeg', 'gif'],
+    maxBytes: 5 * 1024 * 1024,
+    maxCount: 1
+  };
+
   constructor(config: LinkedInConfig) {
     super(config);
     this.logger = new Logger('LinkedInAdapter');
@@ -94,22 +115,25 @@ export class LinkedInAdapter extends BasePlatformAdapter implements PlatformAdap
     }
   }
 
-  async formatContent(tool: Tool): Promise<FormattedContent> {
+  async formatContent(baseTool: Tool, options: FormatOptions = {}): Promise<FormattedContent> {
+    const { tool, override } = this.applyContentOverride(baseTool, options);
     const linkedInConfig = this.config as LinkedInConfig;
     const settings = linkedInConfig.settings;
 
     // Use custom title template or default format
-    const title = settings.titleTemplate 
-      ? this.replaceTemplateVariables(settings.titleTemplate, tool)
-      : `${tool.name}: ${tool.shortDescription}`;
+    const title = this.formatTitle(tool, () => this.defaultTitle(tool), override);
 
     // Create LinkedIn post content
-    const body = this.createLinkedInPost(tool);
+    const body = this.truncatePost(this.formatBody(tool, () => this.createLinkedInPost(tool), override));
+
+    // With includeImage the post becomes an image share instead of a link preview
+    const image = settings.includeImage ? getPrimaryImage(tool.images) : undefined;
 
     return {
       title: this.sanitizeTitle(title),
       body,
       url: tool.url,
+      ...(image && { images: [image] }),
       metadata: {
         profileType: settings.profileType,
         companyId: settings.companyId,
@@ -131,6 +155,10 @@ export class LinkedInAdapter extends BasePlatformAdapter implements PlatformAdap
         ? `urn:li:organization:${settings.companyId}`
         : await this.getCurrentUserUrn();
 
+      const image = content.images?.[0];
+      const imageAsset = image ? await this.uploadImage(authorUrn, image) : undefined;
+      const media = imageAsset || content.url;
+
       const postData: LinkedInCreatePostRequest = {
         author: authorUrn,
         lifecycleState: 'PUBLISHED',
@@ -139,14 +167,14 @@ export class LinkedInAdapter extends BasePlatformAdapter implements PlatformAdap
             shareCommentary: {
               text: content.body
             },
-            shareMediaCategory: content.url ? 'ARTICLE' : 'NONE',
-            ...(content.url && {
+            shareMediaCategory: imageAsset ? 'IMAGE' : content.url ? 'ARTICLE' : 'NONE',
+            ...(media && {
               media: [{
                 status: 'READY',
                 description: {
-                  text: content.metadata?.description || tool.shortDescription
+                  text: image?.alt || content.metadata?.description || tool.shortDescription
                 },
-                media: content.url,
+                media,
                 title: {
                   text: content.title
                 }
@@ -174,17 +202,41 @@ export class LinkedInAdapter extends BasePlatformAdapter implements PlatformAdap
         url: postUrl
       };
     } catch (error) {
-      const errorMessage = this.extractErrorMessage(error);
       this.logger.error('Failed to publish to LinkedIn:', error);
-      
-      return {
-        success: false,
-        error: errorMessage,
-        retryable: this.isRetryableError(error)
-      };
+      return this.failure(error);
     }
   }
 
+  private async uploadImage(authorUrn: string, image: ToolImage): Promise<string> {
+    const [file] = await loadValidatedMedia([image], LinkedInAdapter.MEDIA_LIMITS, this.platform);
+
+    // Images are registered as assets first, then the bytes go to the returned upload URL
+    const registration = await this.retryWithExponentialBackoff(async () => {
+      return await this.client.post('/v2/assets?action=registerUpload', {
+        registerUploadRequest: {
+          recipes: ['urn:li:digitalmediaRecipe:feedshare-image'],
+          owner: authorUrn,
+          serviceRelationships: [{
+            relationshipType: 'OWNER',
+            identifier: 'urn:li:userGeneratedContent'
+          }]
+        }
+      });
+    });
+
+    const { value }: LinkedInRegisterUploadResponse = registration.data;
+    const uploadUrl = value.uploadMechanism['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest'].uploadUrl;
+
+    await this.retryWithExponentialBackoff(async () => {
+      return await this.client.put(uploadUrl, file.data, {
+        headers: { 'Content-Type': file.mimeType }
+      });
+    });
+
+    this.logger.debug(`Uploaded ${file.filename} to LinkedIn: ${value.asset}`);
+    return value.asset;
+  }
+
   private async getCurrentUserUrn(): Promise<string> {
     try {
       const response = await this.client.get('/v2/people/~');
@@ -196,11 +248,15 @@ export class LinkedInAdapter extends BasePlatformAdapter implements PlatformAdap
   }
 
   private createLinkedInPost(tool: Tool): string {
-    let post = `🚀 ${tool.name}: ${tool.shortDescription}\n\n`;
+    let post = tool.release
+      ? `🚀 ${tool.name} ${tool.release.version} is out! ${tool.shortDescription}\n\n`
+      : `🚀 ${tool.name}: ${tool.shortDescription}\n\n`;
     
-    // Add description
-    if (tool.longDescription) {
-      post += `${tool.longDescription}\n\n`;
+    // Add description, or what changed when announcing a release
+    if (tool.release) {
+      post += `What's new:\n\n${convertMarkdown(tool.release.notes, 'linkedin')}\n\n`;
+    } else if (tool.longDescription) {
+      post += `${convertMarkdown(tool.longDescription, 'linkedin')}\n\n`;
     }
 
     // Add key features or categories
@@ -266,7 +322,18 @@ export class LinkedInAdapter extends BasePlatformAdapter implements PlatformAdap
     return `https://www.linkedin.com/feed/update/${postId}`;
   }
 
-  private extractErrorMessage(error: any): string {
+  // LinkedIn rejects a repeated post body with 422 and a DUPLICATE_POST message
+  protected toPlatformError(error: unknown): PlatformError {
+    const message = this.describeError(error);
+
+    if (errorStatus(error) === 422 && /duplicate/i.test(message)) {
+      return new DuplicateContentError(message, { platform: this.platform, status: 422, cause: error });
+    }
+
+    return super.toPlatformError(error);
+  }
+
+  protected describeError(error: any): string {
     if (error.response?.data) {
       const data = error.response.data;
       
@@ -1,4 +1,17 @@
-import { Tool, PlatformConfig } from '../models';
+import { Tool, ToolImage, PlatformConfig, ContentOverride, Publication, resolveContentOverride } from '../models';
+import { templateEngine, createToolTemplateData } from '../templates';
+import {
+  AdaptiveRateLimiter,
+  CompositeRateLimiter,
+  RateLimitExceededError,
+  RateLimitQuota,
+  RateLimitBackend,
+  RateLimitStore,
+  RateLimitWait,
+  SharedRateLimiter
+} from '../ratelimit';
+import { PlatformError, PlatformErrorCategory, RateLimitError } from '../errors';
+import { classifyError } from './ErrorClassification';
 
 export interface PlatformAdapter {
   readonly platform: string;
@@ -8,12 +21,24 @@ export interface PlatformAdapter {
   isAuthenticated(): Promise<boolean>;
   validateConfig(): Promise<{ isValid: boolean; errors: string[] }>;
   
-  formatContent(tool: Tool): Promise<FormattedContent>;
-  publish(tool: Tool, content: FormattedContent): Promise<PublicationResult>;
+  formatContent(tool: Tool, options?: FormatOptions): Promise<FormattedContent>;
+  publish(tool: Tool, content: FormattedContent, options?: PublishOptions): Promise<PublicationResult>;
   
+  getTargets?(): string[];
   getPostUrl?(postId: string): string;
-  deletePost?(postId: string): Promise<boolean>;
+  // Gets the publication's metadata too, for posts made of several platform objects such as threads
+  deletePost?(postId: string, metadata?: Publication['metadata']): Promise<boolean>;
   updatePost?(postId: string, content: FormattedContent): Promise<PublicationResult>;
+  // Why a post of this kind cannot be edited even though the platform edits others, such as Reddit link posts
+  getUpdateRestriction?(content: FormattedContent): string | undefined;
+
+  // Persists request counts so hourly and daily quotas hold across runs
+  useRateLimitStore?(store: RateLimitStore): void;
+  // Shares the token bucket with other processes on the machine instead
+  useRateLimitBackend?(backend: RateLimitBackend): void;
+  getRateLimitQuota?(): RateLimitQuota[];
+  // Pauses the platform asked for (Retry-After, rate limit reset) since the last call
+  takeRateLimitWaits?(): RateLimitWait[];
 }
 
 export interface FormattedContent {
@@ -21,36 +46,75 @@ export interface FormattedContent {
   body: string;
   url?: string;
   tags?: string[];
+  // Uploaded or attached by publish, after validation against the platform's media limits
+  images?: ToolImage[];
   metadata?: Record<string, any>;
 }
 
+export interface FormatOptions {
+  // Formats for a single target (subreddit, repository) so its Tool.overrides entry applies
+  target?: string;
+}
+
+export interface PublishOptions {
+  // Restricts multi-target platforms (subreddits, repositories) to these targets
+  targets?: string[];
+  // Metadata a failed earlier attempt returned, so a post made of several requests can resume where it stopped
+  previousAttempt?: Publication['metadata'];
+}
+
 export interface PublicationResult {
   success: boolean;
   postId?: string;
   url?: string;
   error?: string;
+  errorCategory?: PlatformErrorCategory;
   retryable?: boolean;
+  // When a rate limited request can be tried again, if the platform said
+  retryAt?: Date;
+  // Stored with the publication, e.g. the ID of every tweet in a thread
+  metadata?: Publication['metadata'];
+  targets?: TargetPublicationResult[];
 }
 
-export interface RateLimiter {
-  canMakeRequest(): Promise<boolean>;
-  recordRequest(): void;
-  getWaitTime(): Promise<number>;
-  waitIfNeeded(): Promise<void>;
+export interface TargetPublicationResult extends Omit<PublicationResult, 'targets'> {
+  target: string;
 }
 
 export abstract class BasePlatformAdapter implements PlatformAdapter {
   abstract readonly platform: string;
-  protected rateLimiter: RateLimiter;
+  protected rateLimiter: AdaptiveRateLimiter;
 
   constructor(public readonly config: PlatformConfig) {
-    this.rateLimiter = new TokenBucketRateLimiter(config.rateLimit);
+    this.rateLimiter = new AdaptiveRateLimiter(config.platform, new CompositeRateLimiter(config.platform, config.rateLimit));
   }
 
   abstract authenticate(): Promise<boolean>;
   abstract isAuthenticated(): Promise<boolean>;
-  abstract formatContent(tool: Tool): Promise<FormattedContent>;
-  abstract publish(tool: Tool, content: FormattedContent): Promise<PublicationResult>;
+  abstract formatContent(tool: Tool, options?: FormatOptions): Promise<FormattedContent>;
+  abstract publish(tool: Tool, content: FormattedContent, options?: PublishOptions): Promise<PublicationResult>;
+
+  useRateLimitStore(store: RateLimitStore): void {
+    this.rateLimiter = new AdaptiveRateLimiter(
+      this.config.platform,
+      new CompositeRateLimiter(this.config.platform, this.config.rateLimit, store)
+    );
+  }
+
+  useRateLimitBackend(backend: RateLimitBackend): void {
+    this.rateLimiter = new AdaptiveRateLimiter(
+      this.config.platform,
+      new SharedRateLimiter(this.config.platform, this.config.rateLimit, backend)
+    );
+  }
+
+  getRateLimitQuota(): RateLimitQuota[] {
+    return this.rateLimiter.getQuota();
+  }
+
+  takeRateLimitWaits(): RateLimitWait[] {
+    return this.rateLimiter.takeWaits();
+  }
 
   async validateConfig(): Promise<{ isValid: boolean; errors: string[] }> {
     const errors: string[] = [];
@@ -67,6 +131,23 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
       errors.push('Authentication configuration is required');
     }
 
+    const templates = {
+      title: this.config.settings?.titleTemplate || this.config.templates?.title,
+      body: this.config.templates?.body
+    };
+
+    Object.entries(templates).forEach(([field, template]) => {
+      if (!template) {
+        return;
+      }
+
+      try {
+        templateEngine.validate(template);
+      } catch (error) {
+        errors.push(`Invalid ${field} template: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+
     return { isValid: errors.length === 0, errors };
   }
 
@@ -76,10 +157,12 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
     baseDelay: number = this.config.retryConfig.baseDelay
   ): Promise<T> {
     let lastError: Error;
+    let serverPaused = false;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        if (attempt > 0) {
+        // When the server said how long to wait, the rate limiter waits exactly that instead
+        if (attempt > 0 && !serverPaused) {
           const delay = Math.min(
             baseDelay * Math.pow(this.config.retryConfig.backoffMultiplier, attempt - 1),
             this.config.retryConfig.maxDelay
@@ -88,13 +171,24 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
         }
 
         await this.rateLimiter.waitIfNeeded();
-        const result = await operation();
+        // Counted before sending: failed and rejected requests use up the platform's quota too
         this.rateLimiter.recordRequest();
+        const result = await operation();
+        this.rateLimiter.observe((result as { headers?: Record<string, unknown> } | undefined)?.headers);
         return result;
       } catch (error) {
         lastError = error as Error;
-        
-        if (attempt === maxRetries || !this.isRetryableError(error)) {
+        serverPaused = this.rateLimiter.observe(
+          (error as { response?: { headers?: Record<string, unknown> } } | undefined)?.response?.headers
+        ) > 0;
+
+        // An exhausted quota will not recover within the backoff, so it is reported straight away;
+        // any other error the server attached a pause to (GitHub answers 403) is worth retrying
+        if (
+          attempt === maxRetries ||
+          error instanceof RateLimitExceededError ||
+          (!serverPaused && !this.isRetryableError(error))
+        ) {
           break;
         }
       }
@@ -104,80 +198,91 @@ export abstract class BasePlatformAdapter implements PlatformAdapter {
   }
 
   protected isRetryableError(error: unknown): boolean {
-    const errorObj = error as { response?: { status?: number }; code?: string };
-    
-    if (errorObj.response?.status) {
-      const status = errorObj.response.status;
-      return status >= 500 || status === 429 || status === 408;
-    }
-    
-    return errorObj.code === 'ECONNRESET' || 
-           errorObj.code === 'ETIMEDOUT' || 
-           errorObj.code === 'ENOTFOUND';
+    return this.toPlatformError(error).retryable;
   }
 
-  protected sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Adapters override this to recognize their platform's own signals (duplicate posts, bans, error codes)
+  protected toPlatformError(error: unknown): PlatformError {
+    return classifyError(error, this.platform, this.describeError(error));
   }
 
-  protected replaceTemplateVariables(template: string, tool: Tool): string {
-    return template
-      .replace(/\{name\}/g, tool.name)
-      .replace(/\{shortDescription\}/g, tool.shortDescription)
-      .replace(/\{url\}/g, tool.url)
-      .replace(/\{version\}/g, tool.version || '')
-      .replace(/\{timestamp\}/g, new Date().toISOString())
-      .replace(/\{date\}/g, new Date().toLocaleDateString())
-      .replace(/\{tags\}/g, tool.tags?.join(', ') || '');
+  // Adapters override this to pull the platform's message out of error responses
+  protected describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
   }
-}
 
-class TokenBucketRateLimiter implements RateLimiter {
-  private tokens: number;
-  private lastRefill: number;
-  private readonly maxTokens: number;
-  private readonly refillRate: number;
+  protected failure(error: unknown): PublicationResult {
+    const platformError = this.toPlatformError(error);
 
-  constructor(private config: { requestsPerMinute: number; burstLimit: number }) {
-    this.maxTokens = config.burstLimit;
-    this.tokens = this.maxTokens;
-    this.lastRefill = Date.now();
-    this.refillRate = config.requestsPerMinute / 60000; // tokens per millisecond
+    return {
+      success: false,
+      error: platformError.message,
+      errorCategory: platformError.category,
+      retryable: platformError.retryable,
+      ...(platformError instanceof RateLimitError && platformError.retryAt && { retryAt: platformError.retryAt })
+    };
   }
 
-  async canMakeRequest(): Promise<boolean> {
-    this.refillTokens();
-    return this.tokens >= 1;
-  }
+  protected summarizeTargetResults(results: TargetPublicationResult[], noTargetsError: string): PublicationResult {
+    const successful = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success);
 
-  recordRequest(): void {
-    if (this.tokens >= 1) {
-      this.tokens -= 1;
+    if (results.length === 0) {
+      return { success: false, error: noTargetsError, retryable: false, targets: [] };
     }
+
+    // The first success stays the primary post so single-target callers keep working
+    return {
+      success: successful.length > 0,
+      postId: successful[0]?.postId,
+      url: successful[0]?.url,
+      error: failed.length > 0
+        ? failed.map(r => `${r.target}: ${r.error}`).join('; ')
+        : undefined,
+      errorCategory: failed[0]?.errorCategory,
+      retryable: failed.some(r => r.retryable),
+      targets: results
+    };
   }
 
-  async getWaitTime(): Promise<number> {
-    this.refillTokens();
-    if (this.tokens >= 1) {
-      return 0;
-    }
-    
-    return Math.ceil((1 - this.tokens) / this.refillRate);
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  async waitIfNeeded(): Promise<void> {
-    const waitTime = await this.getWaitTime();
-    if (waitTime > 0) {
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
+  protected renderTemplate(template: string, tool: Tool): string {
+    return templateEngine.render(template, createToolTemplateData(tool));
+  }
+
+  // Release announcements lead with the version; otherwise the tool is introduced by its short description
+  protected defaultTitle(tool: Tool, separator: string = ': '): string {
+    return tool.release
+      ? `${tool.name} ${tool.release.version} released${separator}${tool.shortDescription}`
+      : `${tool.name}${separator}${tool.shortDescription}`;
+  }
+
+  // url and tags overrides are applied to the tool itself so defaults and templates pick them up;
+  // title, body and postType are returned for formatContent to apply
+  protected applyContentOverride(tool: Tool, options: FormatOptions = {}): { tool: Tool; override: ContentOverride } {
+    const override = resolveContentOverride(tool, this.platform, options.target);
+
+    return {
+      tool: {
+        ...tool,
+        ...(override.url && { url: override.url }),
+        ...(override.tags && { tags: override.tags })
+      },
+      override
+    };
+  }
+
+  // Tool overrides win over the platform's titleTemplate setting, which wins over GlobalConfig.templates
+  protected formatTitle(tool: Tool, defaultTitle: () => string, override: ContentOverride = {}): string {
+    const template = override.title || this.config.settings?.titleTemplate || this.config.templates?.title;
+    return template ? this.renderTemplate(template, tool) : defaultTitle();
   }
 
-  private refillTokens(): void {
-    const now = Date.now();
-    const timePassed = now - this.lastRefill;
-    const tokensToAdd = timePassed * this.refillRate;
-    
-    this.tokens = Math.min(this.maxTokens, this.tokens + tokensToAdd);
-    this.lastRefill = now;
+  protected formatBody(tool: Tool, defaultBody: () => string, override: ContentOverride = {}): string {
+    const template = override.body || this.config.templates?.body;
+    return template ? this.renderTemplate(template, tool) : defaultBody();
   }
 }
\ No newline at end of file
@@ -1,7 +1,18 @@
 import axios, { AxiosInstance } from 'axios';
-import { BasePlatformAdapter, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
-import { Tool, RedditConfig } from '../models';
+import {
+  BasePlatformAdapter,
+  FormatOptions,
+  FormattedContent,
+  PlatformAdapter,
+  PublicationResult,
+  PublishOptions,
+  TargetPublicationResult
+} from './PlatformAdapter';
+import { Tool, ToolImage, RedditConfig } from '../models';
 import { Logger } from '../utils';
+import { convertMarkdown } from '../content';
+import { MediaLimits, getPrimaryImage, loadValidatedMedia } from '../media';
+import { ContentRejectedError, DuplicateContentError, PlatformError, RateLimitError } from '../errors';
 
 interface RedditAuthResponse {
   access_token: string;
@@ -11,9 +22,19 @@ interface RedditAuthResponse {
   refresh_token?: string;
 }
 
+interface RedditMediaAssetResponse {
+  args: {
+    action: string;
+    fields: Array<{ name: string; value: string }>;
+  };
+  asset: {
+    asset_id: string;
+  };
+}
+
 interface RedditSubmitResponse {
   json: {
-    errors: any[];
+    errors: string[][];
     data?: {
       id: string;
       name: string;
@@ -29,6 +50,12 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
   private tokenExpiry: number = 0;
   private logger: Logger;
 
+  static readonly MEDIA_LIMITS: MediaLimits = {
+    formats: ['png', 'jpeg', 'gif'],
+    maxBytes: 20 * 1024 * 1024,
+    maxCount: 1
+  };
+
   constructor(config: RedditConfig) {
     super(config);
     this.logger = new Logger('RedditAdapter');
@@ -98,25 +125,52 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
     }
   }
 
-  async formatContent(tool: Tool): Promise<FormattedContent> {
+  async formatContent(baseTool: Tool, options: FormatOptions = {}): Promise<FormattedContent> {
+    const { tool, override } = this.applyContentOverride(baseTool, options);
     const redditConfig = this.config as RedditConfig;
     const settings = redditConfig.settings;
+    const postType = override.postType || settings.postType;
+
+    if (!['link', 'text', 'auto', 'image'].includes(postType)) {
+      throw new Error(`Invalid Reddit post type override: ${postType}`);
+    }
 
     // Use custom title template or default format
-    const title = settings.titleTemplate 
-      ? this.replaceTemplateVariables(settings.titleTemplate, tool)
-      : `${tool.name} - ${tool.shortDescription}`;
+    const title = this.formatTitle(tool, () => this.defaultTitle(tool, ' - '), override);
 
     // Ensure title meets Reddit's requirements
     const sanitizedTitle = this.sanitizeTitle(title);
 
+    if (postType === 'image') {
+      const image = getPrimaryImage(tool.images);
+      if (!image) {
+        throw new ContentRejectedError('Reddit image posts require an image in Tool.images', { platform: this.platform });
+      }
+
+      // Image posts carry no body or link; the tool URL only reaches readers through the title template
+      return {
+        title: sanitizedTitle,
+        body: '',
+        images: [image],
+        tags: tool.tags,
+        metadata: {
+          postType: 'image',
+          flair: settings.defaultFlair
+        }
+      };
+    }
+
     let body = '';
     let url: string | undefined = tool.url;
 
-    if (settings.postType === 'text' || 
-        (settings.postType === 'auto' && tool.longDescription.length > 100)) {
+    const description = tool.release
+      ? `**What's new in ${tool.release.version}:**\n\n${tool.release.notes}`
+      : tool.longDescription;
+
+    if (postType === 'text' || 
+        (postType === 'auto' && (override.body !== undefined || description.length > 100))) {
       // Create text post with URL in body
-      body = `${tool.longDescription}\n\n**Link:** ${tool.url}`;
+      body = this.formatBody(tool, () => `${convertMarkdown(description, 'reddit')}\n\n**Link:** ${tool.url}`, override);
       url = undefined; // Text posts don't have URLs
     }
 
@@ -132,15 +186,27 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
     };
   }
 
-  async publish(tool: Tool, content: FormattedContent): Promise<PublicationResult> {
+  getTargets(): string[] {
+    const redditConfig = this.config as RedditConfig;
+    return redditConfig.settings.subreddits.map(subreddit => `r/${subreddit}`);
+  }
+
+  async publish(tool: Tool, content: FormattedContent, options: PublishOptions = {}): Promise<PublicationResult> {
     try {
       const redditConfig = this.config as RedditConfig;
-      const results: PublicationResult[] = [];
+      const subreddits = redditConfig.settings.subreddits
+        .filter(subreddit => !options.targets || options.targets.includes(`r/${subreddit}`));
+      const results: TargetPublicationResult[] = [];
+
+      // Upload once and submit the same image to every subreddit
+      const imageUrl = content.images?.[0] ? await this.uploadImage(content.images[0]) : undefined;
+
+      for (const subreddit of subreddits) {
+        const target = `r/${subreddit}`;
 
-      for (const subreddit of redditConfig.settings.subreddits) {
         try {
-          const result = await this.publishToSubreddit(subreddit, content);
-          results.push(result);
+          const result = await this.publishToSubreddit(subreddit, content, imageUrl);
+          results.push({ ...result, target });
           
           if (result.success) {
             this.logger.info(`Successfully published to r/${subreddit}: ${result.url}`);
@@ -149,53 +215,66 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
           }
 
           // Add delay between subreddit posts to respect rate limits
-          if (redditConfig.settings.subreddits.length > 1) {
+          if (subreddits.length > 1) {
             await this.sleep(2000); // 2 second delay
           }
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
           this.logger.error(`Error publishing to r/${subreddit}:`, error);
-          results.push({
-            success: false,
-            error: errorMessage,
-            retryable: this.isRetryableError(error)
-          });
+          results.push({ target, ...this.failure(error) });
         }
       }
 
-      // Return the first successful result or the last error
-      const successfulResult = results.find(r => r.success);
-      if (successfulResult) {
-        return successfulResult;
-      }
-
-      const lastResult = results[results.length - 1];
-      return {
-        success: false,
-        error: lastResult?.error || 'Failed to publish to any subreddit',
-        retryable: results.some(r => r.retryable)
-      };
+      return this.summarizeTargetResults(results, 'Failed to publish to any subreddit');
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error('Failed to publish to Reddit:', error);
-      
-      return {
-        success: false,
-        error: errorMessage,
-        retryable: this.isRetryableError(error)
-      };
+      return this.failure(error);
+    }
+  }
+
+  private async uploadImage(image: ToolImage): Promise<string> {
+    const [file] = await loadValidatedMedia([image], RedditAdapter.MEDIA_LIMITS, this.platform);
+
+    // Reddit hands out an S3 upload lease; the uploaded file's URL is what gets submitted
+    const lease = await this.retryWithExponentialBackoff(async () => {
+      return await this.client.post('/api/media/asset.json', new URLSearchParams({
+        filepath: file.filename,
+        mimetype: file.mimeType
+      }));
+    });
+
+    const { args }: RedditMediaAssetResponse = lease.data;
+    const uploadUrl = args.action.startsWith('//') ? `https:${args.action}` : args.action;
+    const form = new FormData();
+    args.fields.forEach(field => form.append(field.name, field.value));
+    form.append('file', new Blob([file.data], { type: file.mimeType }), file.filename);
+
+    // The lease is for a different host, so the OAuth client and its headers are not used
+    await this.retryWithExponentialBackoff(async () => {
+      return await axios.post(uploadUrl, form, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        timeout: 60000
+      });
+    });
+
+    const key = args.fields.find(field => field.name === 'key')?.value;
+    if (!key) {
+      throw new Error('Reddit media upload did not return a file key');
     }
+
+    this.logger.debug(`Uploaded ${file.filename} to Reddit`);
+    return `${uploadUrl}/${key}`;
   }
 
   private async publishToSubreddit(
     subreddit: string, 
-    content: FormattedContent
+    content: FormattedContent,
+    imageUrl?: string
   ): Promise<PublicationResult> {
-    const isTextPost = !content.url;
+    const isTextPost = !content.url && !imageUrl;
     
     interface RedditSubmitData {
       sr: string;
-      kind: 'self' | 'link';
+      kind: 'self' | 'link' | 'image';
       title: string;
       api_type: 'json';
       sendreplies: boolean;
@@ -206,7 +285,7 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
 
     const submitData: RedditSubmitData = {
       sr: subreddit,
-      kind: isTextPost ? 'self' : 'link',
+      kind: imageUrl ? 'image' : isTextPost ? 'self' : 'link',
       title: content.title,
       api_type: 'json',
       sendreplies: false
@@ -215,7 +294,7 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
     if (isTextPost) {
       submitData.text = content.body;
     } else {
-      submitData.url = content.url;
+      submitData.url = imageUrl || content.url;
     }
 
     // Add flair if specified
@@ -230,11 +309,7 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
     const result: RedditSubmitResponse = response.data;
 
     if (result.json.errors && result.json.errors.length > 0) {
-      const errorMessages = result.json.errors.map(err => 
-        Array.isArray(err) ? err.join(': ') : String(err)
-      ).join(', ');
-      
-      throw new Error(`Reddit API error: ${errorMessages}`);
+      throw this.apiError(result.json.errors);
     }
 
     if (!result.json.data) {
@@ -251,6 +326,30 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
     };
   }
 
+  // Reddit reports rejections as [code, message, field] triples in a 200 response
+  private apiError(errors: unknown[]): PlatformError {
+    const errorMessages = errors.map(err =>
+      Array.isArray(err) ? err.join(': ') : String(err)
+    ).join(', ');
+    const message = `Reddit API error: ${errorMessages}`;
+    const codes = errors.map(err => Array.isArray(err) ? String(err[0]) : String(err));
+
+    if (codes.includes('ALREADY_SUB')) {
+      return new DuplicateContentError(message, { platform: this.platform });
+    }
+
+    if (codes.includes('RATELIMIT')) {
+      // e.g. "you are doing that too much. try again in 9 minutes."
+      const wait = /try again in (\d+) (second|minute)/.exec(errorMessages);
+      const retryAt = wait
+        ? new Date(Date.now() + Number(wait[1]) * (wait[2] === 'minute' ? 60 * 1000 : 1000))
+        : undefined;
+      return new RateLimitError(message, { platform: this.platform, retryAt });
+    }
+
+    return new ContentRejectedError(message, { platform: this.platform });
+  }
+
   private sanitizeTitle(title: string): string {
     // Reddit title requirements:
     // - Max 300 characters
@@ -290,6 +389,47 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
     }
   }
 
+  // Reddit only allows editing the text of self posts; titles, link and image posts are immutable
+  getUpdateRestriction(content: FormattedContent): string | undefined {
+    if (content.url || content.metadata?.postType === 'image') {
+      return `Reddit ${content.url ? 'link' : 'image'} posts cannot be edited`;
+    }
+
+    return undefined;
+  }
+
+  async updatePost(postId: string, content: FormattedContent): Promise<PublicationResult> {
+    const restriction = this.getUpdateRestriction(content);
+    if (restriction) {
+      return this.failure(new ContentRejectedError(restriction, { platform: this.platform }));
+    }
+
+    try {
+      const response = await this.retryWithExponentialBackoff(async () => {
+        return await this.client.post('/api/editusertext', new URLSearchParams({
+          api_type: 'json',
+          thing_id: `t3_${postId}`,
+          text: content.body
+        }));
+      });
+
+      const errors: string[][] = response.data?.json?.errors || [];
+      if (errors.length > 0) {
+        throw this.apiError(errors);
+      }
+
+      this.logger.info(`Successfully updated Reddit post: ${postId}`);
+
+      return {
+        success: true,
+        postId
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update Reddit post ${postId}:`, error);
+      return this.failure(error);
+    }
+  }
+
   async validateConfig(): Promise<{ isValid: boolean; errors: string[] }> {
     const baseValidation = await super.validateConfig();
     if (!baseValidation.isValid) {
@@ -310,8 +450,8 @@ export class RedditAdapter extends BasePlatformAdapter implements PlatformAdapte
       }
     });
 
-    if (!['link', 'text', 'auto'].includes(redditConfig.settings.postType)) {
-      errors.push('Post type must be "link", "text", or "auto"');
+    if (!['link', 'text', 'auto', 'image'].includes(redditConfig.settings.postType)) {
+      errors.push('Post type must be "link", "text", "auto", or "image"');
     }
 
     return {
@@ -1,7 +1,18 @@
 import axios, { AxiosInstance } from 'axios';
-import { BasePlatformAdapter, FormattedContent, PlatformAdapter, PublicationResult } from './PlatformAdapter';
-import { Tool, TwitterConfig } from '../models';
+import { BasePlatformAdapter, FormatOptions, FormattedContent, PlatformAdapter, PublicationResult, PublishOptions } from './PlatformAdapter';
+import { Publication, Tool, ToolImage, TwitterConfig } from '../models';
 import { Logger } from '../utils';
+import {
+  MAX_TWEET_LENGTH,
+  appendHashtags,
+  buildTwitterThread,
+  convertMarkdown,
+  truncateTweet,
+  twitterTextLength
+} from '../content';
+import { MediaLimits, listToolImages, loadValidatedMedia } from '../media';
+import { DuplicateContentError, PlatformError } from '../errors';
+import { errorStatus } from './ErrorClassification';
 
 interface TwitterTweet {
   id: string;
@@ -31,7 +42,13 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
   readonly platform = 'twitter';
   private client: AxiosInstance;
   private logger: Logger;
-  private readonly MAX_TWEET_LENGTH = 280;
+  private readonly DEFAULT_MAX_HASHTAGS = 3;
+
+  static readonly MEDIA_LIMITS: MediaLimits = {
+    formats: ['png', 'jpeg', 'gif', 'webp'],
+    maxBytes: 5 * 1024 * 1024,
+    maxCount: 4
+  };
 
   constructor(config: TwitterConfig) {
     super(config);
@@ -77,23 +94,28 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
     }
   }
 
-  async formatContent(tool: Tool): Promise<FormattedContent> {
+  async formatContent(baseTool: Tool, options: FormatOptions = {}): Promise<FormattedContent> {
+    const { tool, override } = this.applyContentOverride(baseTool, options);
     const twitterConfig = this.config as TwitterConfig;
     const settings = twitterConfig.settings;
 
     // Use custom title template or default format
-    const title = settings.titleTemplate 
-      ? this.replaceTemplateVariables(settings.titleTemplate, tool)
-      : `${tool.name}: ${tool.shortDescription}`;
+    const title = this.formatTitle(tool, () => this.defaultTitle(tool), override);
 
     // Create Twitter thread content
-    const tweets = this.createTwitterThread(tool);
+    const bodyTemplate = override.body || this.config.templates?.body;
+    const tweets = bodyTemplate
+      ? this.splitTemplatedThread(this.renderTemplate(bodyTemplate, tool))
+      : this.createTwitterThread(tool);
+
+    const images = listToolImages(tool.images).slice(0, TwitterAdapter.MEDIA_LIMITS.maxCount);
 
     return {
       title: this.sanitizeTitle(title),
       body: tweets.join('\n\n---TWEET_BREAK---\n\n'),
       url: tool.url,
       tags: this.prepareTags(tool, settings),
+      ...(images.length > 0 && { images }),
       metadata: {
         enableThreads: settings.enableThreads,
         includeHashtags: settings.includeHashtags,
@@ -103,20 +125,37 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
     };
   }
 
-  async publish(tool: Tool, content: FormattedContent): Promise<PublicationResult> {
+  async publish(tool: Tool, content: FormattedContent, options: PublishOptions = {}): Promise<PublicationResult> {
+    const tweets: string[] = content.metadata?.tweets || [content.body];
+    // A retry continues the thread an earlier attempt left half posted instead of starting it again
+    const postedTweetIds: string[] = options.previousAttempt?.tweetIds || [];
+    const tweetIds = postedTweetIds.length < tweets.length ? [...postedTweetIds] : [];
+
     try {
       this.logger.debug(`Publishing ${tool.name} to Twitter`);
 
-      const tweets = content.metadata?.tweets || [content.body];
-      const tweetIds: string[] = [];
-      let previousTweetId: string | undefined;
+      let previousTweetId: string | undefined = tweetIds[tweetIds.length - 1];
+
+      // Images are attached to the opening tweet of the thread
+      const mediaIds = tweetIds.length === 0 && content.images && content.images.length > 0
+        ? await this.uploadMedia(content.images)
+        : [];
+
+      if (tweetIds.length > 0) {
+        this.logger.info(`Resuming Twitter thread after tweet ${tweetIds.length}/${tweets.length}`);
+      }
 
       // Post tweets in sequence for threads
-      for (let i = 0; i < tweets.length; i++) {
+      for (let i = tweetIds.length; i < tweets.length; i++) {
         const tweetText = tweets[i];
         
         const tweetData: TwitterCreateTweetRequest = {
           text: tweetText,
+          ...(i === 0 && mediaIds.length > 0 && {
+            media: {
+              media_ids: mediaIds
+            }
+          }),
           ...(previousTweetId && {
             reply: {
               in_reply_to_tweet_id: previousTweetId
@@ -147,58 +186,92 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
       return {
         success: true,
         postId: tweetIds[0], // Return the first tweet ID as primary
-        url: primaryTweetUrl
+        url: primaryTweetUrl,
+        // Every tweet of the thread, so unpublishing can remove the replies too
+        metadata: { tweetIds }
       };
     } catch (error) {
-      const errorMessage = this.extractErrorMessage(error);
       this.logger.error('Failed to publish to Twitter:', error);
-      
+
+      if (tweetIds.length === 0) {
+        return this.failure(error);
+      }
+
+      // Part of the thread is live: keep its IDs so a retry resumes it and unpublishing can remove it
       return {
-        success: false,
-        error: errorMessage,
-        retryable: this.isRetryableError(error)
+        ...this.failure(error),
+        postId: tweetIds[0],
+        url: this.getPostUrl(tweetIds[0]),
+        metadata: { tweetIds }
       };
     }
   }
 
+  private async uploadMedia(images: ToolImage[]): Promise<string[]> {
+    const files = await loadValidatedMedia(images, TwitterAdapter.MEDIA_LIMITS, this.platform);
+    const mediaIds: string[] = [];
+
+    for (const file of files) {
+      const form = new FormData();
+      form.append('media', new Blob([file.data], { type: file.mimeType }), file.filename);
+      form.append('media_category', 'tweet_image');
+
+      const response = await this.retryWithExponentialBackoff(async () => {
+        return await this.client.post('/2/media/upload', form, {
+          headers: { 'Content-Type': 'multipart/form-data' }
+        });
+      });
+
+      const mediaId: string = response.data.data.id;
+
+      if (file.alt) {
+        await this.retryWithExponentialBackoff(async () => {
+          return await this.client.post('/2/media/metadata', {
+            id: mediaId,
+            metadata: { alt_text: { text: file.alt } }
+          });
+        });
+      }
+
+      this.logger.debug(`Uploaded ${file.filename} to Twitter: ${mediaId}`);
+      mediaIds.push(mediaId);
+    }
+
+    return mediaIds;
+  }
+
   private createTwitterThread(tool: Tool): string[] {
     const twitterConfig = this.config as TwitterConfig;
     const settings = twitterConfig.settings;
-    
-    const tweets: string[] = [];
-    
-    // First tweet - main announcement
-    let firstTweet = `🚀 ${tool.name}: ${tool.shortDescription}`;
+    // Leave room for a two-digit " n/n" so the opening tweet is not split by numbering
+    const openerLength = settings.numberThreads ? MAX_TWEET_LENGTH - twitterTextLength(' 99/99') : MAX_TWEET_LENGTH;
+
+    // First tweet - main announcement, with as many hashtags as fit
+    let firstTweet = truncateTweet(tool.release
+      ? `🚀 ${tool.name} ${tool.release.version} is out: ${tool.shortDescription}`
+      : `🚀 ${tool.name}: ${tool.shortDescription}`, openerLength);
     
     if (settings.includeHashtags && tool.tags) {
-      const hashtags = this.formatHashtags(tool.tags, settings.defaultHashtags);
-      const tweetWithHashtags = `${firstTweet}\n\n${hashtags}`;
-      
-      if (tweetWithHashtags.length <= this.MAX_TWEET_LENGTH) {
-        firstTweet = tweetWithHashtags;
-      }
+      firstTweet = appendHashtags(firstTweet, this.formatHashtags(tool.tags, settings.defaultHashtags), {
+        maxLength: openerLength,
+        maxHashtags: settings.maxHashtags ?? this.DEFAULT_MAX_HASHTAGS
+      });
     }
-    
-    tweets.push(this.truncateTweet(firstTweet));
 
     if (!settings.enableThreads) {
-      return tweets;
+      return [firstTweet];
     }
 
-    // Second tweet - description and URL
-    if (tool.longDescription) {
-      let descriptionTweet = tool.longDescription;
-      
-      // Add URL if it fits
-      const urlText = `\n\n🔗 ${tool.url}`;
-      if (descriptionTweet.length + urlText.length <= this.MAX_TWEET_LENGTH) {
-        descriptionTweet += urlText;
-      }
-      
-      tweets.push(this.truncateTweet(descriptionTweet));
+    const blocks = [firstTweet];
+    const url = tool.release?.url || tool.url;
+
+    // Description (or release notes) continues over as many tweets as it needs, ending with the URL
+    const description = tool.release ? tool.release.notes : tool.longDescription;
+    if (description) {
+      blocks.push(`${convertMarkdown(description, 'twitter')}\n\n🔗 ${url}`);
     }
 
-    // Third tweet - categories and target audience
+    // Categories and target audience
     const infoItems: string[] = [];
     
     if (tool.category && tool.category.length > 0) {
@@ -210,18 +283,28 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
     }
 
     if (infoItems.length > 0) {
-      const infoTweet = infoItems.join('\n\n');
-      tweets.push(this.truncateTweet(infoTweet));
+      blocks.push(infoItems.join('\n\n'));
     }
 
-    // Final tweet - URL if not already included
-    const lastTweet = tweets[tweets.length - 1];
-    if (!lastTweet.includes(tool.url)) {
-      const urlTweet = `🔗 Learn more: ${tool.url}\n\n💭 Have you used ${tool.name}? Let me know your thoughts!`;
-      tweets.push(this.truncateTweet(urlTweet));
+    // Final tweet - URL if the thread does not already end with it
+    if (!blocks[blocks.length - 1].includes(tool.url)) {
+      blocks.push(`🔗 Learn more: ${tool.url}\n\n💭 Have you used ${tool.name}? Let me know your thoughts!`);
     }
 
-    return tweets;
+    return buildTwitterThread(blocks, { numbering: settings.numberThreads });
+  }
+
+  private splitTemplatedThread(text: string): string[] {
+    // Templated threads separate tweets with a line containing only "---"; longer parts continue in extra tweets
+    const parts = text
+      .split(/\n\s*---\s*\n/)
+      .map(tweet => tweet.trim())
+      .filter(tweet => tweet.length > 0);
+
+    const settings = (this.config as TwitterConfig).settings;
+    return settings.enableThreads
+      ? buildTwitterThread(parts, { numbering: settings.numberThreads })
+      : parts.slice(0, 1).map(tweet => truncateTweet(tweet));
   }
 
   private prepareTags(tool: Tool, settings: TwitterConfig['settings']): string[] {
@@ -229,13 +312,11 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
     return [...new Set(allTags)]; // Remove duplicates
   }
 
-  private formatHashtags(toolTags: string[], defaultTags?: string[]): string {
+  private formatHashtags(toolTags: string[], defaultTags?: string[]): string[] {
     const allTags = [...(defaultTags || []), ...toolTags];
     const uniqueTags = [...new Set(allTags)];
     
-    return uniqueTags
-      .map(tag => `#${this.sanitizeHashtag(tag)}`)
-      .join(' ');
+    return uniqueTags.map(tag => `#${this.sanitizeHashtag(tag)}`);
   }
 
   private sanitizeHashtag(tag: string): string {
@@ -266,23 +347,18 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
     return sanitized;
   }
 
-  private truncateTweet(text: string): string {
-    if (text.length <= this.MAX_TWEET_LENGTH) {
-      return text;
-    }
+  // Twitter refuses a tweet identical to a recent one with 403 rather than a dedicated status
+  protected toPlatformError(error: unknown): PlatformError {
+    const message = this.describeError(error);
 
-    // Try to truncate at word boundary
-    const truncated = text.substring(0, this.MAX_TWEET_LENGTH - 3);
-    const lastSpace = truncated.lastIndexOf(' ');
-    
-    if (lastSpace > this.MAX_TWEET_LENGTH * 0.8) {
-      return truncated.substring(0, lastSpace) + '...';
+    if (errorStatus(error) === 403 && /duplicate/i.test(message)) {
+      return new DuplicateContentError(message, { platform: this.platform, status: 403, cause: error });
     }
-    
-    return truncated + '...';
+
+    return super.toPlatformError(error);
   }
 
-  private extractErrorMessage(error: any): string {
+  protected describeError(error: any): string {
     if (error.response?.data) {
       const data = error.response.data;
       
@@ -316,18 +392,33 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
     return `https://twitter.com/i/status/${postId}`;
   }
 
-  async deletePost(postId: string): Promise<boolean> {
-    try {
-      await this.retryWithExponentialBackoff(async () => {
-        return await this.client.delete(`/2/tweets/${postId}`);
-      });
-      
-      this.logger.info(`Successfully deleted Twitter tweet: ${postId}`);
-      return true;
-    } catch (error) {
-      this.logger.error(`Failed to delete Twitter tweet ${postId}:`, error);
+  async deletePost(postId: string, metadata?: Publication['metadata']): Promise<boolean> {
+    const tweetIds: string[] = metadata?.tweetIds || [postId];
+    const failed: string[] = [];
+
+    // Replies first, so an interrupted delete never leaves a thread without its opening tweet
+    for (const tweetId of [...tweetIds].reverse()) {
+      try {
+        await this.retryWithExponentialBackoff(async () => {
+          return await this.client.delete(`/2/tweets/${tweetId}`);
+        });
+      } catch (error) {
+        // Already gone, e.g. removed by an earlier unpublish that stopped part way
+        if (errorStatus(error) === 404) {
+          continue;
+        }
+        this.logger.error(`Failed to delete Twitter tweet ${tweetId}:`, error);
+        failed.push(tweetId);
+      }
+    }
+
+    if (failed.length > 0) {
+      this.logger.error(`Deleted ${tweetIds.length - failed.length} of ${tweetIds.length} tweets in thread ${postId}`);
       return false;
     }
+
+    this.logger.info(`Successfully deleted Twitter thread: ${postId} (${tweetIds.length} tweet(s))`);
+    return true;
   }
 
   async validateConfig(): Promise<{ isValid: boolean; errors: string[] }> {
@@ -344,6 +435,11 @@ export class TwitterAdapter extends BasePlatformAdapter implements PlatformAdapt
     }
 
     // Validate default hashtags
+    if (twitterConfig.settings.maxHashtags !== undefined &&
+        (!Number.isInteger(twitterConfig.settings.maxHashtags) || twitterConfig.settings.maxHashtags < 0)) {
+      errors.push('Max hashtags must be a non-negative integer');
+    }
+
     if (twitterConfig.settings.defaultHashtags) {
       twitterConfig.settings.defaultHashtags.forEach(tag => {
         const sanitized = this.sanitizeHashtag(tag);
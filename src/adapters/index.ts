@@ -1,4 +1,5 @@
 export * from './PlatformAdapter';
+export * from './ErrorClassification';
 export * from './RedditAdapter';
 export * from './DevToAdapter';
 export * from './GitHubAdapter';
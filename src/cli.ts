@@ -2,12 +2,29 @@
 
 import { Command } from 'commander';
 import * as dotenv from 'dotenv';
-import { ConfigManager } from './config';
+import { ConfigManager, ConfigSource } from './config';
 import { SyndicationEngine } from './core';
-import { RedditAdapter, DevToAdapter, GitHubAdapter } from './adapters';
-import { Tool, ToolValidator, RedditConfig, DevToConfig, GitHubConfig, PlatformConfig } from './models';
+import {
+  Tool,
+  ToolValidator,
+  ToolRegistry,
+  generateToolId,
+  PlatformConfig,
+  Publication,
+  formatPublicationTarget,
+  hasFailed
+} from './models';
 import { Logger } from './utils';
-import { SyndicationResult } from './core/SyndicationEngine';
+import { createPublicationStore, createToolStore, createJobStore, createRateLimitBackend, createRateLimitStore } from './storage';
+import { CompositeRateLimiter, RateLimitQuota, SharedRateLimiter } from './ratelimit';
+import { Scheduler, SchedulerWorker, ScheduledJobStatus } from './scheduler';
+import { platformRegistry } from './platforms';
+import { PluginLoader } from './plugins';
+import { ContentPreviewer, PreviewFormat, renderPreview } from './preview';
+import { resolveLongDescription, ToolGenerator } from './content';
+import { SocialCardGenerator, SocialCardFormat, resolveToolImages } from './media';
+import { SyndicationResult, UpdateResult, UnpublishResult } from './core/SyndicationEngine';
+import { ExitCode, exitCodeForCategories } from './errors';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -33,6 +50,8 @@ program
   .option('-p, --platforms <platforms>', 'Comma-separated list of platforms to target')
   .option('-d, --dry-run', 'Preview what would be posted without actually posting')
   .option('-c, --concurrent', 'Post to platforms concurrently')
+  .option('--force', 'Publish again even where this tool version was already published')
+  .option('--publish-at <times>', 'Schedule publishing, e.g. "dev.to=2024-05-01T09:00:00-07:00,hackernews=..." or a single time for all platforms')
   .option('--config <path>', 'Path to configuration file')
   .option('--tool-name <name>', 'Tool name')
   .option('--tool-url <url>', 'Tool URL')
@@ -46,8 +65,7 @@ program
   .option('--version <version>', 'Tool version')
   .action(async (options) => {
     try {
-      const configManager = new ConfigManager();
-      await configManager.loadConfig();
+      const configManager = await loadConfiguration(options.config);
 
       let tool: Tool;
 
@@ -65,23 +83,26 @@ program
       }
 
       // Create syndication engine
-      const engine = new SyndicationEngine(configManager, createAdapters(configManager));
+      const engine = createEngine(configManager);
 
       // Parse platforms if specified
       const platforms = options.platforms ? options.platforms.split(',').map((p: string) => p.trim()) : undefined;
+      const publishAt = options.publishAt ? parsePublishAt(options.publishAt) : undefined;
 
       // Syndicate
       const result = await engine.syndicate(tool, {
         platforms,
         dryRun: options.dryRun,
-        concurrent: options.concurrent
+        concurrent: options.concurrent,
+        force: options.force,
+        publishAt
       });
 
       // Display results
       displayResults(result);
 
       if (!result.success) {
-        process.exit(1);
+        process.exit(exitCodeFor([result]));
       }
     } catch (error) {
       logger.error('Syndication failed:', error);
@@ -89,18 +110,72 @@ program
     }
   });
 
+program
+  .command('release [version]')
+  .description('Announce a release using its CHANGELOG entry (defaults to the newest version)')
+  .requiredOption('-f, --file <path>', 'Tool configuration file (JSON/YAML)')
+  .option('--changelog <path>', 'Changelog file (defaults to CHANGELOG.md next to the tool file)')
+  .option('-p, --platforms <platforms>', 'Comma-separated list of platforms to target')
+  .option('-d, --dry-run', 'Preview what would be posted without actually posting')
+  .option('-c, --concurrent', 'Post to platforms concurrently')
+  .option('--force', 'Publish again even where this version was already published')
+  .option('--publish-at <times>', 'Schedule publishing, e.g. "dev.to=2024-05-01T09:00:00-07:00,hackernews=..." or a single time for all platforms')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (version: string | undefined, options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+      const tool = await loadToolFromFile(options.file);
+
+      const validation = ToolValidator.validate(tool);
+      if (!validation.isValid) {
+        logger.error('Tool validation failed:', validation.errors);
+        process.exit(1);
+      }
+
+      const engine = createEngine(configManager);
+      const platforms = options.platforms ? options.platforms.split(',').map((p: string) => p.trim()) : undefined;
+      const publishAt = options.publishAt ? parsePublishAt(options.publishAt) : undefined;
+
+      const result = await engine.syndicateRelease(tool, version, {
+        changelogFile: options.changelog && path.resolve(options.changelog),
+        baseDir: path.dirname(path.resolve(options.file)),
+        platforms,
+        dryRun: options.dryRun,
+        concurrent: options.concurrent,
+        force: options.force,
+        publishAt
+      });
+
+      displayResults(result);
+
+      if (!result.success) {
+        process.exit(exitCodeFor([result]));
+      }
+    } catch (error) {
+      logger.error('Release announcement failed:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('retry')
   .description('Retry failed publications')
   .option('--tool-id <id>', 'Retry failed publications for specific tool')
+  .option('--due', 'Only retry queued publications whose backoff has elapsed (e.g. from cron)')
+  .option('--all', 'Also retry permanent failures and publications that used up their attempts')
   .option('--config <path>', 'Path to configuration file')
   .action(async (options) => {
     try {
-      const configManager = new ConfigManager();
-      await configManager.loadConfig();
+      const configManager = await loadConfiguration(options.config);
 
-      const engine = new SyndicationEngine(configManager, createAdapters(configManager));
-      const results = await engine.retryFailed(options.toolId);
+      const engine = createEngine(configManager);
+      const results = await engine.retryFailed(options.toolId, { due: options.due, all: options.all });
+
+      if (results.length === 0) {
+        console.log(options.due
+          ? 'No queued retries are due.'
+          : options.all ? 'No failed publications to retry.' : 'No queued retries; use --all to retry permanent failures too.');
+      }
 
       results.forEach(result => {
         displayResults(result);
@@ -108,7 +183,7 @@ program
 
       const hasFailures = results.some(r => !r.success);
       if (hasFailures) {
-        process.exit(1);
+        process.exit(exitCodeFor(results));
       }
     } catch (error) {
       logger.error('Retry failed:', error);
@@ -116,6 +191,183 @@ program
     }
   });
 
+program
+  .command('update')
+  .description('Push new content to posts that were already published')
+  .requiredOption('-f, --file <path>', 'Tool configuration file (JSON/YAML)')
+  .option('-p, --platforms <platforms>', 'Comma-separated list of platforms to update')
+  .option('-d, --dry-run', 'Preview what would be updated without editing any posts')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      const tool = await loadToolFromFile(options.file);
+
+      const validation = ToolValidator.validate(tool);
+      if (!validation.isValid) {
+        logger.error('Tool validation failed:', validation.errors);
+        process.exit(1);
+      }
+
+      const engine = createEngine(configManager);
+      const platforms = options.platforms ? options.platforms.split(',').map((p: string) => p.trim()) : undefined;
+
+      const result = await engine.updateTool(tool, {
+        platforms,
+        dryRun: options.dryRun
+      });
+
+      displayUpdateResults(result);
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error('Update failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('unpublish <toolId>')
+  .description('Delete every tracked post for a tool')
+  .option('-p, --platforms <platforms>', 'Comma-separated list of platforms to unpublish from')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (toolId: string, options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      const engine = createEngine(configManager);
+      const platforms = options.platforms ? options.platforms.split(',').map((p: string) => p.trim()) : undefined;
+
+      const result = await engine.unpublish(toolId, platforms);
+
+      displayUnpublishResults(result);
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error('Unpublish failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('preview')
+  .description('Preview the formatted post for each platform without publishing')
+  .requiredOption('-f, --file <path>', 'Tool configuration file (JSON/YAML)')
+  .option('-p, --platforms <platforms>', 'Comma-separated list of platforms to preview')
+  .option('-o, --output <path>', 'Write the preview to a Markdown (.md) or HTML (.html) report')
+  .option('--format <format>', 'Report format: terminal, markdown or html (defaults from the output extension)')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+      const tool = await loadToolFromFile(options.file);
+
+      const validation = ToolValidator.validate(tool);
+      if (!validation.isValid) {
+        logger.error('Tool validation failed:', validation.errors);
+        process.exit(1);
+      }
+
+      const platforms = options.platforms ? options.platforms.split(',').map((p: string) => p.trim()) : undefined;
+      const adapters = createAdapters(configManager)
+        .filter(adapter => !platforms || platforms.includes(adapter.platform));
+
+      if (adapters.length === 0) {
+        console.log('No enabled platforms to preview. Run "syndicate platforms" to check your configuration.');
+        process.exit(1);
+      }
+
+      const previews = await new ContentPreviewer(platformRegistry).preview(tool, adapters);
+      const format = resolvePreviewFormat(options.format, options.output);
+      const report = renderPreview(tool, previews, format);
+
+      if (options.output) {
+        fs.writeFileSync(options.output, report, 'utf8');
+        console.log(`✅ Preview written to ${options.output}`);
+      } else {
+        console.log(report);
+      }
+    } catch (error) {
+      logger.error('Preview failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('card')
+  .description('Render the Open Graph social card for a tool using the socialCard settings')
+  .requiredOption('-f, --file <path>', 'Tool configuration file (JSON/YAML)')
+  .option('-o, --output <path>', 'Write the card here instead of the card cache')
+  .option('--format <format>', 'Card format: png or svg (defaults from the output extension)')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (options) => {
+    try {
+      const config = (await loadConfiguration(options.config)).getConfig();
+      const tool = await loadToolFromFile(options.file);
+      const extension = options.output ? path.extname(options.output).slice(1).toLowerCase() : '';
+      const format = (options.format || (['png', 'svg'].includes(extension) ? extension : undefined)) as SocialCardFormat | undefined;
+      const generator = new SocialCardGenerator(
+        { ...config.socialCard, ...(format && { format }) },
+        config.socialCard?.cacheDir || path.join(config.storage.directory, 'cards')
+      );
+
+      if (options.output) {
+        fs.writeFileSync(options.output, generator.render(tool));
+        console.log(`✅ Social card written to ${options.output}`);
+      } else {
+        console.log(`✅ Social card: ${generator.generate(tool).src}`);
+      }
+    } catch (error) {
+      logger.error('Failed to render social card:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('init-tool')
+  .description('Generate a tool file from package.json, the README and the latest git tag')
+  .option('-d, --dir <path>', 'Project directory to read', '.')
+  .option('-o, --output <path>', 'Tool file to write (JSON/YAML)', 'tool.json')
+  .option('-s, --section <heading>', 'README section to use as the long description')
+  .option('-c, --categories <categories>', 'Comma-separated categories')
+  .option('-a, --audience <audience>', 'Comma-separated target audience')
+  .option('--force', 'Overwrite an existing tool file')
+  .action(async (options) => {
+    try {
+      const outputPath = path.resolve(options.output);
+      if (fs.existsSync(outputPath) && !options.force) {
+        console.log(`❌ ${options.output} already exists. Use --force to overwrite it.`);
+        process.exit(1);
+      }
+
+      const tool = new ToolGenerator(options.dir).generate({
+        readmeSection: options.section,
+        category: options.categories ? options.categories.split(',').map((c: string) => c.trim()) : undefined,
+        targetAudience: options.audience ? options.audience.split(',').map((a: string) => a.trim()) : undefined
+      });
+
+      const validation = ToolValidator.validate(tool);
+      if (!validation.isValid) {
+        logger.error('Generated tool is invalid:', validation.errors);
+        process.exit(1);
+      }
+
+      fs.writeFileSync(outputPath, serializeTool(tool, outputPath), 'utf8');
+
+      console.log(`✅ Tool file written: ${options.output}`);
+      console.log(`   ${tool.name}${tool.version ? ` v${tool.version}` : ''} - ${tool.shortDescription}`);
+      console.log('💡 Review the categories and target audience before syndicating.');
+    } catch (error) {
+      logger.error('Failed to generate tool file:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('config')
   .description('Configuration management')
@@ -151,10 +403,11 @@ program
   .option('--config <path>', 'Path to configuration file')
   .action(async (options) => {
     try {
-      const configManager = new ConfigManager();
-      await configManager.loadConfig();
+      const configManager = await loadConfiguration(options.config);
 
       const config = configManager.getConfig();
+      const rateLimitStore = createRateLimitStore(config.storage);
+      const rateLimitBackend = config.rateLimiter.backend !== 'process' ? createRateLimitBackend(config.rateLimiter) : undefined;
       
       console.log('\n📋 Platform Status\n');
       console.log('Platform'.padEnd(15) + 'Status'.padEnd(10) + 'Configuration');
@@ -168,6 +421,20 @@ program
           status.padEnd(10) + 
           `Auth: ${authType}`
         );
+
+        if (platform.enabled && platform.rateLimit) {
+          const limiter = rateLimitBackend
+            ? new SharedRateLimiter(platform.platform, platform.rateLimit, rateLimitBackend)
+            : new CompositeRateLimiter(platform.platform, platform.rateLimit, rateLimitStore);
+          console.log(' '.repeat(25) + formatQuota(limiter.getQuota()));
+        }
+      }
+
+      const unconfigured = platformRegistry.list()
+        .filter(definition => !config.platforms.some(platform => platform.platform === definition.name));
+
+      for (const definition of unconfigured) {
+        console.log(definition.name.padEnd(15) + '⚪ Not configured');
       }
 
       if (config.platforms.length === 0) {
@@ -179,6 +446,196 @@ program
     }
   });
 
+program
+  .command('worker')
+  .description('Publish scheduled jobs as they become due')
+  .option('--once', 'Drain due jobs once and exit instead of polling')
+  .option('--interval <seconds>', 'Polling interval in seconds', '60')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      const scheduler = createScheduler(configManager);
+      const worker = new SchedulerWorker(createEngine(configManager), scheduler, createToolRegistry(configManager));
+
+      if (options.once) {
+        const summary = await worker.drainDueJobs();
+        console.log(`\n⏰ Processed ${summary.processed} due job(s): ✅ ${summary.completed} completed, ❌ ${summary.failed} failed\n`);
+
+        if (summary.failed > 0) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const intervalSeconds = parseInt(options.interval, 10);
+      if (isNaN(intervalSeconds) || intervalSeconds <= 0) {
+        throw new Error('Interval must be a positive number of seconds');
+      }
+
+      process.on('SIGINT', () => worker.stop());
+      process.on('SIGTERM', () => worker.stop());
+
+      await worker.run(intervalSeconds * 1000);
+    } catch (error) {
+      logger.error('Worker failed:', error);
+      process.exit(1);
+    }
+  });
+
+const scheduleCommand = program
+  .command('schedule')
+  .description('Manage scheduled publications');
+
+scheduleCommand
+  .command('list')
+  .description('List scheduled jobs')
+  .option('--all', 'Include completed, failed and cancelled jobs')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      const jobs = createScheduler(configManager)
+        .listJobs(options.all ? undefined : ScheduledJobStatus.PENDING);
+
+      if (jobs.length === 0) {
+        console.log('No scheduled jobs.');
+        return;
+      }
+
+      console.log('\n⏰ Scheduled Jobs\n');
+      console.log('Job ID'.padEnd(70) + 'Platform'.padEnd(15) + 'Status'.padEnd(12) + 'Publish At');
+      console.log('-'.repeat(125));
+
+      for (const job of jobs) {
+        console.log(
+          job.id.padEnd(70) +
+          job.platform.padEnd(15) +
+          job.status.padEnd(12) +
+          job.publishAt.toISOString() +
+          (job.error ? `  (${job.error})` : '')
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to list scheduled jobs:', error);
+      process.exit(1);
+    }
+  });
+
+scheduleCommand
+  .command('cancel <jobId>')
+  .description('Cancel a pending scheduled job')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (jobId: string, options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      if (!createScheduler(configManager).cancel(jobId)) {
+        console.log(`❌ No pending job found: ${jobId}`);
+        process.exit(1);
+      }
+
+      console.log(`✅ Cancelled scheduled job ${jobId}`);
+    } catch (error) {
+      logger.error('Failed to cancel scheduled job:', error);
+      process.exit(1);
+    }
+  });
+
+const toolsCommand = program
+  .command('tools')
+  .description('Manage registered tool snapshots');
+
+toolsCommand
+  .command('list')
+  .description('List registered tools and their latest version')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      const registry = createToolRegistry(configManager);
+      const snapshots = registry.list();
+
+      if (snapshots.length === 0) {
+        console.log('No tools registered. Syndicate a tool to register it.');
+        return;
+      }
+
+      console.log('\n🧰 Registered Tools\n');
+      console.log('ID'.padEnd(30) + 'Latest Version'.padEnd(20) + 'Versions'.padEnd(10) + 'Registered');
+      console.log('-'.repeat(90));
+
+      for (const snapshot of snapshots) {
+        const versionCount = registry.listVersions(snapshot.toolId).length;
+        console.log(
+          snapshot.toolId.padEnd(30) +
+          snapshot.version.padEnd(20) +
+          String(versionCount).padEnd(10) +
+          snapshot.registeredAt.toISOString()
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to list tools:', error);
+      process.exit(1);
+    }
+  });
+
+toolsCommand
+  .command('show <id>')
+  .description('Show a registered tool snapshot')
+  .option('--tool-version <version>', 'Show a specific version instead of the latest')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (id: string, options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      const registry = createToolRegistry(configManager);
+      const snapshot = registry.getSnapshot(id, options.toolVersion);
+
+      if (!snapshot) {
+        console.log(`❌ Tool not found: ${id}${options.toolVersion ? ` (version ${options.toolVersion})` : ''}`);
+        process.exit(1);
+      }
+
+      const versions = registry.listVersions(id).map(s => s.version);
+      console.log(`\n🧰 ${snapshot.tool.name} (${snapshot.toolId})\n`);
+      console.log(`  Version: ${snapshot.version}`);
+      console.log(`  Registered: ${snapshot.registeredAt.toISOString()}`);
+      console.log(`  Checksum: ${snapshot.checksum}`);
+      console.log(`  All versions: ${versions.join(', ')}\n`);
+      console.log(JSON.stringify(snapshot.tool, null, 2));
+    } catch (error) {
+      logger.error('Failed to show tool:', error);
+      process.exit(1);
+    }
+  });
+
+toolsCommand
+  .command('remove <id>')
+  .description('Remove a registered tool (all versions unless --tool-version is given)')
+  .option('--tool-version <version>', 'Remove only this version')
+  .option('--config <path>', 'Path to configuration file')
+  .action(async (id: string, options) => {
+    try {
+      const configManager = await loadConfiguration(options.config);
+
+      const removed = createToolRegistry(configManager).remove(id, options.toolVersion);
+
+      if (removed === 0) {
+        console.log(`❌ Tool not found: ${id}`);
+        process.exit(1);
+      }
+
+      console.log(`✅ Removed ${removed} snapshot(s) of ${id}`);
+    } catch (error) {
+      logger.error('Failed to remove tool:', error);
+      process.exit(1);
+    }
+  });
+
 async function loadToolFromFile(filePath: string): Promise<Tool> {
   const fullPath = path.resolve(filePath);
   
@@ -200,6 +657,10 @@ async function loadToolFromFile(filePath: string): Promise<Tool> {
     throw new Error(`Unsupported file format: ${ext}. Use .json, .yaml, or .yml`);
   }
 
+  // Inline the Markdown referenced by longDescriptionFile
+  toolData = resolveLongDescription(toolData, path.dirname(fullPath));
+  toolData = resolveToolImages(toolData, path.dirname(fullPath));
+
   // Generate ID if not provided
   if (!toolData.id) {
     toolData.id = generateToolId(toolData.name);
@@ -208,6 +669,19 @@ async function loadToolFromFile(filePath: string): Promise<Tool> {
   return toolData as Tool;
 }
 
+function serializeTool(tool: Tool, filePath: string): string {
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (ext === '.json') {
+    return JSON.stringify(tool, null, 2);
+  } else if (ext === '.yaml' || ext === '.yml') {
+    const yaml = require('js-yaml');
+    return yaml.dump(tool, { lineWidth: -1 });
+  }
+
+  throw new Error(`Unsupported file format: ${ext}. Use .json, .yaml, or .yml`);
+}
+
 interface CliOptions {
   toolName?: string;
   toolUrl?: string;
@@ -243,55 +717,180 @@ function createToolFromOptions(options: CliOptions): Tool {
   return tool;
 }
 
-function generateToolId(name: string): string {
-  return name.toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '');
+function parsePublishAt(value: string): Record<string, Date> {
+  const publishAt: Record<string, Date> = {};
+
+  for (const entry of value.split(',').map(e => e.trim()).filter(e => e.length > 0)) {
+    const separator = entry.indexOf('=');
+    const platform = separator > 0 ? entry.substring(0, separator).trim() : '*';
+    const time = separator > 0 ? entry.substring(separator + 1).trim() : entry;
+    const date = new Date(time);
+
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid publish time for ${platform === '*' ? 'all platforms' : platform}: ${time}`);
+    }
+
+    publishAt[platform] = date;
+  }
+
+  return publishAt;
+}
+
+function resolvePreviewFormat(format: string | undefined, output: string | undefined): PreviewFormat {
+  if (format) {
+    if (!['terminal', 'markdown', 'html'].includes(format)) {
+      throw new Error(`Unsupported preview format: ${format}`);
+    }
+    return format as PreviewFormat;
+  }
+
+  const ext = output ? path.extname(output).toLowerCase() : '';
+  if (ext === '.html' || ext === '.htm') {
+    return 'html';
+  }
+
+  return output ? 'markdown' : 'terminal';
+}
+
+// --config replaces the lookup of syndication.config.* in the working directory; environment variables still apply
+async function loadConfiguration(configPath?: string, configManager = new ConfigManager()): Promise<ConfigManager> {
+  const sources: ConfigSource[] | undefined = configPath
+    ? [{ type: 'env' }, { type: 'file', path: path.resolve(configPath) }]
+    : undefined;
+
+  await configManager.loadConfig(sources);
+
+  const { loaded } = new PluginLoader(platformRegistry).load(configManager.getConfig().plugins);
+
+  // Reload so plugin platforms can contribute their environment-based configs
+  if (loaded.length > 0) {
+    await configManager.loadConfig(sources);
+  }
+
+  return configManager;
 }
 
 function createAdapters(configManager: ConfigManager) {
   const adapters = [];
   const config = configManager.getConfig();
+  const rateLimitStore = createRateLimitStore(config.storage);
+  const rateLimitBackend = config.rateLimiter.backend !== 'process' ? createRateLimitBackend(config.rateLimiter) : undefined;
 
   for (const platformConfig of config.platforms) {
     if (!platformConfig.enabled) continue;
 
-    switch (platformConfig.platform) {
-      case 'reddit':
-        adapters.push(new RedditAdapter(platformConfig as RedditConfig));
-        break;
-      case 'dev.to':
-        adapters.push(new DevToAdapter(platformConfig as DevToConfig));
-        break;
-      case 'github':
-        adapters.push(new GitHubAdapter(platformConfig as GitHubConfig));
-        break;
-      default:
-        logger.warn(`Unknown platform: ${platformConfig.platform}`);
+    if (!platformRegistry.has(platformConfig.platform)) {
+      logger.warn(`Unknown platform: ${platformConfig.platform}`);
+      continue;
+    }
+
+    try {
+      const adapter = platformRegistry.createAdapter({
+        ...platformConfig,
+        templates: configManager.getPlatformTemplates(platformConfig.platform)
+      });
+      if (rateLimitBackend) {
+        adapter.useRateLimitBackend?.(rateLimitBackend);
+      } else {
+        adapter.useRateLimitStore?.(rateLimitStore);
+      }
+      adapters.push(adapter);
+    } catch (error) {
+      logger.error(`Skipping platform ${platformConfig.platform}:`, error);
     }
   }
 
   return adapters;
 }
 
+function formatQuota(quota: RateLimitQuota[]): string {
+  const windows = quota.map(({ window, limit, remaining }) => `${remaining}/${limit} per ${window}`);
+  const resetTimes = quota
+    .filter(({ remaining, resetsAt }) => remaining === 0 && resetsAt)
+    .map(({ resetsAt }) => resetsAt!.getTime());
+  const resets = resetTimes.length > 0 ? ` (next request at ${new Date(Math.max(...resetTimes)).toLocaleString()})` : '';
+
+  return `Quota: ${windows.join(', ')} remaining${resets}`;
+}
+
+function createEngine(configManager: ConfigManager): SyndicationEngine {
+  const config = configManager.getConfig();
+
+  const engine = new SyndicationEngine(configManager, [], {
+    publicationStore: createPublicationStore(config.storage),
+    toolRegistry: createToolRegistry(configManager),
+    scheduler: createScheduler(configManager)
+  });
+
+  createAdapters(configManager).forEach(adapter => engine.registerAdapter(adapter));
+
+  return engine;
+}
+
+function createScheduler(configManager: ConfigManager): Scheduler {
+  return new Scheduler(createJobStore(configManager.getConfig().storage));
+}
+
+function createToolRegistry(configManager: ConfigManager): ToolRegistry {
+  return new ToolRegistry(createToolStore(configManager.getConfig().storage));
+}
+
+function describeFailure(publication: Publication): string {
+  const category = publication.errorCategory && publication.errorCategory !== 'unknown'
+    ? ` (${publication.errorCategory.replace(/_/g, ' ')})`
+    : '';
+  return `${publication.error}${category}`;
+}
+
+// The most actionable category among the failed publications; unsuccessful runs without one exit with 1
+function exitCodeFor(results: SyndicationResult[]): ExitCode {
+  const failed = results.flatMap(result => result.publications).filter(hasFailed);
+  return failed.length > 0 ? exitCodeForCategories(failed.map(pub => pub.errorCategory)) : ExitCode.FAILURE;
+}
+
 function displayResults(result: SyndicationResult) {
-  console.log(`\n🚀 Syndication Results for: ${result.tool.name}\n`);
+  const release = result.tool.release ? ` ${result.tool.release.version} release` : '';
+  console.log(`\n🚀 Syndication Results for: ${result.tool.name}${release}\n`);
   
   console.log('📊 Summary:');
   console.log(`  Total: ${result.summary.total}`);
   console.log(`  ✅ Successful: ${result.summary.successful}`);
   console.log(`  ❌ Failed: ${result.summary.failed}`);
   console.log(`  ⏭️  Skipped: ${result.summary.skipped}`);
+  console.log(`  ⏰ Scheduled: ${result.summary.scheduled}`);
+
+  if (result.summary.pending > 0) {
+    console.log(`  ⏳ Unfinished: ${result.summary.pending}`);
+  }
+
+  if (result.summary.partial > 0) {
+    console.log(`  ⚠️  Partially published platforms: ${result.summary.partial}`);
+  }
   
   console.log('\n📝 Publications:');
   result.publications.forEach((pub) => {
     const status = pub.status === 'success' ? '✅' : 
                    pub.status === 'failed' ? '❌' : 
+                   pub.status === 'retrying' ? '🔁' :
+                   pub.status === 'skipped' ? '⏭️ ' :
                    pub.status === 'in_progress' ? '🔄' : '⏳';
     
-    console.log(`  ${status} ${pub.platform}: ${pub.url || pub.error || 'Pending'}`);
+    const detail = pub.status === 'skipped'
+      ? `Already published${pub.url ? ` (${pub.url})` : ''}`
+      : pub.status === 'retrying'
+        ? `${describeFailure(pub)} (retrying after ${pub.nextAttemptAt?.toLocaleString()})`
+        : pub.url || (pub.error && describeFailure(pub)) || 'Pending';
+
+    console.log(`  ${status} ${formatPublicationTarget(pub)}: ${detail}`);
   });
 
+  if (result.scheduledJobs.length > 0) {
+    console.log('\n⏰ Scheduled:');
+    result.scheduledJobs.forEach((job) => {
+      console.log(`  ⏰ ${job.platform}: ${job.publishAt.toISOString()} (job ${job.id})`);
+    });
+  }
+
   if (result.errors.length > 0) {
     console.log('\n❌ Errors:');
     result.errors.forEach((error: string) => {
@@ -302,6 +901,80 @@ function displayResults(result: SyndicationResult) {
   console.log(`\n${result.success ? '✅ Syndication completed successfully!' : '❌ Syndication completed with errors'}\n`);
 }
 
+function displayUpdateResults(result: UpdateResult) {
+  console.log(`\n✏️  Update Results for: ${result.tool.name}\n`);
+
+  if (result.summary.total === 0) {
+    console.log('No published posts found for this tool.\n');
+    return;
+  }
+
+  console.log('📊 Summary:');
+  console.log(`  Total: ${result.summary.total}`);
+  console.log(`  ✅ Updated: ${result.summary.updated}`);
+  console.log(`  ❌ Failed: ${result.summary.failed}`);
+  console.log(`  🚫 Not editable: ${result.summary.unsupported}`);
+
+  console.log('\n📝 Posts:');
+  result.updates.forEach((update) => {
+    const status = update.status === 'updated' ? '✅' :
+                   update.status === 'failed' ? '❌' : '🚫';
+    const detail = update.status === 'updated'
+      ? update.publication.url || update.publication.platformPostId
+      : update.error;
+
+    console.log(`  ${status} ${formatPublicationTarget(update.publication)}: ${detail}`);
+  });
+
+  if (result.errors.length > 0) {
+    console.log('\n❌ Errors:');
+    result.errors.forEach((error: string) => {
+      console.log(`  • ${error}`);
+    });
+  }
+
+  console.log(`\n${result.success ? '✅ Update completed successfully!' : '❌ Update completed with errors'}\n`);
+}
+
+function displayUnpublishResults(result: UnpublishResult) {
+  console.log(`\n🗑️  Unpublish Results for: ${result.toolId}\n`);
+
+  if (result.summary.total === 0) {
+    console.log('No published posts found for this tool.\n');
+    return;
+  }
+
+  console.log('📊 Summary:');
+  console.log(`  Total: ${result.summary.total}`);
+  console.log(`  ✅ Deleted: ${result.summary.deleted}`);
+  console.log(`  ❌ Failed: ${result.summary.failed}`);
+  console.log(`  🚫 Not deletable: ${result.summary.unsupported}`);
+
+  console.log('\n📝 Posts:');
+  result.deletions.forEach((deletion) => {
+    const status = deletion.status === 'deleted' ? '✅' :
+                   deletion.status === 'failed' ? '❌' : '🚫';
+    const detail = deletion.status === 'deleted'
+      ? `Deleted ${deletion.publication.url || deletion.publication.platformPostId}`
+      : deletion.error;
+
+    console.log(`  ${status} ${formatPublicationTarget(deletion.publication)}: ${detail}`);
+  });
+
+  if (result.summary.unsupported > 0) {
+    console.log('\n⚠️  Posts on platforms without delete support must be removed manually.');
+  }
+
+  if (result.errors.length > 0) {
+    console.log('\n❌ Errors:');
+    result.errors.forEach((error: string) => {
+      console.log(`  • ${error}`);
+    });
+  }
+
+  console.log(`\n${result.success ? '✅ Unpublish completed successfully!' : '❌ Unpublish completed with errors'}\n`);
+}
+
 async function initializeConfig(configManager: ConfigManager) {
   const defaultConfig = {
     version: "1.0.0",
@@ -310,12 +983,12 @@ async function initializeConfig(configManager: ConfigManager) {
     defaultRetries: 3,
     logLevel: "info",
     platforms: [],
-    templates: {
-      default: "{name}: {shortDescription}\n\n{url}",
-      reddit: "{name} - {shortDescription}",
-      twitter: "🚀 {name}: {shortDescription} {url}",
-      github: "## {name}\n\n{shortDescription}\n\n**Link:** {url}"
-    }
+    storage: {
+      type: "json",
+      directory: ".syndication"
+    },
+    plugins: [],
+    templates: {}
   };
 
   await configManager.loadConfig([{ type: 'inline', data: defaultConfig }]);
@@ -326,8 +999,15 @@ async function initializeConfig(configManager: ConfigManager) {
 
 async function validateConfig(configManager: ConfigManager) {
   try {
-    await configManager.loadConfig();
+    await loadConfiguration(undefined, configManager);
     const config = configManager.getConfig();
+
+    const settingsErrors = config.platforms.flatMap(platform =>
+      platformRegistry.validateSettings(platform).errors.map(error => `${platform.platform}: ${error}`)
+    );
+    if (settingsErrors.length > 0) {
+      throw new Error(settingsErrors.join('; '));
+    }
     
     console.log('✅ Configuration is valid');
     console.log(`📋 Found ${config.platforms.length} platform(s) configured`);
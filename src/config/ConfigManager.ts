@@ -1,7 +1,32 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
-import { PlatformConfig } from '../models';
+import { DEFAULT_RETRY_POLICY, PlatformConfig, PlatformTemplates, RetryPolicy } from '../models';
+import { PlatformRegistry, platformRegistry } from '../platforms';
+import { SocialCardOptions, validateSocialCardOptions } from '../media';
+import { Logger } from '../utils/Logger';
+
+export interface StorageConfig {
+  type: 'memory' | 'json' | 'sqlite';
+  directory: string;
+}
+
+// 'process' keeps token buckets inside each process; 'file' and 'sqlite' share them with every process on the machine
+export interface RateLimiterConfig {
+  backend: 'process' | 'file' | 'sqlite';
+  // Defaults to a directory under the system temp dir, so separate checkouts share one budget
+  directory?: string;
+}
+
+// A template entry is either an inline title template or title/body templates given inline or as file paths.
+// Multi-line strings are ignored: configs written by older versions of `config --init` used them as post bodies
+// that were never applied, and reading them as titles would suddenly post Markdown headlines.
+export interface TemplateConfig {
+  title?: string;
+  body?: string;
+  titleFile?: string;
+  bodyFile?: string;
+}
 
 export interface GlobalConfig {
   version: string;
@@ -11,8 +36,16 @@ export interface GlobalConfig {
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   platforms: PlatformConfig[];
   templates: {
-    [key: string]: string;
+    [platform: string]: string | TemplateConfig;
   };
+  storage: StorageConfig;
+  rateLimiter: RateLimiterConfig;
+  // Backoff before `syndicate retry --due` picks up a retryable failure again
+  retryQueue: RetryPolicy;
+  // Paths or package names of adapter plugins, loaded in addition to installed syndication-adapter-* packages
+  plugins: string[];
+  // Generated Open Graph card used as the default image when a tool has no social card of its own
+  socialCard?: SocialCardOptions;
 }
 
 export interface ConfigSource {
@@ -24,8 +57,14 @@ export interface ConfigSource {
 export class ConfigManager {
   private config: GlobalConfig | null = null;
   private configSources: ConfigSource[] = [];
+  private logger: Logger;
 
-  constructor(private baseDir: string = process.cwd()) {}
+  constructor(
+    private baseDir: string = process.cwd(),
+    private platforms: PlatformRegistry = platformRegistry
+  ) {
+    this.logger = new Logger('ConfigManager');
+  }
 
   async loadConfig(sources?: ConfigSource[]): Promise<GlobalConfig> {
     this.configSources = sources || this.getDefaultSources();
@@ -56,6 +95,57 @@ export class ConfigManager {
     return this.getConfig().platforms.filter(p => p.enabled);
   }
 
+  // Platform templates fall back field by field to templates.default
+  getPlatformTemplates(platform: string): PlatformTemplates {
+    const templates = this.getConfig().templates;
+    const own = this.normalizeTemplateConfig(templates[platform]);
+    const fallback = this.normalizeTemplateConfig(templates.default);
+
+    const result: PlatformTemplates = {};
+    const title = this.resolveTemplate(own, 'title') ?? this.resolveTemplate(fallback, 'title');
+    const body = this.resolveTemplate(own, 'body') ?? this.resolveTemplate(fallback, 'body');
+
+    if (title !== undefined) {
+      result.title = title;
+    }
+
+    if (body !== undefined) {
+      result.body = body;
+    }
+
+    return result;
+  }
+
+  private normalizeTemplateConfig(entry: string | TemplateConfig | undefined): TemplateConfig {
+    if (entry === undefined) {
+      return {};
+    }
+
+    if (typeof entry === 'string') {
+      return isLegacyTemplate(entry) ? {} : { title: entry };
+    }
+
+    return entry;
+  }
+
+  private resolveTemplate(entry: TemplateConfig, field: 'title' | 'body'): string | undefined {
+    if (entry[field] !== undefined) {
+      return entry[field];
+    }
+
+    const file = field === 'title' ? entry.titleFile : entry.bodyFile;
+    if (file === undefined) {
+      return undefined;
+    }
+
+    const filePath = path.resolve(this.baseDir, file);
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to read ${field} template from ${filePath}: ${error}`);
+    }
+  }
+
   updatePlatformConfig(platform: string, updates: Partial<PlatformConfig>): void {
     if (!this.config) {
       throw new Error('Configuration not loaded');
@@ -100,7 +190,7 @@ export class ConfigManager {
   private async loadFromSource(source: ConfigSource): Promise<Partial<GlobalConfig>> {
     switch (source.type) {
       case 'file':
-        return this.loadFromFile(source.path!);
+        return this.resolveTemplateFiles(await this.loadFromFile(source.path!), path.dirname(source.path!));
       case 'env':
         return this.loadFromEnvironment();
       case 'inline':
@@ -127,6 +217,24 @@ export class ConfigManager {
     }
   }
 
+  // Template files are relative to the config file that names them, not to the directory the CLI runs in
+  private resolveTemplateFiles(config: Partial<GlobalConfig>, configDir: string): Partial<GlobalConfig> {
+    if (!config.templates) {
+      return config;
+    }
+
+    const templates: GlobalConfig['templates'] = {};
+    for (const [platform, entry] of Object.entries(config.templates)) {
+      templates[platform] = typeof entry === 'string' ? entry : {
+        ...entry,
+        ...(entry.titleFile !== undefined && { titleFile: path.resolve(configDir, entry.titleFile) }),
+        ...(entry.bodyFile !== undefined && { bodyFile: path.resolve(configDir, entry.bodyFile) })
+      };
+    }
+
+    return { ...config, templates };
+  }
+
   private loadFromEnvironment(): Partial<GlobalConfig> {
     const config: Partial<GlobalConfig> = {};
 
@@ -146,6 +254,38 @@ export class ConfigManager {
       config.defaultRetries = parseInt(process.env.SYNDICATION_DEFAULT_RETRIES, 10);
     }
 
+    if (process.env.SYNDICATION_PLUGINS) {
+      config.plugins = process.env.SYNDICATION_PLUGINS.split(',').map(plugin => plugin.trim()).filter(Boolean);
+    }
+
+    const storage: Partial<StorageConfig> = {};
+
+    if (process.env.SYNDICATION_STORAGE_TYPE) {
+      storage.type = process.env.SYNDICATION_STORAGE_TYPE as StorageConfig['type'];
+    }
+
+    if (process.env.SYNDICATION_STORAGE_DIR) {
+      storage.directory = process.env.SYNDICATION_STORAGE_DIR;
+    }
+
+    if (Object.keys(storage).length > 0) {
+      config.storage = storage as StorageConfig;
+    }
+
+    const rateLimiter: Partial<RateLimiterConfig> = {};
+
+    if (process.env.SYNDICATION_RATE_LIMIT_BACKEND) {
+      rateLimiter.backend = process.env.SYNDICATION_RATE_LIMIT_BACKEND as RateLimiterConfig['backend'];
+    }
+
+    if (process.env.SYNDICATION_RATE_LIMIT_DIR) {
+      rateLimiter.directory = process.env.SYNDICATION_RATE_LIMIT_DIR;
+    }
+
+    if (Object.keys(rateLimiter).length > 0) {
+      config.rateLimiter = rateLimiter as RateLimiterConfig;
+    }
+
     // Load platform-specific environment variables
     config.platforms = this.loadPlatformConfigsFromEnv();
 
@@ -153,104 +293,7 @@ export class ConfigManager {
   }
 
   private loadPlatformConfigsFromEnv(): PlatformConfig[] {
-    const platforms: PlatformConfig[] = [];
-
-    // Reddit
-    if (process.env.REDDIT_CLIENT_ID && process.env.REDDIT_CLIENT_SECRET) {
-      platforms.push({
-        platform: 'reddit',
-        enabled: process.env.REDDIT_ENABLED !== 'false',
-        baseUrl: 'https://oauth.reddit.com',
-        auth: {
-          type: 'oauth2',
-          clientId: process.env.REDDIT_CLIENT_ID,
-          clientSecret: process.env.REDDIT_CLIENT_SECRET,
-          refreshToken: process.env.REDDIT_REFRESH_TOKEN,
-          scopes: ['submit', 'read']
-        },
-        rateLimit: {
-          requestsPerMinute: 60,
-          requestsPerHour: 600,
-          requestsPerDay: 1000,
-          burstLimit: 10
-        },
-        retryConfig: {
-          maxRetries: 3,
-          baseDelay: 1000,
-          maxDelay: 30000,
-          backoffMultiplier: 2
-        },
-        settings: {
-          subreddits: process.env.REDDIT_SUBREDDITS?.split(',') || ['programming'],
-          postType: 'link' as const,
-          titleTemplate: process.env.REDDIT_TITLE_TEMPLATE
-        }
-      });
-    }
-
-    // Dev.to
-    if (process.env.DEVTO_API_KEY) {
-      platforms.push({
-        platform: 'dev.to',
-        enabled: process.env.DEVTO_ENABLED !== 'false',
-        baseUrl: 'https://dev.to/api',
-        auth: {
-          type: 'api_key',
-          apiKey: process.env.DEVTO_API_KEY
-        },
-        rateLimit: {
-          requestsPerMinute: 30,
-          requestsPerHour: 300,
-          requestsPerDay: 1000,
-          burstLimit: 5
-        },
-        retryConfig: {
-          maxRetries: 3,
-          baseDelay: 1000,
-          maxDelay: 30000,
-          backoffMultiplier: 2
-        },
-        settings: {
-          published: process.env.DEVTO_PUBLISHED !== 'false',
-          tags: process.env.DEVTO_TAGS?.split(',') || ['opensource', 'tools'],
-          titleTemplate: process.env.DEVTO_TITLE_TEMPLATE,
-          canonicalUrl: process.env.DEVTO_CANONICAL_URL
-        }
-      });
-    }
-
-    // GitHub
-    if (process.env.GITHUB_TOKEN) {
-      platforms.push({
-        platform: 'github',
-        enabled: process.env.GITHUB_ENABLED !== 'false',
-        baseUrl: 'https://api.github.com',
-        auth: {
-          type: 'token',
-          token: process.env.GITHUB_TOKEN
-        },
-        rateLimit: {
-          requestsPerMinute: 60,
-          requestsPerHour: 5000,
-          requestsPerDay: 5000,
-          burstLimit: 10
-        },
-        retryConfig: {
-          maxRetries: 3,
-          baseDelay: 1000,
-          maxDelay: 30000,
-          backoffMultiplier: 2
-        },
-        settings: {
-          repositories: process.env.GITHUB_REPOSITORIES?.split(',') || [],
-          discussionCategory: process.env.GITHUB_DISCUSSION_CATEGORY || 'General',
-          titleTemplate: process.env.GITHUB_TITLE_TEMPLATE,
-          labels: process.env.GITHUB_LABELS?.split(',')
-        }
-      });
-    }
-
-    return platforms;
+    return this.platforms.loadConfigsFromEnv(process.env);
   }
 
   private mergeConfigs(target: Partial<GlobalConfig>, source: Partial<GlobalConfig>): Partial<GlobalConfig> {
@@ -264,6 +307,15 @@ export class ConfigManager {
       } else if (key === 'templates') {
         // Merge templates object
         result.templates = { ...target.templates, ...source.templates };
+      } else if (key === 'storage') {
+        // Merge storage settings so a file can override just the type or directory
+        result.storage = { ...target.storage, ...source.storage } as StorageConfig;
+      } else if (key === 'retryQueue') {
+        result.retryQueue = { ...target.retryQueue, ...source.retryQueue } as RetryPolicy;
+      } else if (key === 'rateLimiter') {
+        result.rateLimiter = { ...target.rateLimiter, ...source.rateLimiter } as RateLimiterConfig;
+      } else if (key === 'socialCard') {
+        result.socialCard = { ...target.socialCard, ...source.socialCard };
       } else {
         (result as Record<string, unknown>)[key] = (source as Record<string, unknown>)[key];
       }
@@ -300,15 +352,23 @@ export class ConfigManager {
       defaultRetries: 3,
       logLevel: 'info',
       platforms: [],
-      templates: {
-        default: '{name}: {shortDescription}\n\n{url}',
-        reddit: '{name} - {shortDescription}',
-        twitter: '🚀 {name}: {shortDescription} {url}',
-        github: '## {name}\n\n{shortDescription}\n\n**Link:** {url}'
-      }
+      // No templates by default so each adapter's built-in title and body are used
+      templates: {},
+      storage: {
+        type: 'json',
+        directory: '.syndication'
+      },
+      rateLimiter: {
+        backend: 'process'
+      },
+      retryQueue: DEFAULT_RETRY_POLICY,
+      plugins: []
     };
 
     const result = { ...defaults, ...config };
+    result.storage = { ...defaults.storage, ...config.storage };
+    result.rateLimiter = { ...defaults.rateLimiter, ...config.rateLimiter };
+    result.retryQueue = { ...defaults.retryQueue, ...config.retryQueue };
 
     // Validate required fields
     if (!result.version) {
@@ -323,6 +383,54 @@ export class ConfigManager {
       throw new Error('Default retries must be non-negative');
     }
 
+    Object.entries(result.templates).forEach(([platform, entry]) => {
+      if (typeof entry === 'string') {
+        if (isLegacyTemplate(entry)) {
+          this.logger.warn(
+            `Ignoring multi-line template for ${platform}: string templates are titles. ` +
+            `Move it to { "body": ... } to use it as the post body, or remove it.`
+          );
+        }
+        return;
+      }
+
+      if (!entry || typeof entry !== 'object') {
+        throw new Error(`Template for ${platform} must be a string or an object with title/body templates`);
+      }
+
+      if (entry.title !== undefined && entry.titleFile !== undefined) {
+        throw new Error(`Template for ${platform} cannot set both title and titleFile`);
+      }
+
+      if (entry.body !== undefined && entry.bodyFile !== undefined) {
+        throw new Error(`Template for ${platform} cannot set both body and bodyFile`);
+      }
+    });
+
+    if (!Array.isArray(result.plugins)) {
+      throw new Error('Plugins must be a list of paths or package names');
+    }
+
+    if (!['memory', 'json', 'sqlite'].includes(result.storage.type)) {
+      throw new Error('Storage type must be "memory", "json", or "sqlite"');
+    }
+
+    if (!['process', 'file', 'sqlite'].includes(result.rateLimiter.backend)) {
+      throw new Error('Rate limiter backend must be "process", "file", or "sqlite"');
+    }
+
+    const { baseDelay, maxDelay, backoffMultiplier } = result.retryQueue;
+    if (!(baseDelay > 0) || !(maxDelay >= baseDelay) || !(backoffMultiplier >= 1)) {
+      throw new Error('Retry queue needs a positive baseDelay, a maxDelay of at least baseDelay and a backoffMultiplier of at least 1');
+    }
+
+    if (result.socialCard !== undefined) {
+      const errors = validateSocialCardOptions(result.socialCard);
+      if (errors.length > 0) {
+        throw new Error(errors[0]);
+      }
+    }
+
     return result;
   }
 
@@ -336,4 +444,8 @@ export class ConfigManager {
     
     fs.writeFileSync(outputPath, configData, 'utf8');
   }
+}
+
+function isLegacyTemplate(template: string): boolean {
+  return template.includes('\n');
 }
\ No newline at end of file
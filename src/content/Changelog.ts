@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import { ToolRelease } from '../models';
+
+// Matches release headings from Keep a Changelog ("## [1.2.0] - 2024-05-01") and
+// conventional-changelog ("# [1.2.0](https://…/compare/v1.1.0...v1.2.0) (2024-05-01)", "### 1.2.1 (2024-05-02)")
+const RELEASE_HEADING_PATTERN = /^\s{0,3}#{1,3}\s+\[?\s*v?(\d+\.\d+\.\d+(?:[-+][\w.-]+)?|unreleased)\s*\]?(?:\(([^)\s]+)\))?(.*)$/i;
+const LINK_REFERENCE_PATTERN = /^\s{0,3}\[\s*v?(\d+\.\d+\.\d+(?:[-+][\w.-]+)?|unreleased)\s*\]:\s*(\S+)/i;
+const ANCHOR_PATTERN = /^\s*<a\s+name=["'][^"']*["']\s*>\s*<\/a>\s*$/i;
+const DATE_PATTERN = /\d{4}-\d{2}-\d{2}/;
+
+export function parseChangelog(markdown: string): ToolRelease[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const releases: ToolRelease[] = [];
+  const references = new Map<string, string>();
+  let current: { release: ToolRelease; lines: string[] } | undefined;
+
+  const finish = () => {
+    if (current) {
+      current.release.notes = current.lines.join('\n').trim();
+      releases.push(current.release);
+    }
+  };
+
+  for (const line of lines) {
+    const reference = line.match(LINK_REFERENCE_PATTERN);
+    if (reference) {
+      // Keep a Changelog defines compare links at the bottom of the file
+      references.set(reference[1].toLowerCase(), reference[2]);
+      continue;
+    }
+
+    const heading = line.match(RELEASE_HEADING_PATTERN);
+    if (heading) {
+      finish();
+      current = {
+        release: {
+          version: heading[1],
+          notes: '',
+          ...(DATE_PATTERN.test(heading[3]) && { date: heading[3].match(DATE_PATTERN)![0] }),
+          ...(heading[2] && { url: heading[2] })
+        },
+        lines: []
+      };
+      continue;
+    }
+
+    if (current && !ANCHOR_PATTERN.test(line)) {
+      current.lines.push(line);
+    }
+  }
+
+  finish();
+
+  return releases.map(release => {
+    const url = release.url || references.get(release.version.toLowerCase());
+    return url ? { ...release, url } : release;
+  });
+}
+
+// Finds a version's entry; without a version, the newest released entry is returned
+export function findChangelogRelease(markdown: string, version?: string): ToolRelease | undefined {
+  const releases = parseChangelog(markdown);
+
+  if (!version) {
+    return releases.find(release => release.version.toLowerCase() !== 'unreleased');
+  }
+
+  const wanted = version.replace(/^v(?=\d)/, '').toLowerCase();
+  return releases.find(release => release.version.toLowerCase() === wanted);
+}
+
+export function loadChangelogRelease(filePath: string, version?: string): ToolRelease {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Changelog not found: ${filePath}`);
+  }
+
+  const release = findChangelogRelease(fs.readFileSync(filePath, 'utf8'), version);
+  if (!release) {
+    throw new Error(version ? `Version ${version} not found in ${filePath}` : `No released versions found in ${filePath}`);
+  }
+
+  if (!release.notes) {
+    throw new Error(`Changelog entry for ${release.version} in ${filePath} is empty`);
+  }
+
+  return release;
+}
\ No newline at end of file
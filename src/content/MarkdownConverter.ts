@@ -0,0 +1,271 @@
+export type MarkdownTarget = 'reddit' | 'devto' | 'github' | 'linkedin' | 'twitter' | 'hackernews';
+
+export const MARKDOWN_TARGETS: MarkdownTarget[] = ['reddit', 'devto', 'github', 'linkedin', 'twitter', 'hackernews'];
+
+interface ListItem {
+  depth: number;
+  ordered: boolean;
+  number: number;
+  text: string;
+}
+
+type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string; raw: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'code'; fence: string; language: string; lines: string[] }
+  | { type: 'list'; items: ListItem[]; raw: string[] }
+  | { type: 'quote'; lines: string[]; raw: string[] }
+  | { type: 'table'; rows: string[] }
+  | { type: 'rule'; raw: string };
+
+type TextStyle = 'hackernews' | 'none';
+
+const FENCE_PATTERN = /^\s{0,3}(```+|~~~+)\s*([\w+-]*)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_PATTERN = /^(\s*)([-*+]|(\d+)[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const TABLE_PATTERN = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+const LINK_PATTERN = /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+const AUTOLINK_PATTERN = /<((?:https?|mailto):[^>\s]+)>/g;
+
+export function convertMarkdown(markdown: string, target: MarkdownTarget): string {
+  const source = markdown.replace(/\r\n?/g, '\n').trim();
+
+  switch (target) {
+    case 'github':
+    case 'devto':
+      // Both render GitHub-flavored markdown, so the source is already in the right format
+      return source;
+    case 'reddit':
+      return parseBlocks(source).map(renderRedditBlock).join('\n\n');
+    case 'linkedin':
+    case 'twitter':
+      // Neither renders markdown, and styled Unicode letters break screen readers and search, so emphasis is dropped
+      return renderPlainText(source, 'none');
+    case 'hackernews':
+      return renderHackerNewsText(source);
+    default:
+      throw new Error(`Unknown markdown target: ${target}`);
+  }
+}
+
+function parseBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Skip the closing fence
+      blocks.push({ type: 'code', fence: fence[1], language: fence[2], lines: codeLines });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2], raw: line });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule', raw: line });
+      i++;
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      const items: ListItem[] = [];
+      const raw: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '') {
+        const item = lines[i].match(LIST_PATTERN);
+        if (item) {
+          items.push({
+            depth: Math.floor(item[1].replace(/\t/g, '  ').length / 2),
+            ordered: item[3] !== undefined,
+            number: item[3] !== undefined ? parseInt(item[3], 10) : 0,
+            text: item[4]
+          });
+        } else if (items.length > 0) {
+          // Lazy continuation line of the previous item
+          items[items.length - 1].text += ` ${lines[i].trim()}`;
+        }
+        raw.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'list', items, raw });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      const raw: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoteLines.push(lines[i].match(QUOTE_PATTERN)![1]);
+        raw.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'quote', lines: quoteLines, raw });
+      continue;
+    }
+
+    if (TABLE_PATTERN.test(line)) {
+      const rows: string[] = [];
+      while (i < lines.length && TABLE_PATTERN.test(lines[i])) {
+        rows.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'table', rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !FENCE_PATTERN.test(lines[i]) &&
+      !HEADING_PATTERN.test(lines[i]) &&
+      !QUOTE_PATTERN.test(lines[i]) &&
+      !(paragraph.length > 0 && LIST_PATTERN.test(lines[i]))
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+}
+
+function renderRedditBlock(block: MarkdownBlock): string {
+  switch (block.type) {
+    case 'code':
+      // Indented code renders on both old and new Reddit, unlike fenced blocks
+      return block.lines.map(line => `    ${line}`).join('\n');
+    case 'heading':
+      return convertRedditInline(block.raw);
+    case 'list':
+    case 'quote':
+      return block.raw.map(convertRedditInline).join('\n');
+    case 'table':
+      return block.rows.join('\n');
+    case 'rule':
+      return '---';
+    case 'paragraph':
+      return block.lines.map(convertRedditInline).join('\n');
+  }
+}
+
+function convertRedditInline(text: string): string {
+  // Reddit can't embed images in text posts, so they become links
+  return text
+    .replace(IMAGE_PATTERN, (_match, alt: string, src: string) => `[${alt || src}](${src})`)
+    .replace(AUTOLINK_PATTERN, '$1');
+}
+
+function renderPlainText(markdown: string, style: TextStyle): string {
+  return parseBlocks(markdown).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return convertInline(block.text, style);
+      case 'paragraph':
+        return convertInline(block.lines.map(line => line.trim()).join(' '), style);
+      case 'list':
+        return block.items
+          .map(item => `${'  '.repeat(item.depth)}${item.ordered ? `${item.number}.` : '•'} ${convertInline(item.text, style)}`)
+          .join('\n');
+      case 'quote':
+        return `“${convertInline(block.lines.map(line => line.trim()).filter(Boolean).join(' '), style)}”`;
+      case 'code':
+        return block.lines.join('\n');
+      case 'table':
+        return renderTableRows(block.rows, style).join('\n');
+      case 'rule':
+        return '———';
+    }
+  }).filter(text => text.trim().length > 0).join('\n\n');
+}
+
+function renderHackerNewsText(markdown: string): string {
+  // HN only supports paragraphs, *italics*, indented code and bare URLs; single newlines are collapsed
+  return parseBlocks(markdown).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return convertInline(block.text, 'none');
+      case 'paragraph':
+        return convertInline(block.lines.map(line => line.trim()).join(' '), 'hackernews');
+      case 'list':
+        return block.items
+          .map(item => `${item.ordered ? `${item.number}.` : '-'} ${convertInline(item.text, 'hackernews')}`)
+          .join('\n\n');
+      case 'quote':
+        return `> ${convertInline(block.lines.map(line => line.trim()).filter(Boolean).join(' '), 'hackernews')}`;
+      case 'code':
+        return block.lines.map(line => `  ${line}`).join('\n');
+      case 'table':
+        return renderTableRows(block.rows, 'hackernews').join('\n\n');
+      case 'rule':
+        return '';
+    }
+  }).filter(text => text.trim().length > 0).join('\n\n');
+}
+
+function renderTableRows(rows: string[], style: TextStyle): string[] {
+  return rows
+    .filter(row => !TABLE_SEPARATOR_PATTERN.test(row))
+    .map(row => row
+      .trim()
+      .replace(/^\||\|$/g, '')
+      .split('|')
+      .map(cell => convertInline(cell.trim(), style))
+      .join(' | '));
+}
+
+function convertInline(text: string, style: TextStyle): string {
+  // Images have no plain-text equivalent and are dropped. Code spans and URLs are set aside so emphasis markers inside them are left alone
+  const protectedText: string[] = [];
+  const protect = (value: string) => {
+    protectedText.push(value);
+    return `\u0000${protectedText.length - 1}\u0000`;
+  };
+
+  let result = text
+    .replace(/`([^`]+)`/g, (_match, code: string) => protect(code))
+    .replace(IMAGE_PATTERN, '')
+    .replace(LINK_PATTERN, (_match, label: string, url: string) =>
+      label === url ? protect(url) : `${label} (${protect(url)})`)
+    .replace(AUTOLINK_PATTERN, (_match, url: string) => protect(url))
+    .replace(/https?:\/\/[^\s)]+/g, url => protect(url));
+
+  result = result
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, (_match, _marker, content: string) => emphasize(content, style))
+    .replace(/(?<![\w*])([*_])(?=\S)(.+?)(?<=\S)\1(?![\w*])/g, (_match, _marker, content: string) => emphasize(content, style))
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, '$1');
+
+  // eslint-disable-next-line no-control-regex
+  return result.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => protectedText[Number(index)]);
+}
+
+// HN has no bold, so both bold and italic become *italics*; plain text keeps only the words
+function emphasize(text: string, style: TextStyle): string {
+  return style === 'hackernews' ? `*${text}*` : text;
+}
\ No newline at end of file
@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Tool } from '../models';
+
+export interface MarkdownFileOptions {
+  // Heading text or GitHub anchor (e.g. "Features" or "#getting-started") of the section to extract
+  section?: string;
+  // Repository URL that relative links and images are resolved against
+  baseUrl?: string;
+}
+
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s{0,3}(```+|~~~+)/;
+const ABSOLUTE_URL_PATTERN = /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i;
+
+export function loadMarkdownFile(filePath: string, options: MarkdownFileOptions = {}): string {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Markdown file not found: ${filePath}`);
+  }
+
+  let markdown = fs.readFileSync(filePath, 'utf8').replace(/\r\n?/g, '\n');
+
+  if (options.section) {
+    markdown = extractMarkdownSection(markdown, options.section);
+  }
+
+  if (options.baseUrl) {
+    markdown = rewriteRelativeUrls(markdown, options.baseUrl, findRepositoryPath(filePath));
+  }
+
+  return markdown.trim();
+}
+
+// Returns the content under the matching heading, up to the next heading of the same or a higher level
+export function extractMarkdownSection(markdown: string, section: string): string {
+  const lines = markdown.split('\n');
+  const wanted = section.replace(/^#+/, '').trim().toLowerCase();
+  let inFence = false;
+  let start = -1;
+  let level = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+
+    const heading = inFence ? null : lines[i].match(HEADING_PATTERN);
+    if (!heading) {
+      continue;
+    }
+
+    if (start >= 0) {
+      if (heading[1].length <= level) {
+        return lines.slice(start, i).join('\n').trim();
+      }
+      continue;
+    }
+
+    const text = stripInlineMarkdown(heading[2]);
+    if (text.toLowerCase() === wanted || toHeadingAnchor(text) === wanted) {
+      start = i + 1;
+      level = heading[1].length;
+    }
+  }
+
+  if (start < 0) {
+    throw new Error(`Section not found in markdown: ${section}`);
+  }
+
+  return lines.slice(start).join('\n').trim();
+}
+
+export function rewriteRelativeUrls(markdown: string, baseUrl: string, basePath: string = ''): string {
+  const resolve = (url: string, isImage: boolean) => resolveRepositoryUrl(url, baseUrl, basePath, isImage);
+  let inFence = false;
+
+  return markdown.split('\n').map(line => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return line;
+    }
+
+    if (inFence) {
+      return line;
+    }
+
+    return line
+      .replace(/(!?)\[([^\]]*)\]\(\s*([^)\s]+)/g, (_match, bang: string, text: string, url: string) =>
+        `${bang}[${text}](${resolve(url, bang === '!')}`)
+      .replace(/^(\s{0,3}\[[^\]]+\]:\s*)(\S+)/, (_match, label: string, url: string) =>
+        `${label}${resolve(url, /\.(png|jpe?g|gif|svg|webp)$/i.test(url))}`)
+      .replace(/(<img\b[^>]*\bsrc=["'])([^"']+)/gi, (_match, prefix: string, url: string) =>
+        `${prefix}${resolve(url, true)}`)
+      .replace(/(<a\b[^>]*\bhref=["'])([^"']+)/gi, (_match, prefix: string, url: string) =>
+        `${prefix}${resolve(url, false)}`);
+  }).join('\n');
+}
+
+// Fills longDescription from longDescriptionFile, resolving the file relative to baseDir
+export function resolveLongDescription<T extends Partial<Tool>>(tool: T, baseDir: string): T {
+  if (!tool.longDescriptionFile) {
+    return tool;
+  }
+
+  if (tool.longDescription) {
+    throw new Error('Tool cannot set both longDescription and longDescriptionFile');
+  }
+
+  return {
+    ...tool,
+    longDescription: loadMarkdownFile(path.resolve(baseDir, tool.longDescriptionFile), {
+      section: tool.longDescriptionSection,
+      baseUrl: tool.githubUrl
+    })
+  };
+}
+
+function resolveRepositoryUrl(url: string, baseUrl: string, basePath: string, isImage: boolean): string {
+  if (ABSOLUTE_URL_PATTERN.test(url)) {
+    return url;
+  }
+
+  const [filePath, fragment] = url.split('#', 2);
+  const repoPath = url.startsWith('/')
+    ? path.posix.normalize(filePath).replace(/^\/+/, '')
+    : path.posix.join(basePath, filePath);
+  const suffix = fragment !== undefined ? `#${fragment}` : '';
+  const repository = baseUrl.replace(/\.git$/, '').replace(/\/+$/, '');
+  const github = repository.match(/^https?:\/\/github\.com\/([^/]+\/[^/]+)$/);
+
+  if (!github) {
+    return `${repository}/${repoPath}${suffix}`;
+  }
+
+  // Images need the raw file; other links go to GitHub's file view. HEAD follows the default branch.
+  return isImage
+    ? `https://raw.githubusercontent.com/${github[1]}/HEAD/${repoPath}${suffix}`
+    : `https://github.com/${github[1]}/blob/HEAD/${repoPath}${suffix}`;
+}
+
+// Public URL of a file committed to the repository at baseUrl, or undefined outside a git checkout
+export function resolveRepositoryFileUrl(filePath: string, baseUrl: string, isImage: boolean = true): string | undefined {
+  const fullPath = path.resolve(filePath);
+  const root = findRepositoryRoot(path.dirname(fullPath));
+
+  if (root === undefined) {
+    return undefined;
+  }
+
+  return resolveRepositoryUrl(`/${toPosixPath(path.relative(root, fullPath))}`, baseUrl, '', isImage);
+}
+
+// Directory of the file relative to the enclosing git checkout, so links from nested docs resolve correctly
+function findRepositoryPath(filePath: string): string {
+  const fileDir = path.dirname(path.resolve(filePath));
+  const root = findRepositoryRoot(fileDir);
+  return root === undefined ? '' : toPosixPath(path.relative(root, fileDir));
+}
+
+function findRepositoryRoot(startDir: string): string | undefined {
+  let dir = startDir;
+
+  while (!fs.existsSync(path.join(dir, '.git'))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+
+  return dir;
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .trim();
+}
+
+function toHeadingAnchor(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
\ No newline at end of file
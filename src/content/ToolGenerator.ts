@@ -0,0 +1,172 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Tool, generateToolId } from '../models';
+import { convertMarkdown } from './MarkdownConverter';
+import { loadMarkdownFile } from './MarkdownFile';
+
+export interface ToolGeneratorOptions {
+  category?: string[];
+  targetAudience?: string[];
+  // README section to use as the long description instead of the whole file
+  readmeSection?: string;
+}
+
+interface PackageJson {
+  name?: string;
+  description?: string;
+  version?: string;
+  keywords?: string[];
+  homepage?: string;
+  license?: string;
+  repository?: string | { type?: string; url?: string; directory?: string };
+}
+
+const README_NAMES = ['README.md', 'readme.md', 'Readme.md', 'README.markdown', 'README'];
+const MAX_SHORT_DESCRIPTION_LENGTH = 280;
+
+export class ToolGenerator {
+  constructor(private readonly projectDir: string = process.cwd()) {}
+
+  generate(options: ToolGeneratorOptions = {}): Tool {
+    const pkg = this.readPackageJson();
+    const name = (pkg.name || path.basename(path.resolve(this.projectDir))).replace(/^@[^/]+\//, '');
+    const githubUrl = normalizeRepositoryUrl(pkg.repository);
+    const readme = this.readReadme(githubUrl, options.readmeSection);
+    const gitTag = this.getLatestGitTag();
+
+    const shortDescription = truncate(
+      pkg.description || firstParagraph(readme) || name,
+      MAX_SHORT_DESCRIPTION_LENGTH
+    );
+
+    const tool: Tool = {
+      id: generateToolId(name),
+      name,
+      shortDescription,
+      longDescription: readme || shortDescription,
+      url: pkg.homepage || githubUrl || `https://www.npmjs.com/package/${pkg.name || name}`,
+      category: options.category && options.category.length > 0 ? options.category : ['development'],
+      targetAudience: options.targetAudience && options.targetAudience.length > 0 ? options.targetAudience : ['developers'],
+      tags: pkg.keywords || [],
+      // The latest release tag wins over package.json, which may already be bumped for the next release
+      version: gitTag ? gitTag.replace(/^v(?=\d)/, '') : pkg.version,
+      githubUrl,
+      metadata: {
+        ...(pkg.name && { packageName: pkg.name }),
+        ...(pkg.license && { license: pkg.license }),
+        ...(gitTag && { gitTag })
+      }
+    };
+
+    // Drop fields that ended up empty so the written file stays tidy
+    if (!tool.version) delete tool.version;
+    if (!tool.githubUrl) delete tool.githubUrl;
+    if (Object.keys(tool.metadata!).length === 0) delete tool.metadata;
+
+    return tool;
+  }
+
+  private readPackageJson(): PackageJson {
+    const packagePath = path.join(this.projectDir, 'package.json');
+
+    if (!fs.existsSync(packagePath)) {
+      throw new Error(`package.json not found in ${path.resolve(this.projectDir)}`);
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(packagePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to parse ${packagePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private readReadme(githubUrl: string | undefined, section: string | undefined): string | undefined {
+    const readmeName = README_NAMES.find(file => fs.existsSync(path.join(this.projectDir, file)));
+
+    if (!readmeName) {
+      if (section) {
+        throw new Error(`README not found in ${path.resolve(this.projectDir)}`);
+      }
+      return undefined;
+    }
+
+    const markdown = loadMarkdownFile(path.join(this.projectDir, readmeName), { section, baseUrl: githubUrl });
+    return stripReadmeHeader(markdown) || undefined;
+  }
+
+  private getLatestGitTag(): string | undefined {
+    try {
+      const tag = execFileSync('git', ['describe', '--tags', '--abbrev=0'], {
+        cwd: this.projectDir,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore']
+      });
+      return tag.trim() || undefined;
+    } catch {
+      // Not a git repository, git isn't installed, or there are no tags yet
+      return undefined;
+    }
+  }
+}
+
+// Converts the forms npm accepts for "repository" into a browsable https URL
+export function normalizeRepositoryUrl(repository: PackageJson['repository']): string | undefined {
+  const raw = typeof repository === 'string' ? repository : repository?.url;
+  if (!raw) {
+    return undefined;
+  }
+
+  const shorthand = raw.match(/^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/);
+  if (shorthand) {
+    const host = { github: 'github.com', gitlab: 'gitlab.com', bitbucket: 'bitbucket.org' }[shorthand[1] || 'github'];
+    return `https://${host}/${shorthand[2].replace(/\.git$/, '')}`;
+  }
+
+  return raw
+    .replace(/^git\+/, '')
+    .replace(/^git@([^:]+):/, 'https://$1/')
+    .replace(/^(?:git|ssh):\/\/(?:[^@/]+@)?/, 'https://')
+    .replace(/^http:\/\//, 'https://')
+    .replace(/\.git$/, '')
+    .replace(/\/+$/, '');
+}
+
+// Removes the top-level title and the badge lines that usually follow it
+function stripReadmeHeader(markdown: string): string {
+  const lines = markdown.split('\n');
+  let start = 0;
+
+  if (/^#\s/.test(lines[0] || '')) {
+    start = 1;
+  }
+
+  while (start < lines.length && (lines[start].trim() === '' || isBadgeLine(lines[start]))) {
+    start++;
+  }
+
+  return lines.slice(start).join('\n').trim();
+}
+
+function isBadgeLine(line: string): boolean {
+  const withoutBadges = line
+    .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/<img\b[^>]*>/gi, '')
+    .replace(/<\/?(?:p|a)\b[^>]*>/gi, '');
+
+  return withoutBadges.trim() === '' && withoutBadges.length !== line.length;
+}
+
+function firstParagraph(markdown: string | undefined): string | undefined {
+  const paragraph = markdown
+    ?.split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block.length > 0 && !/^(?:#|```|~~~|[-*+>|]|\d+\.|<|!\[)/.test(block));
+
+  return paragraph ? convertMarkdown(paragraph, 'twitter') : undefined;
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length <= limit ? text : `${text.substring(0, limit - 3).trimEnd()}...`;
+}
\ No newline at end of file
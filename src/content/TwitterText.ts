@@ -0,0 +1,207 @@
+export const MAX_TWEET_LENGTH = 280;
+
+// Every link is wrapped by t.co, so it counts as this many characters whatever its real length
+export const TWITTER_URL_LENGTH = 23;
+
+export interface ThreadOptions {
+  maxLength?: number;
+  // Appends " 1/n" to every tweet of a multi-tweet thread
+  numbering?: boolean;
+}
+
+export interface HashtagOptions {
+  maxLength?: number;
+  maxHashtags?: number;
+}
+
+// Code points in these ranges weigh 1; everything else (CJK, most symbols) weighs 2. From twitter-text's v3 config.
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037]
+];
+
+// Trailing punctuation is left out of the link, as Twitter does
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]*[^\s<>".,;:!?)\]']/gi;
+
+// An emoji with its variation selector, skin tone and ZWJ-joined parts, or a flag, weighs 2 as a whole
+const EMOJI_PATTERN = /\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*|[0-9#*]\uFE0F?\u20E3/gu;
+
+// Twitter's weighted length: URLs are 23, emoji 2, CJK and other wide characters 2, and Latin text 1 per code point
+export function twitterTextLength(text: string): number {
+  let length = 0;
+
+  const withoutUrls = text.normalize('NFC').replace(URL_PATTERN, () => {
+    length += TWITTER_URL_LENGTH;
+    return '';
+  });
+
+  const withoutEmoji = withoutUrls.replace(EMOJI_PATTERN, () => {
+    length += 2;
+    return '';
+  });
+
+  for (const char of withoutEmoji) {
+    const codePoint = char.codePointAt(0)!;
+    length += LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+  }
+
+  return length;
+}
+
+export function fitsInTweet(text: string, maxLength: number = MAX_TWEET_LENGTH): boolean {
+  return twitterTextLength(text) <= maxLength;
+}
+
+// Shortens at a word boundary when one is close to the limit, otherwise mid-word
+export function truncateTweet(text: string, maxLength: number = MAX_TWEET_LENGTH): string {
+  if (fitsInTweet(text, maxLength)) {
+    return text;
+  }
+
+  const words = text.split(' ');
+  let truncated = '';
+
+  for (const word of words) {
+    const candidate = truncated ? `${truncated} ${word}` : word;
+    if (!fitsInTweet(`${candidate}...`, maxLength)) {
+      break;
+    }
+    truncated = candidate;
+  }
+
+  // A single oversized word is cut by code point instead
+  if (!truncated || twitterTextLength(truncated) < maxLength * 0.8) {
+    truncated = truncated ? `${truncated} ` : '';
+    for (const char of text.slice(truncated.length)) {
+      if (!fitsInTweet(`${truncated}${char}...`, maxLength)) {
+        break;
+      }
+      truncated += char;
+    }
+  }
+
+  return `${truncated.trimEnd()}...`;
+}
+
+// Adds as many hashtags as fit, up to maxHashtags, skipping duplicates and tags already in the text
+export function appendHashtags(text: string, hashtags: string[], options: HashtagOptions = {}): string {
+  const { maxLength = MAX_TWEET_LENGTH, maxHashtags = hashtags.length } = options;
+  const present = new Set((text.match(/#\w+/g) || []).map(tag => tag.toLowerCase()));
+  const added: string[] = [];
+
+  for (const hashtag of hashtags) {
+    if (added.length >= maxHashtags || present.has(hashtag.toLowerCase())) {
+      continue;
+    }
+
+    if (fitsInTweet(`${text}\n\n${[...added, hashtag].join(' ')}`, maxLength)) {
+      added.push(hashtag);
+      present.add(hashtag.toLowerCase());
+    }
+  }
+
+  return added.length > 0 ? `${text}\n\n${added.join(' ')}` : text;
+}
+
+interface ThreadUnit {
+  text: string;
+  // What joins the unit to the previous one in the same tweet
+  separator: string;
+  // Units that open a block always start a new tweet
+  startsBlock: boolean;
+}
+
+// Each block starts a new tweet and continues over as many tweets as it needs, split between
+// paragraphs, lines or sentences and only mid-sentence when a single sentence is too long
+export function buildTwitterThread(blocks: string[], options: ThreadOptions = {}): string[] {
+  const { maxLength = MAX_TWEET_LENGTH, numbering = false } = options;
+  const units = blocks.flatMap(block => splitBlock(block.trim()));
+
+  if (!numbering) {
+    return packUnits(units, maxLength);
+  }
+
+  // The " n/n" suffix needs room in every tweet; repack if the count gains a digit
+  let digits = 1;
+  for (;;) {
+    const reserve = twitterTextLength(` ${'9'.repeat(digits)}/${'9'.repeat(digits)}`);
+    const tweets = packUnits(units, maxLength - reserve);
+
+    if (String(tweets.length).length <= digits) {
+      return tweets.length > 1
+        ? tweets.map((tweet, index) => `${tweet} ${index + 1}/${tweets.length}`)
+        : tweets;
+    }
+    digits++;
+  }
+}
+
+function splitBlock(block: string): ThreadUnit[] {
+  const units: ThreadUnit[] = [];
+
+  block.split(/\n\s*\n/).forEach((paragraph, paragraphIndex) => {
+    paragraph.split('\n').forEach((line, lineIndex) => {
+      splitSentences(line.trim()).forEach((sentence, sentenceIndex) => {
+        const startsParagraph = lineIndex === 0 && sentenceIndex === 0;
+        units.push({
+          text: sentence,
+          separator: startsParagraph ? '\n\n' : sentenceIndex === 0 ? '\n' : ' ',
+          startsBlock: startsParagraph && paragraphIndex === 0
+        });
+      });
+    });
+  });
+
+  return units.filter(unit => unit.text.length > 0);
+}
+
+function splitSentences(line: string): string[] {
+  return line.split(/(?<=[.!?。！？])\s+(?=\S)/);
+}
+
+function packUnits(units: ThreadUnit[], maxLength: number): string[] {
+  const tweets: string[] = [];
+  let current = '';
+
+  const flush = (): void => {
+    if (current) {
+      tweets.push(current);
+      current = '';
+    }
+  };
+
+  for (const unit of units) {
+    if (unit.startsBlock) {
+      flush();
+    }
+
+    const candidate = current ? `${current}${unit.separator}${unit.text}` : unit.text;
+    if (fitsInTweet(candidate, maxLength)) {
+      current = candidate;
+      continue;
+    }
+
+    flush();
+
+    if (fitsInTweet(unit.text, maxLength)) {
+      current = unit.text;
+      continue;
+    }
+
+    // A sentence longer than a tweet is split between words
+    for (const word of unit.text.split(' ')) {
+      const next = current ? `${current} ${word}` : word;
+      if (fitsInTweet(next, maxLength)) {
+        current = next;
+      } else {
+        flush();
+        current = fitsInTweet(word, maxLength) ? word : truncateTweet(word, maxLength);
+      }
+    }
+  }
+
+  flush();
+  return tweets;
+}
\ No newline at end of file
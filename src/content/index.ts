@@ -0,0 +1,5 @@
+export * from './MarkdownConverter';
+export * from './MarkdownFile';
+export * from './ToolGenerator';
+export * from './Changelog';
+export * from './TwitterText';
\ No newline at end of file
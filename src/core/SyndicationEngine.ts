@@ -1,18 +1,61 @@
-import { Tool, Publication, PublicationStatus, PublicationManager } from '../models';
-import { PlatformAdapter } from '../adapters';
-import { ConfigManager } from '../config';
+import {
+  Tool,
+  Publication,
+  PublicationStatus,
+  PublicationManager,
+  PublicationStore,
+  ToolRegistry,
+  formatPublicationTarget,
+  hasFailed,
+  formatOverrideKey,
+  resolveToolVersion
+} from '../models';
+import { FormattedContent, PlatformAdapter, PublicationResult, classifyError } from '../adapters';
+import { AuthError, RateLimitError } from '../errors';
+import { ConfigManager, GlobalConfig } from '../config';
 import { Logger } from '../utils/Logger';
+import { ScheduledJob, Scheduler } from '../scheduler';
+import { loadChangelogRelease } from '../content';
+import { SocialCardGenerator, applySocialCard } from '../media';
+import { RateLimitWait } from '../ratelimit';
+import * as path from 'path';
 
 export interface SyndicationOptions {
   platforms?: string[];
   dryRun?: boolean;
   concurrent?: boolean;
   retryFailed?: boolean;
+  force?: boolean;
+  // Per-platform publish times; '*' applies to every platform without its own entry
+  publishAt?: Record<string, Date | string>;
+  // Restricts a retry to these failed publications, leaving the platforms' other targets alone
+  retryPublicationIds?: string[];
+}
+
+export interface RetryOptions {
+  // Only retry queued publications whose backoff has elapsed
+  due?: boolean;
+  // Also retry failures that will not recover by themselves: permanent errors and used-up attempts
+  all?: boolean;
+}
+
+export interface ReleaseOptions extends SyndicationOptions {
+  // Defaults to CHANGELOG.md; relative paths are resolved against baseDir
+  changelogFile?: string;
+  // Directory of the tool file, defaulting to the working directory
+  baseDir?: string;
+}
+
+export interface SyndicationEngineOptions {
+  publicationStore?: PublicationStore;
+  toolRegistry?: ToolRegistry;
+  scheduler?: Scheduler;
 }
 
 export interface SyndicationResult {
   tool: Tool;
   publications: Publication[];
+  scheduledJobs: ScheduledJob[];
   success: boolean;
   errors: string[];
   summary: {
@@ -20,19 +63,72 @@ export interface SyndicationResult {
     successful: number;
     failed: number;
     skipped: number;
+    // Publications a run left unfinished
+    pending: number;
+    scheduled: number;
+    partial: number;
+  };
+}
+
+export interface UpdateOptions {
+  platforms?: string[];
+  dryRun?: boolean;
+}
+
+export interface PublicationUpdate {
+  publication: Publication;
+  status: 'updated' | 'failed' | 'unsupported';
+  error?: string;
+}
+
+export interface UpdateResult {
+  tool: Tool;
+  updates: PublicationUpdate[];
+  success: boolean;
+  errors: string[];
+  summary: {
+    total: number;
+    updated: number;
+    failed: number;
+    unsupported: number;
+  };
+}
+
+export interface PublicationDeletion {
+  publication: Publication;
+  status: 'deleted' | 'failed' | 'unsupported';
+  error?: string;
+}
+
+export interface UnpublishResult {
+  toolId: string;
+  deletions: PublicationDeletion[];
+  success: boolean;
+  errors: string[];
+  summary: {
+    total: number;
+    deleted: number;
+    failed: number;
+    unsupported: number;
   };
 }
 
 export class SyndicationEngine {
   private adapters: Map<string, PlatformAdapter> = new Map();
-  private publicationManager: PublicationManager = new PublicationManager();
+  private publicationManager: PublicationManager;
+  private toolRegistry: ToolRegistry;
+  private scheduler?: Scheduler;
   private logger: Logger;
 
   constructor(
     private configManager: ConfigManager,
-    adapters: PlatformAdapter[] = []
+    adapters: PlatformAdapter[] = [],
+    options: SyndicationEngineOptions = {}
   ) {
     this.logger = new Logger('SyndicationEngine');
+    this.publicationManager = new PublicationManager(options.publicationStore);
+    this.toolRegistry = options.toolRegistry || new ToolRegistry();
+    this.scheduler = options.scheduler;
     adapters.forEach(adapter => {
       this.adapters.set(adapter.platform, adapter);
     });
@@ -49,6 +145,7 @@ export class SyndicationEngine {
     const config = this.configManager.getConfig();
     const targetPlatforms = this.getTargetPlatforms(options.platforms);
     const publications: Publication[] = [];
+    const scheduledJobs: ScheduledJob[] = [];
     const errors: string[] = [];
 
     // Validate tool
@@ -57,65 +154,114 @@ export class SyndicationEngine {
       return {
         tool,
         publications: [],
+        scheduledJobs: [],
         success: false,
         errors: toolValidation.errors,
-        summary: { total: 0, successful: 0, failed: 0, skipped: 0 }
+        summary: { total: 0, successful: 0, failed: 0, skipped: 0, pending: 0, scheduled: 0, partial: 0 }
       };
     }
 
-    // Check for existing publications if not retrying
-    if (!options.retryFailed) {
-      const existingPublications = this.publicationManager.getPublicationsByTool(tool.id);
-      const successfulPlatforms = existingPublications
-        .filter(pub => pub.status === PublicationStatus.SUCCESS)
-        .map(pub => pub.platform);
-      
-      if (successfulPlatforms.length > 0) {
-        this.logger.info(`Tool ${tool.name} already published to: ${successfulPlatforms.join(', ')}`);
+    // Snapshot the tool so retries can republish exactly this content later; changed content needs a
+    // new version unless --force asks to publish it under the same one. Dry runs leave no snapshot behind.
+    try {
+      if (!options.dryRun) {
+        this.toolRegistry.register(tool, { replace: options.force });
       }
+    } catch (error) {
+      return {
+        tool,
+        publications: [],
+        scheduledJobs: [],
+        success: false,
+        errors: [error instanceof Error ? error.message : String(error)],
+        summary: { total: 0, successful: 0, failed: 0, skipped: 0, pending: 0, scheduled: 0, partial: 0 }
+      };
     }
 
+    // Added after the snapshot, so its checksum only covers the tool's own content and not a card path
+    // that depends on the working directory and card settings; retries get the same cached card again
+    tool = this.withSocialCard(tool, config);
+
+    // Platforms with a future publish time are queued for the scheduler worker
+    const immediatePlatforms = targetPlatforms
+      .filter(platform => !this.scheduleIfDeferred(tool, platform, options, scheduledJobs, errors));
+
     if (options.concurrent && config.concurrency > 1) {
-      await this.syndicateConcurrently(tool, targetPlatforms, options, publications, errors);
+      await this.syndicateConcurrently(tool, immediatePlatforms, options, publications, errors);
     } else {
-      await this.syndicateSequentially(tool, targetPlatforms, options, publications, errors);
+      await this.syndicateSequentially(tool, immediatePlatforms, options, publications, errors);
     }
 
-    const summary = this.calculateSummary(publications);
-    const success = summary.failed === 0 && summary.successful > 0;
+    const summary = this.calculateSummary(publications, scheduledJobs);
+    const success = errors.length === 0 && summary.failed === 0 &&
+      summary.successful + summary.skipped + summary.scheduled > 0;
 
     this.logger.info(`Syndication completed for ${tool.name}. Success: ${success}, Summary:`, summary);
 
     return {
       tool,
       publications,
+      scheduledJobs,
       success,
       errors,
       summary
     };
   }
 
-  async retryFailed(toolId?: string): Promise<SyndicationResult[]> {
-    this.logger.info('Retrying failed publications');
+  // Announces a version from the changelog; without a version the newest released entry is used
+  async syndicateRelease(tool: Tool, version?: string, options: ReleaseOptions = {}): Promise<SyndicationResult> {
+    const { changelogFile = 'CHANGELOG.md', baseDir = '.', ...syndicationOptions } = options;
+    const release = loadChangelogRelease(path.resolve(baseDir, changelogFile), version);
+
+    this.logger.info(`Announcing ${tool.name} ${release.version} from ${changelogFile}`);
+
+    return this.syndicate({ ...tool, version: release.version, release }, syndicationOptions);
+  }
+
+  private withSocialCard(tool: Tool, config: GlobalConfig): Tool {
+    if (!config.socialCard?.enabled) {
+      return tool;
+    }
 
-    const failedPublications = toolId 
-      ? this.publicationManager.getPublicationsByTool(toolId).filter(pub => pub.status === PublicationStatus.FAILED)
-      : this.publicationManager.getFailedPublications();
+    try {
+      const cacheDir = config.socialCard.cacheDir || path.join(config.storage.directory, 'cards');
+      return applySocialCard(tool, new SocialCardGenerator(config.socialCard, cacheDir));
+    } catch (error) {
+      // A missing card should never block the announcement itself
+      this.logger.warn(`Could not generate a social card for ${tool.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return tool;
+    }
+  }
+
+  async retryFailed(toolId?: string, options: RetryOptions = {}): Promise<SyndicationResult[]> {
+    this.logger.info(options.due
+      ? 'Retrying queued publications that are due'
+      : options.all ? 'Retrying failed publications' : 'Retrying queued publications');
+
+    // Without --all, only publications the retry queue still holds: the rest failed for good
+    const candidates = options.due
+      ? this.publicationManager.getDueRetries()
+      : options.all
+        ? this.publicationManager.getFailedPublications()
+        : this.publicationManager.getQueuedRetries();
+    const failedPublications = candidates.filter(pub => !toolId || pub.toolId === toolId);
 
     const results: SyndicationResult[] = [];
     const toolGroups = this.groupPublicationsByTool(failedPublications);
 
-    for (const [toolId, publications] of toolGroups) {
-      const tool = await this.getToolById(toolId);
+    for (const publications of toolGroups.values()) {
+      const { toolId, toolVersion } = publications[0];
+      const tool = await this.getToolById(toolId, toolVersion);
       if (!tool) {
-        this.logger.warn(`Tool not found for ID: ${toolId}`);
+        this.logger.warn(`Tool not found for ID: ${toolId}${toolVersion ? ` (version ${toolVersion})` : ''}`);
         continue;
       }
 
-      const platforms = publications.map(pub => pub.platform);
+      const platforms = [...new Set(publications.map(pub => pub.platform))];
       const result = await this.syndicate(tool, { 
         platforms, 
-        retryFailed: true 
+        retryFailed: true,
+        retryPublicationIds: publications.map(pub => pub.id)
       });
       results.push(result);
     }
@@ -123,6 +269,223 @@ export class SyndicationEngine {
     return results;
   }
 
+  async updateTool(tool: Tool, options: UpdateOptions = {}): Promise<UpdateResult> {
+    this.logger.info(`Updating published posts for tool: ${tool.name}`);
+
+    const updates: PublicationUpdate[] = [];
+    const errors: string[] = [];
+
+    const toolValidation = this.validateTool(tool);
+    if (!toolValidation.isValid) {
+      return {
+        tool,
+        updates: [],
+        success: false,
+        errors: toolValidation.errors,
+        summary: { total: 0, updated: 0, failed: 0, unsupported: 0 }
+      };
+    }
+
+    // Editing published posts is the one deliberate change to a registered version
+    if (!options.dryRun) {
+      this.toolRegistry.register(tool, { replace: true });
+    }
+    const toolVersion = resolveToolVersion(tool);
+
+    const livePublications = this.getLivePublications(tool.id)
+      .filter(pub => !options.platforms || options.platforms.includes(pub.platform));
+
+    for (const [platform, publications] of this.groupPublicationsByPlatform(livePublications)) {
+      const adapter = this.adapters.get(platform);
+
+      if (!adapter || !adapter.updatePost) {
+        const reason = adapter
+          ? `${platform} does not support editing published posts`
+          : `No adapter found for platform: ${platform}`;
+        publications.forEach(publication => {
+          updates.push({ publication, status: 'unsupported', error: reason });
+        });
+        this.logger.warn(reason);
+        continue;
+      }
+
+      try {
+        await this.prepareAdapter(adapter);
+      } catch (error) {
+        updates.push(...this.failUpdates(tool, platform, publications, error));
+        continue;
+      }
+
+      for (const [contentTarget, targetPublications] of this.groupByContentTarget(tool, platform, publications)) {
+        try {
+          const formattedContent = await adapter.formatContent(tool, contentTarget ? { target: contentTarget } : {});
+
+          for (const publication of targetPublications) {
+            updates.push(await this.updatePublication(adapter, publication, tool, toolVersion, formattedContent, options));
+          }
+        } catch (error) {
+          updates.push(...this.failUpdates(tool, platform, targetPublications, error));
+        }
+      }
+    }
+
+    updates
+      .filter(update => update.status === 'failed')
+      .forEach(update => errors.push(`Failed to update ${formatPublicationTarget(update.publication)}: ${update.error}`));
+
+    const summary = {
+      total: updates.length,
+      updated: updates.filter(update => update.status === 'updated').length,
+      failed: updates.filter(update => update.status === 'failed').length,
+      unsupported: updates.filter(update => update.status === 'unsupported').length
+    };
+    const success = summary.failed === 0 && summary.updated > 0;
+
+    this.logger.info(`Update completed for ${tool.name}. Success: ${success}, Summary:`, summary);
+
+    return { tool, updates, success, errors, summary };
+  }
+
+  private failUpdates(tool: Tool, platform: string, publications: Publication[], error: unknown): PublicationUpdate[] {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    this.logger.error(`Failed to update ${tool.name} on ${platform}: ${errorMessage}`);
+    return publications.map(publication => ({ publication, status: 'failed', error: errorMessage }));
+  }
+
+  private async updatePublication(
+    adapter: PlatformAdapter,
+    publication: Publication,
+    tool: Tool,
+    toolVersion: string,
+    content: FormattedContent,
+    options: UpdateOptions
+  ): Promise<PublicationUpdate> {
+    const label = formatPublicationTarget(publication);
+
+    const restriction = adapter.getUpdateRestriction?.(content);
+    if (restriction) {
+      this.logger.warn(`Cannot update ${label}: ${restriction}`);
+      return { publication, status: 'unsupported', error: restriction };
+    }
+
+    if (options.dryRun) {
+      this.logger.info(`[DRY RUN] Would update ${label} (${publication.platformPostId}):`, content);
+      return { publication, status: 'updated' };
+    }
+
+    const result = await adapter.updatePost!(publication.platformPostId!, content);
+    if (!result.success) {
+      this.logger.error(`Failed to update ${tool.name} on ${label}: ${result.error}`);
+      return { publication, status: 'failed', error: result.error || 'Update failed' };
+    }
+
+    // The post now carries this version, so syndicating it again is a no-op
+    this.publicationManager.updatePublication(publication.id, {
+      toolVersion,
+      url: result.url || publication.url,
+      metadata: {
+        ...publication.metadata,
+        content,
+        previousToolVersion: publication.toolVersion
+      }
+    });
+
+    this.logger.info(`Successfully updated ${tool.name} on ${label}`);
+    return { publication: this.publicationManager.getPublication(publication.id)!, status: 'updated' };
+  }
+
+  async unpublish(toolId: string, platforms?: string[]): Promise<UnpublishResult> {
+    this.logger.info(`Unpublishing tool: ${toolId}`);
+
+    const deletions: PublicationDeletion[] = [];
+    const errors: string[] = [];
+
+    // Every post ever made for the tool is retracted, not just the latest version's, including
+    // what failed attempts left behind
+    const publications = this.publicationManager.getPublicationsByTool(toolId)
+      .filter(pub => (pub.status === PublicationStatus.SUCCESS || hasFailed(pub)) && pub.platformPostId && !pub.metadata?.dryRun)
+      .filter(pub => !platforms || platforms.includes(pub.platform));
+
+    for (const [platform, platformPublications] of this.groupPublicationsByPlatform(publications)) {
+      const adapter = this.adapters.get(platform);
+
+      if (!adapter || !adapter.deletePost) {
+        const reason = adapter
+          ? `${platform} does not support deleting posts`
+          : `No adapter found for platform: ${platform}`;
+        platformPublications.forEach(publication => {
+          deletions.push({ publication, status: 'unsupported', error: reason });
+        });
+        this.logger.warn(reason);
+        continue;
+      }
+
+      try {
+        await this.prepareAdapter(adapter);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        platformPublications.forEach(publication => {
+          deletions.push({ publication, status: 'failed', error: errorMessage });
+        });
+        this.logger.error(`Failed to unpublish ${toolId} from ${platform}: ${errorMessage}`);
+        continue;
+      }
+
+      for (const publication of platformPublications) {
+        const label = formatPublicationTarget(publication);
+
+        // One adapter throwing must not lose the results for the other posts
+        let deleted: boolean;
+        try {
+          deleted = await adapter.deletePost(publication.platformPostId!, publication.metadata);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          deletions.push({ publication, status: 'failed', error: errorMessage });
+          this.logger.error(`Failed to unpublish ${toolId} from ${label}: ${errorMessage}`);
+          continue;
+        }
+
+        if (!deleted) {
+          deletions.push({ publication, status: 'failed', error: 'Delete request failed' });
+          continue;
+        }
+
+        this.publicationManager.updatePublication(publication.id, {
+          status: PublicationStatus.DELETED
+        });
+        this.logger.info(`Deleted ${toolId} from ${label}`);
+        deletions.push({ publication: this.publicationManager.getPublication(publication.id)!, status: 'deleted' });
+      }
+    }
+
+    deletions
+      .filter(deletion => deletion.status === 'failed')
+      .forEach(deletion => errors.push(`Failed to delete ${formatPublicationTarget(deletion.publication)}: ${deletion.error}`));
+
+    const summary = {
+      total: deletions.length,
+      deleted: deletions.filter(deletion => deletion.status === 'deleted').length,
+      failed: deletions.filter(deletion => deletion.status === 'failed').length,
+      unsupported: deletions.filter(deletion => deletion.status === 'unsupported').length
+    };
+    const success = summary.failed === 0;
+
+    this.logger.info(`Unpublish completed for ${toolId}. Success: ${success}, Summary:`, summary);
+
+    return { toolId, deletions, success, errors, summary };
+  }
+
+  private getLivePublications(toolId: string): Publication[] {
+    // Only the most recent successful, real post per platform target can be edited
+    const latest = new Map<string, Publication>();
+
+    this.publicationManager.getPublicationsByTool(toolId)
+      .filter(pub => pub.status === PublicationStatus.SUCCESS && pub.platformPostId && !pub.metadata?.dryRun)
+      .forEach(pub => latest.set(formatPublicationTarget(pub), pub));
+
+    return Array.from(latest.values());
+  }
+
   private async syndicateConcurrently(
     tool: Tool,
     platforms: string[],
@@ -136,8 +499,9 @@ export class SyndicationEngine {
     const promises = platforms.map(async (platform) => {
       await semaphore.acquire();
       try {
-        const publication = await this.syndicateToPlatform(tool, platform, options);
-        publications.push(publication);
+        const platformPublications = await this.syndicateToPlatform(tool, platform, options);
+        publications.push(...platformPublications);
+        errors.push(...this.describeFailures(platformPublications));
       } catch (error) {
         const errorMessage = `Failed to syndicate to ${platform}: ${error}`;
         errors.push(errorMessage);
@@ -159,8 +523,9 @@ export class SyndicationEngine {
   ): Promise<void> {
     for (const platform of platforms) {
       try {
-        const publication = await this.syndicateToPlatform(tool, platform, options);
-        publications.push(publication);
+        const platformPublications = await this.syndicateToPlatform(tool, platform, options);
+        publications.push(...platformPublications);
+        errors.push(...this.describeFailures(platformPublications));
       } catch (error) {
         const errorMessage = `Failed to syndicate to ${platform}: ${error}`;
         errors.push(errorMessage);
@@ -169,13 +534,16 @@ export class SyndicationEngine {
     }
   }
 
-  private async syndicateToPlatform(
+  async syndicateToPlatform(
     tool: Tool,
     platform: string,
     options: SyndicationOptions
-  ): Promise<Publication> {
+  ): Promise<Publication[]> {
     this.logger.debug(`Syndicating ${tool.name} to ${platform}`);
 
+    // Scheduled jobs start from the registered snapshot, which has no generated card
+    tool = this.withSocialCard(tool, this.configManager.getConfig());
+
     const adapter = this.adapters.get(platform);
     if (!adapter) {
       throw new Error(`No adapter found for platform: ${platform}`);
@@ -186,75 +554,354 @@ export class SyndicationEngine {
       throw new Error(`Platform ${platform} is not enabled`);
     }
 
-    // Create publication record
-    const publication = this.publicationManager.createPublication(
-      tool.id,
-      platform,
-      config.retryConfig.maxRetries
-    );
+    // One publication per target (subreddit, repository), or a single one for untargeted platforms
+    const toolVersion = resolveToolVersion(tool);
+    const skipped: Publication[] = [];
+    const pending: Publication[] = [];
 
-    try {
-      // Update status to in progress
+    for (const target of this.getPlatformTargets(adapter)) {
+      const existing = options.force
+        ? undefined
+        : this.publicationManager.findExistingPublication(tool.id, toolVersion, platform, target);
+
+      if (existing) {
+        skipped.push(this.recordSkipped(tool, toolVersion, platform, target, existing));
+      } else if (options.retryPublicationIds && !this.isSelectedForRetry(tool.id, toolVersion, platform, target, options.retryPublicationIds)) {
+        continue;
+      } else {
+        pending.push(this.preparePublication(tool, toolVersion, platform, target, config.retryConfig.maxRetries, options));
+      }
+    }
+
+    if (pending.length === 0) {
+      return skipped;
+    }
+
+    // Update status to in progress
+    pending.forEach(publication => {
       this.publicationManager.updatePublication(publication.id, {
         status: PublicationStatus.IN_PROGRESS
       });
+    });
 
-      // Validate adapter configuration
-      const configValidation = await adapter.validateConfig();
-      if (!configValidation.isValid) {
-        throw new Error(`Invalid configuration: ${configValidation.errors.join(', ')}`);
-      }
+    try {
+      await this.prepareAdapter(adapter);
+    } catch (error) {
+      this.failPublications(tool, platform, pending, error);
+      return [...skipped, ...pending.map(publication => this.publicationManager.getPublication(publication.id)!)];
+    }
 
-      // Authenticate if needed
-      const isAuthenticated = await adapter.isAuthenticated();
-      if (!isAuthenticated) {
-        const authResult = await adapter.authenticate();
-        if (!authResult) {
-          throw new Error('Authentication failed');
-        }
+    // Targets with their own Tool.overrides entry get separately formatted content
+    for (const [contentTarget, publications] of this.groupByContentTarget(tool, platform, pending)) {
+      try {
+        await this.publishBatch(adapter, tool, platform, publications, contentTarget, options);
+      } catch (error) {
+        const rateLimitWaits = adapter.takeRateLimitWaits?.() || [];
+        this.failPublications(tool, platform, publications, error, rateLimitWaits, this.findRateLimitReset(adapter, rateLimitWaits));
       }
+    }
+
+    return [
+      ...skipped,
+      ...pending.map(publication => this.publicationManager.getPublication(publication.id)!)
+    ];
+  }
 
-      // Format content for the platform
-      const formattedContent = await adapter.formatContent(tool);
+  private async publishBatch(
+    adapter: PlatformAdapter,
+    tool: Tool,
+    platform: string,
+    publications: Publication[],
+    contentTarget: string | undefined,
+    options: SyndicationOptions
+  ): Promise<void> {
+    // Format content for the platform
+    const formattedContent = await adapter.formatContent(tool, contentTarget ? { target: contentTarget } : {});
 
-      if (options.dryRun) {
-        this.logger.info(`[DRY RUN] Would publish to ${platform}:`, formattedContent);
-        
+    if (options.dryRun) {
+      this.logger.info(`[DRY RUN] Would publish to ${contentTarget ? `${platform} (${contentTarget})` : platform}:`, formattedContent);
+
+      publications.forEach(publication => {
         this.publicationManager.updatePublication(publication.id, {
           status: PublicationStatus.SUCCESS,
           platformPostId: 'dry-run-' + Date.now(),
           metadata: { dryRun: true, content: formattedContent }
         });
-      } else {
-        // Publish to platform
-        const result = await adapter.publish(tool, formattedContent);
-        
-        if (result.success) {
-          this.publicationManager.updatePublication(publication.id, {
-            status: PublicationStatus.SUCCESS,
-            platformPostId: result.postId,
-            url: result.url,
-            metadata: { content: formattedContent }
-          });
-          
-          this.logger.info(`Successfully published ${tool.name} to ${platform}`);
-        } else {
-          throw new Error(result.error || 'Publication failed');
-        }
+      });
+      return;
+    }
+
+    // Publish to platform, restricted to the targets that still need a post
+    const targets = publications
+      .map(publication => publication.target)
+      .filter((target): target is string => target !== undefined);
+    // A single post left half finished by a failed attempt is resumed rather than started over
+    const previousAttempt = targets.length === 0 && publications.length === 1 ? publications[0].metadata : undefined;
+    const result = await adapter.publish(tool, formattedContent, {
+      ...(targets.length > 0 && { targets }),
+      ...(previousAttempt && { previousAttempt })
+    });
+    const rateLimitWaits = adapter.takeRateLimitWaits?.() || [];
+    const notBefore = this.findRateLimitReset(adapter, rateLimitWaits);
+
+    publications.forEach(publication => {
+      const targetResult = result.targets && publication.target !== undefined
+        ? result.targets.find(r => r.target === publication.target)
+        : result;
+
+      this.recordResult(
+        tool,
+        publication,
+        targetResult || { success: false, error: 'No result returned for target' },
+        formattedContent,
+        rateLimitWaits,
+        notBefore
+      );
+    });
+  }
+
+  private failPublications(
+    tool: Tool,
+    platform: string,
+    publications: Publication[],
+    error: unknown,
+    rateLimitWaits: RateLimitWait[] = [],
+    notBefore?: Date
+  ): void {
+    const platformError = classifyError(error, platform);
+    const errorMessage = platformError.message;
+    const retryAt = platformError instanceof RateLimitError ? platformError.retryAt : undefined;
+
+    publications.forEach(publication => {
+      this.publicationManager.recordFailure(publication.id, errorMessage, {
+        category: platformError.category,
+        notBefore: latestDate(notBefore, retryAt),
+        policy: this.configManager.getConfig().retryQueue,
+        ...(rateLimitWaits.length > 0 && { metadata: { rateLimitWaits } })
+      });
+    });
+
+    this.logger.error(`Failed to publish ${tool.name} to ${platform}: ${errorMessage}`);
+  }
+
+  // Retrying before the platform's pause or an exhausted quota ends would only fail again
+  private findRateLimitReset(adapter: PlatformAdapter, rateLimitWaits: RateLimitWait[]): Date | undefined {
+    const resets = [
+      ...rateLimitWaits.map(wait => Date.parse(wait.resumeAt)),
+      ...(adapter.getRateLimitQuota?.() || [])
+        .filter(quota => quota.remaining === 0 && quota.resetsAt)
+        .map(quota => quota.resetsAt!.getTime())
+    ];
+
+    return resets.length > 0 ? new Date(Math.max(...resets)) : undefined;
+  }
+
+  // Keyed by the target whose override applies, or undefined for content shared by the rest of the platform
+  private groupByContentTarget<T extends { target?: string }>(
+    tool: Tool,
+    platform: string,
+    items: T[]
+  ): Map<string | undefined, T[]> {
+    const groups = new Map<string | undefined, T[]>();
+
+    items.forEach(item => {
+      const key = item.target && tool.overrides?.[formatOverrideKey(platform, item.target)] ? item.target : undefined;
+      groups.set(key, [...(groups.get(key) || []), item]);
+    });
+
+    return groups;
+  }
+
+  private async prepareAdapter(adapter: PlatformAdapter): Promise<void> {
+    // Validate adapter configuration
+    const configValidation = await adapter.validateConfig();
+    if (!configValidation.isValid) {
+      throw new Error(`Invalid configuration: ${configValidation.errors.join(', ')}`);
+    }
+
+    // Authenticate if needed
+    const isAuthenticated = await adapter.isAuthenticated();
+    if (!isAuthenticated) {
+      const authResult = await adapter.authenticate();
+      if (!authResult) {
+        throw new AuthError('Authentication failed', { platform: adapter.platform });
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
+    }
+  }
+
+  private preparePublication(
+    tool: Tool,
+    toolVersion: string,
+    platform: string,
+    target: string | undefined,
+    maxRetries: number,
+    options: SyndicationOptions
+  ): Publication {
+    // Reuse the failed record when retrying, or a queued retry on any run, so its history stays in one place
+    const failed = this.findFailedPublication(tool.id, toolVersion, platform, target);
+    const failedPublication = options.retryFailed || failed?.status === PublicationStatus.RETRYING
+      ? failed
+      : undefined;
+
+    if (failedPublication) {
+      this.publicationManager.updatePublication(failedPublication.id, {
+        retryCount: failedPublication.retryCount + 1,
+        error: undefined,
+        errorCategory: undefined
+      });
+      return failedPublication;
+    }
+
+    return this.publicationManager.createPublication(tool.id, platform, maxRetries, toolVersion, target);
+  }
+
+  private recordResult(
+    tool: Tool,
+    publication: Publication,
+    result: Omit<PublicationResult, 'targets'>,
+    content: FormattedContent,
+    rateLimitWaits: RateLimitWait[] = [],
+    notBefore?: Date
+  ): void {
+    const label = formatPublicationTarget(publication);
+    // Pauses the platform imposed while publishing, so slow runs can be explained afterwards
+    const waits = rateLimitWaits.length > 0 ? { rateLimitWaits } : {};
+
+    if (result.success) {
       this.publicationManager.updatePublication(publication.id, {
-        status: PublicationStatus.FAILED,
-        error: errorMessage
+        status: PublicationStatus.SUCCESS,
+        platformPostId: result.postId,
+        url: result.url,
+        errorCategory: undefined,
+        nextAttemptAt: undefined,
+        metadata: { content, ...waits, ...result.metadata }
+      });
+      
+      this.logger.info(`Successfully published ${tool.name} to ${label}`);
+    } else {
+      const error = result.error || 'Publication failed';
+
+      // Part of the post went out anyway, so unpublishing has to be able to find it
+      if (result.postId) {
+        this.publicationManager.updatePublication(publication.id, {
+          platformPostId: result.postId,
+          url: result.url
+        });
+      }
+
+      const failed = this.publicationManager.recordFailure(publication.id, error, {
+        category: result.errorCategory,
+        retryable: result.retryable,
+        notBefore: latestDate(notBefore, result.retryAt),
+        policy: this.configManager.getConfig().retryQueue,
+        metadata: { ...waits, ...result.metadata }
       });
 
-      this.logger.error(`Failed to publish ${tool.name} to ${platform}: ${errorMessage}`);
-      throw error;
+      const retry = failed?.status === PublicationStatus.RETRYING
+        ? `; queued for retry after ${failed.nextAttemptAt!.toISOString()}`
+        : '';
+      this.logger.error(`Failed to publish ${tool.name} to ${label}: ${error}${retry}`);
+    }
+  }
+
+  private recordSkipped(
+    tool: Tool,
+    toolVersion: string,
+    platform: string,
+    target: string | undefined,
+    existing: Publication
+  ): Publication {
+    const label = formatPublicationTarget(existing);
+    this.logger.info(`Skipping ${label}: ${tool.name} ${toolVersion} already published (${existing.url || existing.id})`);
+
+    const skipped = this.publicationManager.createPublication(
+      tool.id,
+      platform,
+      existing.maxRetries,
+      toolVersion,
+      target
+    );
+
+    this.publicationManager.updatePublication(skipped.id, {
+      status: PublicationStatus.SKIPPED,
+      url: existing.url,
+      metadata: { duplicateOf: existing.id }
+    });
+
+    return this.publicationManager.getPublication(skipped.id)!;
+  }
+
+  private getPlatformTargets(adapter: PlatformAdapter): (string | undefined)[] {
+    const targets = adapter.getTargets?.() || [];
+    return targets.length > 0 ? targets : [undefined];
+  }
+
+  private describeFailures(publications: Publication[]): string[] {
+    return publications
+      .filter(hasFailed)
+      .map(pub => `Failed to syndicate to ${formatPublicationTarget(pub)}: ${pub.error}`);
+  }
+
+  private scheduleIfDeferred(
+    tool: Tool,
+    platform: string,
+    options: SyndicationOptions,
+    scheduledJobs: ScheduledJob[],
+    errors: string[]
+  ): boolean {
+    const publishAt = this.resolvePublishAt(platform, options.publishAt);
+    if (!publishAt || publishAt.getTime() <= Date.now()) {
+      return false;
+    }
+
+    // Nothing left to publish, so let syndicateToPlatform record the skip right away
+    if (!options.force && this.isFullyPublished(tool, platform)) {
+      return false;
+    }
+
+    if (options.dryRun) {
+      this.logger.info(`[DRY RUN] Would schedule ${platform} for ${publishAt.toISOString()}`);
+      return false;
+    }
+
+    if (!this.scheduler) {
+      errors.push(`Cannot schedule ${platform} for ${publishAt.toISOString()}: no scheduler configured`);
+      return true;
+    }
+
+    const job = this.scheduler.schedule(tool.id, resolveToolVersion(tool), platform, publishAt, {
+      ...(options.force && { force: true })
+    });
+    scheduledJobs.push(job);
+
+    this.logger.info(`Scheduled ${tool.name} for ${platform} at ${publishAt.toISOString()} (job ${job.id})`);
+    return true;
+  }
+
+  private resolvePublishAt(platform: string, publishAt?: Record<string, Date | string>): Date | undefined {
+    const value = publishAt?.[platform] ?? publishAt?.['*'];
+    if (value === undefined) {
+      return undefined;
     }
 
-    return this.publicationManager.getPublication(publication.id)!;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid publish time for ${platform}: ${value}`);
+    }
+
+    return date;
+  }
+
+  private isFullyPublished(tool: Tool, platform: string): boolean {
+    const adapter = this.adapters.get(platform);
+    if (!adapter) {
+      return false;
+    }
+
+    const toolVersion = resolveToolVersion(tool);
+    return this.getPlatformTargets(adapter).every(target =>
+      this.publicationManager.findExistingPublication(tool.id, toolVersion, platform, target) !== undefined
+    );
   }
 
   private getTargetPlatforms(platformFilter?: string[]): string[] {
@@ -289,12 +936,24 @@ export class SyndicationEngine {
     };
   }
 
-  private calculateSummary(publications: Publication[]) {
+  private calculateSummary(publications: Publication[], scheduledJobs: ScheduledJob[] = []) {
+    // A platform is partial when some of its targets succeeded and others failed
+    const platforms = [...new Set(publications.map(pub => pub.platform))];
+    const partial = platforms.filter(platform => {
+      const statuses = publications.filter(pub => pub.platform === platform).map(pub => pub.status);
+      return statuses.includes(PublicationStatus.SUCCESS) && statuses.some(status => hasFailed({ status }));
+    }).length;
+
     return {
-      total: publications.length,
+      total: publications.length + scheduledJobs.length,
       successful: publications.filter(pub => pub.status === PublicationStatus.SUCCESS).length,
-      failed: publications.filter(pub => pub.status === PublicationStatus.FAILED).length,
-      skipped: publications.filter(pub => pub.status === PublicationStatus.PENDING).length
+      failed: publications.filter(hasFailed).length,
+      skipped: publications.filter(pub => pub.status === PublicationStatus.SKIPPED).length,
+      pending: publications.filter(pub =>
+        pub.status === PublicationStatus.PENDING || pub.status === PublicationStatus.IN_PROGRESS
+      ).length,
+      scheduled: scheduledJobs.length,
+      partial
     };
   }
 
@@ -302,18 +961,53 @@ export class SyndicationEngine {
     const groups = new Map<string, Publication[]>();
     
     publications.forEach(pub => {
-      const existing = groups.get(pub.toolId) || [];
+      // Group by version as well so each retry republishes the snapshot that failed
+      const key = `${pub.toolId}@${pub.toolVersion || ''}`;
+      const existing = groups.get(key) || [];
+      existing.push(pub);
+      groups.set(key, existing);
+    });
+
+    return groups;
+  }
+
+  private groupPublicationsByPlatform(publications: Publication[]): Map<string, Publication[]> {
+    const groups = new Map<string, Publication[]>();
+
+    publications.forEach(pub => {
+      const existing = groups.get(pub.platform) || [];
       existing.push(pub);
-      groups.set(pub.toolId, existing);
+      groups.set(pub.platform, existing);
     });
 
     return groups;
   }
 
-  private async getToolById(_toolId: string): Promise<Tool | null> {
-    // This would typically load from a database or file
-    // For now, return null as this is just a placeholder
-    return null;
+  private findFailedPublication(
+    toolId: string,
+    toolVersion: string,
+    platform: string,
+    target?: string
+  ): Publication | undefined {
+    return this.publicationManager.getPublicationsByTool(toolId)
+      .filter(pub => pub.platform === platform && pub.target === target && hasFailed(pub))
+      .filter(pub => !pub.toolVersion || pub.toolVersion === toolVersion)
+      .pop();
+  }
+
+  private isSelectedForRetry(
+    toolId: string,
+    toolVersion: string,
+    platform: string,
+    target: string | undefined,
+    publicationIds: string[]
+  ): boolean {
+    const failed = this.findFailedPublication(toolId, toolVersion, platform, target);
+    return failed !== undefined && publicationIds.includes(failed.id);
+  }
+
+  private async getToolById(toolId: string, version?: string): Promise<Tool | null> {
+    return this.toolRegistry.get(toolId, version) || null;
   }
 }
 
@@ -344,4 +1038,9 @@ class Semaphore {
       this.permits++;
     }
   }
+}
+
+function latestDate(...dates: (Date | undefined)[]): Date | undefined {
+  const times = dates.filter((date): date is Date => date !== undefined).map(date => date.getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined;
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { PlatformErrorCategory } from './PlatformError';
+
+// Process exit codes, so scripts and CI can tell a bad token from a post worth retrying later
+export enum ExitCode {
+  SUCCESS = 0,
+  FAILURE = 1,
+  AUTH = 2,
+  CONTENT_REJECTED = 3,
+  // EX_TEMPFAIL from sysexits.h: nothing is wrong with the request, try again later
+  RETRY_LATER = 75
+}
+
+const CATEGORY_EXIT_CODES: Record<PlatformErrorCategory, ExitCode> = {
+  auth: ExitCode.AUTH,
+  duplicate_content: ExitCode.CONTENT_REJECTED,
+  content_rejected: ExitCode.CONTENT_REJECTED,
+  rate_limit: ExitCode.RETRY_LATER,
+  network: ExitCode.RETRY_LATER,
+  platform_unavailable: ExitCode.RETRY_LATER,
+  unknown: ExitCode.FAILURE
+};
+
+// Failures that need a person win over ones that clear up on their own
+const EXIT_CODE_PRIORITY: ExitCode[] = [ExitCode.AUTH, ExitCode.CONTENT_REJECTED, ExitCode.FAILURE, ExitCode.RETRY_LATER];
+
+export function exitCodeForCategories(categories: (PlatformErrorCategory | undefined)[]): ExitCode {
+  const codes = categories.map(category => CATEGORY_EXIT_CODES[category || 'unknown']);
+  return EXIT_CODE_PRIORITY.find(code => codes.includes(code)) ?? ExitCode.SUCCESS;
+}
\ No newline at end of file
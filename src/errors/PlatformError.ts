@@ -0,0 +1,104 @@
+export type PlatformErrorCategory =
+  | 'auth'
+  | 'rate_limit'
+  | 'duplicate_content'
+  | 'content_rejected'
+  | 'network'
+  | 'platform_unavailable'
+  | 'unknown';
+
+export interface PlatformErrorOptions {
+  platform?: string;
+  // HTTP status of the response that caused the error, if there was one
+  status?: number;
+  cause?: unknown;
+}
+
+// Categories worth trying again later; the rest will fail the same way until something changes
+export const RETRYABLE_ERROR_CATEGORIES: PlatformErrorCategory[] = ['rate_limit', 'network', 'platform_unavailable'];
+
+export function isRetryableCategory(category: PlatformErrorCategory): boolean {
+  return RETRYABLE_ERROR_CATEGORIES.includes(category);
+}
+
+// A failure reported by a platform, classified so callers can act on what went wrong rather than on the message
+export class PlatformError extends Error {
+  readonly category: PlatformErrorCategory = 'unknown';
+  readonly platform?: string;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: PlatformErrorOptions = {}) {
+    super(message);
+    this.name = 'PlatformError';
+    this.platform = options.platform;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return isRetryableCategory(this.category);
+  }
+}
+
+// Missing, expired or insufficient credentials
+export class AuthError extends PlatformError {
+  readonly category = 'auth';
+
+  constructor(message: string, options: PlatformErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends PlatformError {
+  readonly category = 'rate_limit';
+  // When the platform will accept requests again, if it said
+  readonly retryAt?: Date;
+
+  constructor(message: string, options: PlatformErrorOptions & { retryAt?: Date } = {}) {
+    super(message, options);
+    this.name = 'RateLimitError';
+    this.retryAt = options.retryAt;
+  }
+}
+
+// The platform already has this post (same link or same text)
+export class DuplicateContentError extends PlatformError {
+  readonly category = 'duplicate_content';
+
+  constructor(message: string, options: PlatformErrorOptions = {}) {
+    super(message, options);
+    this.name = 'DuplicateContentError';
+  }
+}
+
+// The platform refused the post itself: invalid fields, oversized media, a missing subreddit or category
+export class ContentRejectedError extends PlatformError {
+  readonly category = 'content_rejected';
+
+  constructor(message: string, options: PlatformErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ContentRejectedError';
+  }
+}
+
+// The request never got a response: timeouts, resets, DNS failures
+export class NetworkError extends PlatformError {
+  readonly category = 'network';
+
+  constructor(message: string, options: PlatformErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+// The platform answered but could not handle the request (5xx, maintenance)
+export class PlatformUnavailableError extends PlatformError {
+  readonly category = 'platform_unavailable';
+
+  constructor(message: string, options: PlatformErrorOptions = {}) {
+    super(message, options);
+    this.name = 'PlatformUnavailableError';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,2 @@
+export * from './PlatformError';
+export * from './ExitCode';
\ No newline at end of file
@@ -1,5 +1,15 @@
 export * from './models';
 export * from './adapters';
 export * from './config';
+export * from './content';
 export * from './core';
+export * from './errors';
+export * from './media';
+export * from './platforms';
+export * from './plugins';
+export * from './preview';
+export * from './ratelimit';
+export * from './templates';
+export * from './storage';
+export * from './scheduler';
 export * from './utils';
\ No newline at end of file
@@ -0,0 +1,181 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Tool, ToolImage, ToolImages } from '../models';
+import { ContentRejectedError } from '../errors';
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'svg';
+
+export interface MediaFile {
+  source: string;
+  filename: string;
+  format?: ImageFormat;
+  mimeType: string;
+  data: Buffer;
+  alt?: string;
+}
+
+export interface MediaLimits {
+  formats: ImageFormat[];
+  maxBytes: number;
+  // Images per post
+  maxCount: number;
+}
+
+// Media the platform would refuse, caught before anything is uploaded
+export class MediaError extends ContentRejectedError {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'MediaError';
+  }
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+const EXTENSION_FORMATS: Record<string, ImageFormat> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.gif': 'gif',
+  '.webp': 'webp',
+  '.svg': 'svg'
+};
+
+export function isRemoteImage(image: ToolImage): boolean {
+  return /^https?:\/\//i.test(image.src);
+}
+
+// For images that are only referenced by URL and never downloaded
+export function guessImageFormat(src: string): ImageFormat | undefined {
+  const pathname = /^https?:\/\//i.test(src) ? new URL(src).pathname : src;
+  return EXTENSION_FORMATS[path.extname(pathname).toLowerCase()];
+}
+
+// Social card first, then screenshots, then the logo
+export function listToolImages(images: ToolImages | undefined): ToolImage[] {
+  if (!images) {
+    return [];
+  }
+
+  return [images.socialCard, ...(images.screenshots || []), images.logo]
+    .filter((image): image is ToolImage => image !== undefined);
+}
+
+export function getPrimaryImage(images: ToolImages | undefined): ToolImage | undefined {
+  return listToolImages(images)[0];
+}
+
+// Local image paths in a tool file are relative to the file, like longDescriptionFile
+// Malformed entries are passed through untouched for ToolValidator to report
+export function resolveToolImages<T extends Partial<Tool>>(tool: T, baseDir: string): T {
+  if (!tool.images || typeof tool.images !== 'object' || Array.isArray(tool.images)) {
+    return tool;
+  }
+
+  const resolve = (image: ToolImage): ToolImage => typeof image?.src !== 'string' || isRemoteImage(image)
+    ? image
+    : { ...image, src: path.resolve(baseDir, image.src) };
+
+  return {
+    ...tool,
+    images: {
+      ...(tool.images.logo && { logo: resolve(tool.images.logo) }),
+      ...(tool.images.socialCard && { socialCard: resolve(tool.images.socialCard) }),
+      ...(tool.images.screenshots && {
+        screenshots: Array.isArray(tool.images.screenshots) ? tool.images.screenshots.map(resolve) : tool.images.screenshots
+      })
+    }
+  };
+}
+
+export function detectImageFormat(data: Buffer): ImageFormat | undefined {
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'jpeg';
+  }
+
+  if (data.length >= 6 && /^GIF8[79]a$/.test(data.subarray(0, 6).toString('ascii'))) {
+    return 'gif';
+  }
+
+  if (data.length >= 12 && data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'webp';
+  }
+
+  // SVG is text, so look for the root element near the start of the markup
+  const head = data.subarray(0, 1024).toString('utf8').trimStart();
+  if (head.startsWith('<') && /<svg[\s>]/i.test(head)) {
+    return 'svg';
+  }
+
+  return undefined;
+}
+
+export async function loadMediaFile(image: ToolImage): Promise<MediaFile> {
+  let data: Buffer;
+
+  if (isRemoteImage(image)) {
+    const response = await axios.get<ArrayBuffer>(image.src, { responseType: 'arraybuffer', timeout: 30000 });
+    data = Buffer.from(response.data);
+  } else {
+    if (!fs.existsSync(image.src)) {
+      throw new MediaError(`Image not found: ${image.src}`);
+    }
+    data = fs.readFileSync(image.src);
+  }
+
+  const filename = (isRemoteImage(image) ? path.posix.basename(new URL(image.src).pathname) : path.basename(image.src)) || 'image';
+  const format = detectImageFormat(data);
+
+  return {
+    source: image.src,
+    filename,
+    format,
+    mimeType: format ? MIME_TYPES[format] : 'application/octet-stream',
+    data,
+    alt: image.alt
+  };
+}
+
+export function validateMedia(file: MediaFile, limits: MediaLimits, platform: string): string[] {
+  const errors: string[] = [];
+
+  if (!file.format) {
+    errors.push(`${file.filename} is not a recognized image`);
+  } else if (!limits.formats.includes(file.format)) {
+    errors.push(`${file.filename}: ${platform} does not accept ${file.format} images (use ${limits.formats.join(', ')})`);
+  }
+
+  if (file.data.length > limits.maxBytes) {
+    errors.push(`${file.filename} is ${formatBytes(file.data.length)}; ${platform} allows up to ${formatBytes(limits.maxBytes)}`);
+  }
+
+  return errors;
+}
+
+// Loads and checks every image before anything is uploaded, so a bad file fails the post up front
+export async function loadValidatedMedia(images: ToolImage[], limits: MediaLimits, platform: string): Promise<MediaFile[]> {
+  const files = await Promise.all(images.slice(0, limits.maxCount).map(loadMediaFile));
+  const errors = files.flatMap(file => validateMedia(file, limits, platform));
+
+  if (errors.length > 0) {
+    throw new MediaError(`Invalid images for ${platform}`, errors);
+  }
+
+  return files;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+}
\ No newline at end of file
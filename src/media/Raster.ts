@@ -0,0 +1,138 @@
+import * as zlib from 'zlib';
+
+export type RGB = [number, number, number];
+
+// Classic 5x7 LCD font for printable ASCII (0x20-0x7e): five column bytes per glyph, least significant bit on top
+const FONT_5X7 = [
+  '0000000000', '00005f0000', '0007000700', '147f147f14', '242a7f2a12', '2313086462', '3649552250', '0005030000',
+  '001c224100', '0041221c00', '142a1c2a14', '08083e0808', '0050300000', '0808080808', '0060600000', '2010080402',
+  '3e5149453e', '00427f4000', '4261514946', '2141454b31', '1814127f10', '2745454539', '3c4a494930', '0171090503',
+  '3649494936', '064949291e', '0036360000', '0056360000', '0814224100', '1414141414', '0041221408', '0201510906',
+  '324979413e', '7e1111117e', '7f49494936', '3e41414122', '7f4141221c', '7f49494941', '7f09090101', '3e41415132',
+  '7f0808087f', '00417f4100', '2040413f01', '7f08142241', '7f40404040', '7f0204027f', '7f0408107f', '3e4141413e',
+  '7f09090906', '3e4151215e', '7f09192946', '4649494931', '01017f0101', '3f4040403f', '1f2040201f', '7f2018207f',
+  '6314081463', '0304780403', '6151494543', '007f414100', '0204081020', '0041417f00', '0402010204', '4040404040',
+  '0001020400', '2054545478', '7f48444438', '3844444420', '384444487f', '3854545418', '087e090102', '081454543c',
+  '7f08040478', '00447d4000', '2040443d00', '007f102844', '00417f4000', '7c0418047c', '7c08040478', '3844444438',
+  '7c14141408', '081414187c', '7c08040408', '4854545420', '043f444020', '3c4040207c', '1c2040201c', '3c4030403c',
+  '4428102844', '0c5050503c', '4464544c44', '0008364100', '00007f0000', '0041360800', '0804080408'
+].map(glyph => Buffer.from(glyph, 'hex'));
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+// One blank column between glyphs
+export const GLYPH_ADVANCE = GLYPH_WIDTH + 1;
+
+// Reduces text to what the bitmap font can draw: accents are stripped and other characters dropped
+export function toFontText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function parseHexColor(color: string): RGB | undefined {
+  const match = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const hex = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1];
+
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as RGB;
+}
+
+// A minimal RGB canvas: filled rectangles and bitmap text, encoded as PNG with nothing but zlib
+export class Raster {
+  private readonly pixels: Buffer;
+
+  constructor(readonly width: number, readonly height: number, background: RGB) {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: RGB): void {
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + width));
+    const bottom = Math.min(this.height, Math.round(y + height));
+
+    for (let row = top; row < bottom; row++) {
+      for (let col = left; col < right; col++) {
+        const offset = (row * this.width + col) * 3;
+        this.pixels[offset] = color[0];
+        this.pixels[offset + 1] = color[1];
+        this.pixels[offset + 2] = color[2];
+      }
+    }
+  }
+
+  // Draws text already passed through toFontText, each font pixel as a scale x scale block
+  drawText(text: string, x: number, y: number, scale: number, color: RGB): void {
+    [...text].forEach((char, index) => {
+      const glyph = FONT_5X7[char.charCodeAt(0) - 0x20];
+      if (!glyph) {
+        return;
+      }
+
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        for (let row = 0; row < GLYPH_HEIGHT; row++) {
+          if (glyph[col] & (1 << row)) {
+            this.fillRect(x + (index * GLYPH_ADVANCE + col) * scale, y + row * scale, scale, scale, color);
+          }
+        }
+      }
+    });
+  }
+
+  toPng(): Buffer {
+    // Every scanline is prefixed with filter type 0 (none)
+    const stride = this.width * 3;
+    const scanlines = Buffer.alloc((stride + 1) * this.height);
+    for (let row = 0; row < this.height; row++) {
+      this.pixels.copy(scanlines, row * (stride + 1) + 1, row * stride, (row + 1) * stride);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // truecolor RGB
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', zlib.deflateSync(scanlines)),
+      pngChunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
\ No newline at end of file
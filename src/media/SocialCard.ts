@@ -0,0 +1,381 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Tool, ToolImage } from '../models';
+import { detectImageFormat, isRemoteImage } from './MediaFile';
+import { GLYPH_ADVANCE, GLYPH_HEIGHT, RGB, Raster, parseHexColor, toFontText } from './Raster';
+
+export type SocialCardFormat = 'png' | 'svg';
+
+export interface SocialCardOptions {
+  // Generate a card for tools without images.socialCard
+  enabled?: boolean;
+  format?: SocialCardFormat;
+  backgroundColor?: string;
+  brandColor?: string;
+  textColor?: string;
+  // Local image drawn on SVG cards; defaults to the tool's logo
+  logo?: string;
+  // Defaults to cards/ inside the storage directory
+  cacheDir?: string;
+}
+
+export const SOCIAL_CARD_WIDTH = 1200;
+export const SOCIAL_CARD_HEIGHT = 630;
+
+const DEFAULT_COLORS = {
+  backgroundColor: '#0f172a',
+  brandColor: '#6366f1',
+  textColor: '#f8fafc'
+};
+
+const COLOR_OPTIONS = ['backgroundColor', 'brandColor', 'textColor'] as const;
+
+// Bumped whenever the layout changes so cached cards are regenerated
+const LAYOUT_VERSION = 1;
+
+const MARGIN = 80;
+const CONTENT_WIDTH = SOCIAL_CARD_WIDTH - MARGIN * 2;
+const LOGO_SIZE = 96;
+const TAG_PADDING = 12;
+const MAX_TAGS = 5;
+
+// Text sizes are multiples of the 5x7 bitmap font so PNG and SVG cards share one layout;
+// SVG uses a monospace font whose advance (0.6em) matches the bitmap glyphs
+const TEXT_STYLES = {
+  title: { scale: 8, lineGap: 24, maxLines: 2 },
+  description: { scale: 4, lineGap: 16, maxLines: 4 },
+  footer: { scale: 3, lineGap: 0, maxLines: 1 }
+};
+
+type TextStyle = typeof TEXT_STYLES[keyof typeof TEXT_STYLES];
+
+interface TextBlock {
+  lines: string[];
+  x: number;
+  y: number;
+  style: TextStyle;
+}
+
+interface TagPill {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface CardLayout {
+  title: TextBlock;
+  description: TextBlock;
+  tags: TagPill[];
+  host?: TextBlock;
+  logo?: { x: number; y: number; size: number };
+}
+
+interface CardLogo {
+  mimeType: string;
+  data: Buffer;
+}
+
+export function validateSocialCardOptions(options: SocialCardOptions): string[] {
+  const errors: string[] = [];
+
+  if (options.format !== undefined && !['png', 'svg'].includes(options.format)) {
+    errors.push('Social card format must be "png" or "svg"');
+  }
+
+  COLOR_OPTIONS.forEach(option => {
+    const value = options[option];
+    if (value !== undefined && (typeof value !== 'string' || !parseHexColor(value))) {
+      errors.push(`Social card ${option} must be a hex color like #1e293b`);
+    }
+  });
+
+  return errors;
+}
+
+export class SocialCardGenerator {
+  private readonly format: SocialCardFormat;
+  private readonly colors: typeof DEFAULT_COLORS;
+
+  constructor(
+    private options: SocialCardOptions = {},
+    private cacheDir: string = options.cacheDir || path.join('.syndication', 'cards')
+  ) {
+    const errors = validateSocialCardOptions(options);
+    if (errors.length > 0) {
+      throw new Error(`Invalid social card options: ${errors.join('; ')}`);
+    }
+
+    this.format = options.format || 'png';
+    this.colors = {
+      backgroundColor: options.backgroundColor || DEFAULT_COLORS.backgroundColor,
+      brandColor: options.brandColor || DEFAULT_COLORS.brandColor,
+      textColor: options.textColor || DEFAULT_COLORS.textColor
+    };
+  }
+
+  // Writes the card to the cache directory, reusing an earlier render when nothing that affects it has changed
+  generate(tool: Tool): ToolImage {
+    const logo = this.loadLogo(tool);
+    const key = crypto.createHash('sha256')
+      .update(JSON.stringify({
+        version: LAYOUT_VERSION,
+        format: this.format,
+        colors: this.colors,
+        name: tool.name,
+        shortDescription: tool.shortDescription,
+        tags: tool.tags || [],
+        url: tool.url
+      }))
+      .update(logo?.data || '')
+      .digest('hex')
+      .slice(0, 12);
+
+    const slug = (tool.id || tool.name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tool';
+    const filePath = path.resolve(this.cacheDir, `${slug}-${key}.${this.format}`);
+
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, this.renderCard(tool, logo));
+    }
+
+    return { src: filePath, alt: `${tool.name}: ${tool.shortDescription}` };
+  }
+
+  render(tool: Tool): Buffer {
+    return this.renderCard(tool, this.loadLogo(tool));
+  }
+
+  private renderCard(tool: Tool, logo?: CardLogo): Buffer {
+    return this.format === 'svg'
+      ? Buffer.from(this.renderSvgCard(tool, logo), 'utf8')
+      : this.renderPngCard(tool);
+  }
+
+  // The bitmap font only covers ASCII and PNG cards cannot embed images, so they are text only
+  private renderPngCard(tool: Tool): Buffer {
+    const colors = {
+      background: parseHexColor(this.colors.backgroundColor)!,
+      brand: parseHexColor(this.colors.brandColor)!,
+      text: parseHexColor(this.colors.textColor)!
+    };
+    const layout = this.layout(tool, toFontText, false);
+    const raster = new Raster(SOCIAL_CARD_WIDTH, SOCIAL_CARD_HEIGHT, colors.background);
+    const muted = mixColors(colors.text, colors.background, 0.75);
+
+    raster.fillRect(0, 0, SOCIAL_CARD_WIDTH, 16, colors.brand);
+
+    const drawBlock = (block: TextBlock, color: RGB): void => {
+      block.lines.forEach((line, index) => {
+        raster.drawText(line, block.x, block.y + index * lineHeight(block.style), block.style.scale, color);
+      });
+    };
+
+    drawBlock(layout.title, colors.text);
+    drawBlock(layout.description, muted);
+
+    layout.tags.forEach(tag => {
+      raster.fillRect(tag.x, tag.y, tag.width, tag.height, colors.brand);
+      raster.drawText(tag.text, tag.x + TAG_PADDING, tag.y + TAG_PADDING, TEXT_STYLES.footer.scale, colors.text);
+    });
+
+    if (layout.host) {
+      drawBlock(layout.host, colors.brand);
+    }
+
+    return raster.toPng();
+  }
+
+  private renderSvgCard(tool: Tool, logo?: CardLogo): string {
+    const layout = this.layout(tool, text => text.replace(/\s+/g, ' ').trim(), logo !== undefined);
+    const { backgroundColor, brandColor, textColor } = this.colors;
+
+    const textBlock = (block: TextBlock, fill: string, opacity: number = 1): string[] => block.lines.map((line, index) => {
+      // SVG text is positioned by its baseline, the bitmap font by its top edge
+      const baseline = block.y + index * lineHeight(block.style) + GLYPH_HEIGHT * block.style.scale;
+      return `  <text x="${block.x}" y="${baseline}" font-size="${fontSize(block.style)}" fill="${fill}"${opacity < 1 ? ` fill-opacity="${opacity}"` : ''}>${escapeXml(line)}</text>`;
+    });
+
+    const elements = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${SOCIAL_CARD_WIDTH}" height="${SOCIAL_CARD_HEIGHT}" viewBox="0 0 ${SOCIAL_CARD_WIDTH} ${SOCIAL_CARD_HEIGHT}" font-family="DejaVu Sans Mono, Menlo, Consolas, monospace">`,
+      `  <rect width="${SOCIAL_CARD_WIDTH}" height="${SOCIAL_CARD_HEIGHT}" fill="${backgroundColor}"/>`,
+      `  <rect width="${SOCIAL_CARD_WIDTH}" height="16" fill="${brandColor}"/>`,
+      ...textBlock(layout.title, textColor),
+      ...textBlock(layout.description, textColor, 0.75),
+      ...layout.tags.flatMap(tag => [
+        `  <rect x="${tag.x}" y="${tag.y}" width="${tag.width}" height="${tag.height}" rx="8" fill="${brandColor}"/>`,
+        `  <text x="${tag.x + TAG_PADDING}" y="${tag.y + TAG_PADDING + GLYPH_HEIGHT * TEXT_STYLES.footer.scale}" font-size="${fontSize(TEXT_STYLES.footer)}" fill="${textColor}">${escapeXml(tag.text)}</text>`
+      ]),
+      ...(layout.host ? textBlock(layout.host, brandColor) : []),
+      ...(layout.logo && logo
+        ? [`  <image x="${layout.logo.x}" y="${layout.logo.y}" width="${layout.logo.size}" height="${layout.logo.size}" href="data:${logo.mimeType};base64,${logo.data.toString('base64')}"/>`]
+        : []),
+      '</svg>'
+    ];
+
+    return elements.join('\n');
+  }
+
+  private layout(tool: Tool, normalize: (text: string) => string, hasLogo: boolean): CardLayout {
+    const title: TextBlock = {
+      lines: wrapText(normalize(tool.name), charsPerLine(TEXT_STYLES.title, CONTENT_WIDTH), TEXT_STYLES.title.maxLines),
+      x: MARGIN,
+      y: 96,
+      style: TEXT_STYLES.title
+    };
+
+    const description: TextBlock = {
+      lines: wrapText(normalize(tool.shortDescription), charsPerLine(TEXT_STYLES.description, CONTENT_WIDTH), TEXT_STYLES.description.maxLines),
+      x: MARGIN,
+      y: title.y + title.lines.length * lineHeight(TEXT_STYLES.title) + 24,
+      style: TEXT_STYLES.description
+    };
+
+    // The footer row holds tags on the left and the logo or site name on the right
+    const footerHeight = GLYPH_HEIGHT * TEXT_STYLES.footer.scale + TAG_PADDING * 2;
+    const footerY = SOCIAL_CARD_HEIGHT - MARGIN - footerHeight;
+    const hostText = normalize(getHostname(tool.url));
+    const host: TextBlock | undefined = !hasLogo && hostText
+      ? {
+        lines: [hostText],
+        x: SOCIAL_CARD_WIDTH - MARGIN - textWidth(hostText, TEXT_STYLES.footer),
+        y: footerY + TAG_PADDING,
+        style: TEXT_STYLES.footer
+      }
+      : undefined;
+    const logo = hasLogo
+      ? { x: SOCIAL_CARD_WIDTH - MARGIN - LOGO_SIZE, y: SOCIAL_CARD_HEIGHT - MARGIN - LOGO_SIZE, size: LOGO_SIZE }
+      : undefined;
+    const tagsRight = logo ? logo.x - 24 : host ? host.x - 24 : SOCIAL_CARD_WIDTH - MARGIN;
+
+    const tags: TagPill[] = [];
+    let tagX = MARGIN;
+    for (const tag of (tool.tags || []).slice(0, MAX_TAGS)) {
+      const text = normalize(`#${tag}`);
+      const width = textWidth(text, TEXT_STYLES.footer) + TAG_PADDING * 2;
+      if (text.length < 2 || tagX + width > tagsRight) {
+        continue;
+      }
+
+      tags.push({ text, x: tagX, y: footerY, width, height: footerHeight });
+      tagX += width + 16;
+    }
+
+    return { title, description, tags, host, logo };
+  }
+
+  // Logos are embedded in SVG cards from local files only; remote logos would need a download
+  private loadLogo(tool: Tool): CardLogo | undefined {
+    if (this.format !== 'svg') {
+      return undefined;
+    }
+
+    const src = this.options.logo || tool.images?.logo?.src;
+    if (!src || isRemoteImage({ src }) || !fs.existsSync(src)) {
+      return undefined;
+    }
+
+    const data = fs.readFileSync(src);
+    const format = detectImageFormat(data);
+    if (!format) {
+      return undefined;
+    }
+
+    return { mimeType: format === 'svg' ? 'image/svg+xml' : `image/${format}`, data };
+  }
+}
+
+// Fills in images.socialCard with a generated card unless the tool already has one
+export function applySocialCard(tool: Tool, generator: SocialCardGenerator): Tool {
+  if (tool.images?.socialCard) {
+    return tool;
+  }
+
+  return {
+    ...tool,
+    images: { ...tool.images, socialCard: generator.generate(tool) }
+  };
+}
+
+function lineHeight(style: TextStyle): number {
+  return GLYPH_HEIGHT * style.scale + style.lineGap;
+}
+
+function fontSize(style: TextStyle): number {
+  return Math.round(GLYPH_ADVANCE * style.scale / 0.6);
+}
+
+function textWidth(text: string, style: TextStyle): number {
+  return [...text].length * GLYPH_ADVANCE * style.scale;
+}
+
+function charsPerLine(style: TextStyle, width: number): number {
+  return Math.floor(width / (GLYPH_ADVANCE * style.scale));
+}
+
+// Greedy word wrap; words longer than a line are split and overflowing text ends with an ellipsis
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ').filter(Boolean)) {
+    let remaining = word;
+
+    while ([...remaining].length > maxChars) {
+      const room = current ? maxChars - [...current].length - 1 : maxChars;
+      if (room <= 0) {
+        lines.push(current);
+        current = '';
+        continue;
+      }
+      const chars = [...remaining];
+      lines.push(current ? `${current} ${chars.slice(0, room).join('')}` : chars.slice(0, room).join(''));
+      current = '';
+      remaining = chars.slice(room).join('');
+    }
+
+    if (!current) {
+      current = remaining;
+    } else if ([...current].length + 1 + [...remaining].length <= maxChars) {
+      current += ` ${remaining}`;
+    } else {
+      lines.push(current);
+      current = remaining;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  if (lines.length <= maxLines) {
+    return lines;
+  }
+
+  const kept = lines.slice(0, maxLines);
+  const last = [...kept[maxLines - 1]].slice(0, maxChars - 3).join('').trimEnd();
+  kept[maxLines - 1] = `${last}...`;
+  return kept;
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function mixColors(foreground: RGB, background: RGB, weight: number): RGB {
+  return foreground.map((channel, index) => Math.round(channel * weight + background[index] * (1 - weight))) as RGB;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
\ No newline at end of file
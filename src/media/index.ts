@@ -0,0 +1,2 @@
+export * from './MediaFile';
+export * from './SocialCard';
\ No newline at end of file
@@ -18,6 +18,12 @@ export interface RateLimitConfig {
   burstLimit: number;
 }
 
+// Title and body templates resolved from GlobalConfig.templates for a single platform
+export interface PlatformTemplates {
+  title?: string;
+  body?: string;
+}
+
 export interface PlatformConfig {
   platform: string;
   enabled: boolean;
@@ -25,6 +31,7 @@ export interface PlatformConfig {
   rateLimit: RateLimitConfig;
   baseUrl: string;
   settings: Record<string, any>;
+  templates?: PlatformTemplates;
   retryConfig: {
     maxRetries: number;
     baseDelay: number;
@@ -38,7 +45,7 @@ export interface RedditConfig extends PlatformConfig {
   settings: {
     subreddits: string[];
     defaultFlair?: string;
-    postType: 'link' | 'text' | 'auto';
+    postType: 'link' | 'text' | 'auto' | 'image';
     titleTemplate?: string;
   };
 }
@@ -79,8 +86,12 @@ export interface TwitterConfig extends PlatformConfig {
   platform: 'twitter';
   settings: {
     enableThreads: boolean;
+    // Appends "1/n" to each tweet of a thread
+    numberThreads?: boolean;
     includeHashtags: boolean;
     defaultHashtags?: string[];
+    // Hashtags added to the opening tweet, 3 by default
+    maxHashtags?: number;
     titleTemplate?: string;
   };
 }
@@ -1,72 +1,222 @@
+import { randomUUID } from 'crypto';
+import { PlatformErrorCategory, isRetryableCategory } from '../errors';
+
 export enum PublicationStatus {
   PENDING = 'pending',
   IN_PROGRESS = 'in_progress',
   SUCCESS = 'success',
   FAILED = 'failed',
-  RETRYING = 'retrying'
+  RETRYING = 'retrying',
+  SKIPPED = 'skipped',
+  DELETED = 'deleted'
 }
 
 export interface Publication {
   id: string;
   toolId: string;
+  toolVersion?: string;
   platform: string;
+  target?: string;
   status: PublicationStatus;
   timestamp: Date;
+  updatedAt?: Date;
   platformPostId?: string;
   url?: string;
   error?: string;
+  errorCategory?: PlatformErrorCategory;
   retryCount: number;
   maxRetries: number;
+  // When a RETRYING publication is due for its next attempt
+  nextAttemptAt?: Date;
   metadata?: Record<string, any>;
 }
 
+// Backoff between attempts made by separate runs, in milliseconds
+export interface RetryPolicy {
+  baseDelay: number;
+  maxDelay: number;
+  backoffMultiplier: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelay: 5 * 60 * 1000,
+  maxDelay: 6 * 60 * 60 * 1000,
+  backoffMultiplier: 2
+};
 
-export class PublicationManager {
+export interface FailureOptions {
+  // Decides whether the failure is retried; retryable only applies when the category is unknown
+  category?: PlatformErrorCategory;
+  retryable?: boolean;
+  // Earliest time a retry can succeed, such as when an exhausted rate limit resets
+  notBefore?: Date;
+  policy?: RetryPolicy;
+  metadata?: Publication['metadata'];
+}
+
+export interface PublicationQuery {
+  toolId?: string;
+  platform?: string;
+  status?: PublicationStatus;
+}
+
+export interface PublicationStore {
+  save(publication: Publication): void;
+  get(id: string): Publication | undefined;
+  find(query?: PublicationQuery): Publication[];
+}
+
+export class InMemoryPublicationStore implements PublicationStore {
   private publications: Map<string, Publication> = new Map();
 
-  createPublication(toolId: string, platform: string, maxRetries: number = 3): Publication {
+  save(publication: Publication): void {
+    this.publications.set(publication.id, publication);
+  }
+
+  get(id: string): Publication | undefined {
+    return this.publications.get(id);
+  }
+
+  find(query: PublicationQuery = {}): Publication[] {
+    return Array.from(this.publications.values())
+      .filter(pub => matchesPublicationQuery(pub, query));
+  }
+}
+
+export function matchesPublicationQuery(publication: Publication, query: PublicationQuery): boolean {
+  return (!query.toolId || publication.toolId === query.toolId) &&
+         (!query.platform || publication.platform === query.platform) &&
+         (!query.status || publication.status === query.status);
+}
+
+// Queued retries count as failures until they succeed
+export function hasFailed(publication: Pick<Publication, 'status'>): boolean {
+  return publication.status === PublicationStatus.FAILED || publication.status === PublicationStatus.RETRYING;
+}
+
+export function calculateNextAttempt(
+  retryCount: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  now: Date = new Date()
+): Date {
+  const delay = Math.min(policy.baseDelay * Math.pow(policy.backoffMultiplier, retryCount), policy.maxDelay);
+  return new Date(now.getTime() + delay);
+}
+
+export function formatPublicationTarget(publication: Pick<Publication, 'platform' | 'target'>): string {
+  return publication.target ? `${publication.platform}:${publication.target}` : publication.platform;
+}
+
+export class PublicationManager {
+  constructor(private store: PublicationStore = new InMemoryPublicationStore()) {}
+
+  createPublication(
+    toolId: string,
+    platform: string,
+    maxRetries: number = 3,
+    toolVersion?: string,
+    target?: string
+  ): Publication {
+    const targetSuffix = target ? `-${target.toLowerCase().replace(/[^a-z0-9]+/g, '-')}` : '';
     const publication: Publication = {
-      id: `${toolId}-${platform}-${Date.now()}`,
+      // Random rather than time-based, so publications created in the same millisecond never collide
+      id: `${toolId}-${platform}${targetSuffix}-${randomUUID()}`,
       toolId,
+      toolVersion,
       platform,
+      target,
       status: PublicationStatus.PENDING,
       timestamp: new Date(),
       retryCount: 0,
       maxRetries
     };
 
-    this.publications.set(publication.id, publication);
+    this.store.save(publication);
     return publication;
   }
 
   updatePublication(id: string, updates: Partial<Publication>): void {
-    const publication = this.publications.get(id);
+    const publication = this.store.get(id);
     if (publication) {
-      Object.assign(publication, updates);
+      Object.assign(publication, updates, { updatedAt: new Date() });
+      this.store.save(publication);
     }
   }
 
   getPublication(id: string): Publication | undefined {
-    return this.publications.get(id);
+    return this.store.get(id);
   }
 
   getPublicationsByTool(toolId: string): Publication[] {
-    return Array.from(this.publications.values())
-      .filter(pub => pub.toolId === toolId);
+    return this.find({ toolId });
   }
 
   getPublicationsByPlatform(platform: string): Publication[] {
-    return Array.from(this.publications.values())
-      .filter(pub => pub.platform === platform);
+    return this.find({ platform });
+  }
+
+  findExistingPublication(
+    toolId: string,
+    toolVersion: string,
+    platform: string,
+    target?: string
+  ): Publication | undefined {
+    // Dry runs never reached the platform, so they must not block a real publication
+    return this.find({ toolId, platform, status: PublicationStatus.SUCCESS })
+      .filter(pub => pub.toolVersion === toolVersion && pub.target === target)
+      .filter(pub => !pub.metadata?.dryRun)
+      .pop();
   }
 
   getFailedPublications(): Publication[] {
-    return Array.from(this.publications.values())
-      .filter(pub => pub.status === PublicationStatus.FAILED);
+    return [
+      ...this.find({ status: PublicationStatus.RETRYING }),
+      ...this.find({ status: PublicationStatus.FAILED })
+    ];
+  }
+
+  // Retryable failures with attempts left, whether or not their backoff has elapsed
+  getQueuedRetries(): Publication[] {
+    return this.find({ status: PublicationStatus.RETRYING });
+  }
+
+  // Queued retries whose backoff has elapsed
+  getDueRetries(now: Date = new Date()): Publication[] {
+    return this.getQueuedRetries()
+      .filter(pub => !pub.nextAttemptAt || pub.nextAttemptAt.getTime() <= now.getTime());
   }
 
   shouldRetry(publication: Publication): boolean {
-    return publication.status === PublicationStatus.FAILED && 
-           publication.retryCount < publication.maxRetries;
+    return hasFailed(publication) && publication.retryCount < publication.maxRetries;
+  }
+
+  // Retryable failures with attempts left are queued as RETRYING; anything else fails for good
+  recordFailure(id: string, error: string, options: FailureOptions = {}): Publication | undefined {
+    const publication = this.store.get(id);
+    if (!publication) {
+      return undefined;
+    }
+
+    const retryable = options.category && options.category !== 'unknown'
+      ? isRetryableCategory(options.category)
+      : options.retryable === true;
+    const retry = retryable && publication.retryCount < publication.maxRetries;
+    const backoff = calculateNextAttempt(publication.retryCount, options.policy);
+    const nextAttemptAt = options.notBefore && options.notBefore > backoff ? options.notBefore : backoff;
+
+    this.updatePublication(id, {
+      status: retry ? PublicationStatus.RETRYING : PublicationStatus.FAILED,
+      error,
+      errorCategory: options.category,
+      nextAttemptAt: retry ? nextAttemptAt : undefined,
+      ...(options.metadata && { metadata: { ...publication.metadata, ...options.metadata } })
+    });
+
+    return this.store.get(id);
+  }
+
+  // Oldest first whatever order the store keeps them in, so the last one is always the latest
+  private find(query: PublicationQuery): Publication[] {
+    return this.store.find(query).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 }
\ No newline at end of file
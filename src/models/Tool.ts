@@ -1,8 +1,42 @@
+// A changelog entry being announced in release mode
+export interface ToolRelease {
+  version: string;
+  date?: string;
+  notes: string;
+  url?: string;
+}
+
+// src is a local path (relative to the tool file) or an http(s) URL
+export interface ToolImage {
+  src: string;
+  alt?: string;
+}
+
+export interface ToolImages {
+  logo?: ToolImage;
+  screenshots?: ToolImage[];
+  // Open Graph style card (ideally 1200x630) used as the cover or attached image
+  socialCard?: ToolImage;
+}
+
+// Replaces generated content for a platform ("hackernews") or a single target ("reddit:r/programming")
+export interface ContentOverride {
+  title?: string;
+  body?: string;
+  tags?: string[];
+  url?: string;
+  postType?: string;
+}
+
 export interface Tool {
   id: string;
   name: string;
   shortDescription: string;
   longDescription: string;
+  // Markdown file (e.g. ./README.md) that longDescription is loaded from, relative to the tool file
+  longDescriptionFile?: string;
+  // Heading of the section within longDescriptionFile to use instead of the whole file
+  longDescriptionSection?: string;
   url: string;
   category: string[];
   targetAudience: string[];
@@ -11,6 +45,28 @@ export interface Tool {
   githubUrl?: string;
   tags?: string[];
   metadata?: Record<string, any>;
+  // Set when syndicating a release announcement rather than the tool itself
+  release?: ToolRelease;
+  images?: ToolImages;
+  overrides?: Record<string, ContentOverride>;
+}
+
+export function generateToolId(name: string): string {
+  return name.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+export function formatOverrideKey(platform: string, target?: string): string {
+  return target ? `${platform}:${target}` : platform;
+}
+
+// Target overrides are layered over the platform's, field by field
+export function resolveContentOverride(tool: Tool, platform: string, target?: string): ContentOverride {
+  return {
+    ...tool.overrides?.[platform],
+    ...(target && tool.overrides?.[formatOverrideKey(platform, target)])
+  };
 }
 
 export interface ToolValidationResult {
@@ -18,6 +74,8 @@ export interface ToolValidationResult {
   errors: string[];
 }
 
+const OVERRIDE_FIELDS: (keyof ContentOverride)[] = ['title', 'body', 'tags', 'url', 'postType'];
+
 export class ToolValidator {
   static validate(tool: Tool): ToolValidationResult {
     const errors: string[] = [];
@@ -42,6 +100,10 @@ export class ToolValidator {
       errors.push('Long description is required');
     }
 
+    if (tool.longDescriptionSection && !tool.longDescriptionFile) {
+      errors.push('Long description section requires a long description file');
+    }
+
     if (!tool.url || !this.isValidUrl(tool.url)) {
       errors.push('Valid URL is required');
     }
@@ -54,12 +116,95 @@ export class ToolValidator {
       errors.push('At least one target audience is required');
     }
 
+    if (tool.overrides !== undefined) {
+      errors.push(...this.validateOverrides(tool.overrides));
+    }
+
+    if (tool.images !== undefined) {
+      errors.push(...this.validateImages(tool.images));
+    }
+
     return {
       isValid: errors.length === 0,
       errors
     };
   }
 
+  private static validateOverrides(overrides: Record<string, ContentOverride>): string[] {
+    const errors: string[] = [];
+
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+      return ['Overrides must be an object keyed by platform'];
+    }
+
+    Object.entries(overrides).forEach(([key, override]) => {
+      const [platform, ...target] = key.split(':');
+      if (!platform.trim() || (target.length > 0 && !target.join(':').trim())) {
+        errors.push(`Invalid override key "${key}": use "platform" or "platform:target"`);
+      }
+
+      if (typeof override !== 'object' || override === null || Array.isArray(override)) {
+        errors.push(`Override for ${key} must be an object`);
+        return;
+      }
+
+      Object.keys(override)
+        .filter(field => !OVERRIDE_FIELDS.includes(field as keyof ContentOverride))
+        .forEach(field => errors.push(`Unknown override field for ${key}: ${field}`));
+
+      (['title', 'body', 'postType'] as const).forEach(field => {
+        const value = override[field];
+        if (value !== undefined && (typeof value !== 'string' || value.trim().length === 0)) {
+          errors.push(`Override ${field} for ${key} must be a non-empty string`);
+        }
+      });
+
+      if (override.tags !== undefined &&
+          (!Array.isArray(override.tags) || override.tags.some(tag => typeof tag !== 'string'))) {
+        errors.push(`Override tags for ${key} must be a list of strings`);
+      }
+
+      if (override.url !== undefined && !this.isValidUrl(override.url)) {
+        errors.push(`Override URL for ${key} must be a valid URL`);
+      }
+    });
+
+    return errors;
+  }
+
+  private static validateImages(images: ToolImages): string[] {
+    const errors: string[] = [];
+
+    if (typeof images !== 'object' || images === null || Array.isArray(images)) {
+      return ['Images must be an object with logo, screenshots or socialCard'];
+    }
+
+    const checkImage = (image: ToolImage | undefined, label: string): void => {
+      if (image === undefined) {
+        return;
+      }
+
+      if (typeof image !== 'object' || image === null || typeof image.src !== 'string' || image.src.trim().length === 0) {
+        errors.push(`Image ${label} must have a src`);
+      } else if (image.alt !== undefined && typeof image.alt !== 'string') {
+        errors.push(`Image ${label} alt text must be a string`);
+      }
+    };
+
+    checkImage(images.logo, 'logo');
+    checkImage(images.socialCard, 'socialCard');
+
+    if (images.screenshots !== undefined) {
+      if (!Array.isArray(images.screenshots)) {
+        errors.push('Image screenshots must be a list');
+      } else {
+        images.screenshots.forEach((image, index) => checkImage(image, `screenshots[${index}]`));
+      }
+    }
+
+    return errors;
+  }
+
   private static isValidUrl(url: string): boolean {
     try {
       new URL(url);
@@ -0,0 +1,136 @@
+import * as crypto from 'crypto';
+import { Tool } from './Tool';
+
+export interface ToolSnapshot {
+  toolId: string;
+  version: string;
+  checksum: string;
+  registeredAt: Date;
+  tool: Tool;
+}
+
+export interface ToolStore {
+  save(snapshot: ToolSnapshot): void;
+  get(toolId: string, version: string): ToolSnapshot | undefined;
+  list(toolId?: string): ToolSnapshot[];
+  remove(toolId: string, version?: string): number;
+}
+
+export class InMemoryToolStore implements ToolStore {
+  private snapshots: Map<string, ToolSnapshot> = new Map();
+
+  save(snapshot: ToolSnapshot): void {
+    this.snapshots.set(`${snapshot.toolId}@${snapshot.version}`, snapshot);
+  }
+
+  get(toolId: string, version: string): ToolSnapshot | undefined {
+    return this.snapshots.get(`${toolId}@${version}`);
+  }
+
+  list(toolId?: string): ToolSnapshot[] {
+    return Array.from(this.snapshots.values())
+      .filter(snapshot => !toolId || snapshot.toolId === toolId);
+  }
+
+  remove(toolId: string, version?: string): number {
+    const matching = this.list(toolId).filter(snapshot => !version || snapshot.version === version);
+    matching.forEach(snapshot => this.snapshots.delete(`${snapshot.toolId}@${snapshot.version}`));
+    return matching.length;
+  }
+}
+
+export interface RegisterOptions {
+  // Replaces the snapshot of a version whose content changed, for deliberate edits of published posts
+  replace?: boolean;
+}
+
+// Retries and scheduled jobs republish a version's snapshot, so its content must not change under them
+export class ToolVersionConflictError extends Error {
+  constructor(public readonly toolId: string, public readonly version: string) {
+    super(`${toolId} ${version} is already registered with different content; bump the version to publish the changes`);
+    this.name = 'ToolVersionConflictError';
+  }
+}
+
+export const UNVERSIONED_TOOL_VERSION = 'unversioned';
+
+export function computeToolChecksum(tool: Tool): string {
+  return crypto.createHash('sha256').update(JSON.stringify(tool)).digest('hex');
+}
+
+export function resolveToolVersion(tool: Tool): string {
+  // A release announcement is a separate post from the tool announcement of the same version
+  if (tool.release) {
+    return `release-${tool.release.version}`;
+  }
+
+  // Unversioned tools share one key, so fixing a typo updates the tool instead of announcing it again
+  return tool.version || UNVERSIONED_TOOL_VERSION;
+}
+
+export class ToolRegistry {
+  constructor(private store: ToolStore = new InMemoryToolStore()) {}
+
+  register(tool: Tool, options: RegisterOptions = {}): ToolSnapshot {
+    const snapshot: ToolSnapshot = {
+      toolId: tool.id,
+      version: resolveToolVersion(tool),
+      checksum: computeToolChecksum(tool),
+      registeredAt: new Date(),
+      tool: JSON.parse(JSON.stringify(tool))
+    };
+
+    const existing = this.store.get(snapshot.toolId, snapshot.version);
+    if (existing && existing.checksum === snapshot.checksum) {
+      return existing;
+    }
+
+    // Without a version to bump, the latest content of an unversioned tool simply replaces the old
+    if (existing && !options.replace && snapshot.version !== UNVERSIONED_TOOL_VERSION) {
+      throw new ToolVersionConflictError(snapshot.toolId, snapshot.version);
+    }
+
+    if (existing) {
+      // Keeps its place among the tool's versions
+      snapshot.registeredAt = existing.registeredAt;
+    }
+
+    this.store.save(snapshot);
+    return snapshot;
+  }
+
+  getSnapshot(toolId: string, version?: string): ToolSnapshot | undefined {
+    if (version) {
+      return this.store.get(toolId, version);
+    }
+
+    const snapshots = this.listVersions(toolId);
+    return snapshots[snapshots.length - 1];
+  }
+
+  get(toolId: string, version?: string): Tool | undefined {
+    return this.getSnapshot(toolId, version)?.tool;
+  }
+
+  listVersions(toolId: string): ToolSnapshot[] {
+    return this.store.list(toolId)
+      .sort((a, b) => a.registeredAt.getTime() - b.registeredAt.getTime());
+  }
+
+  list(): ToolSnapshot[] {
+    const latest = new Map<string, ToolSnapshot>();
+
+    this.store.list().forEach(snapshot => {
+      const current = latest.get(snapshot.toolId);
+      if (!current || current.registeredAt.getTime() <= snapshot.registeredAt.getTime()) {
+        latest.set(snapshot.toolId, snapshot);
+      }
+    });
+
+    return Array.from(latest.values());
+  }
+
+  remove(toolId: string, version?: string): number {
+    return this.store.remove(toolId, version);
+  }
+}
\ No newline at end of file
@@ -1,3 +1,4 @@
 export * from './Tool';
+export * from './ToolRegistry';
 export * from './Publication';
 export * from './PlatformConfig';
\ No newline at end of file
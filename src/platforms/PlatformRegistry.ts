@@ -0,0 +1,99 @@
+import { PlatformAdapter } from '../adapters/PlatformAdapter';
+import { PlatformConfig } from '../models';
+import { MediaLimits } from '../media';
+import { PlatformSettingsSchema, applySettingsSchema } from './SettingsSchema';
+
+export type PlatformEnv = Record<string, string | undefined>;
+
+export interface PlatformLimits {
+  title?: number;
+  body?: number;
+  tags?: number;
+  // Per-post limit for platforms that split content into a thread
+  threadPost?: number;
+  // Counts thread posts the way the platform does, when that differs from string length
+  measureText?: (text: string) => number;
+  // Accepted image formats, size and count for platforms that upload Tool.images
+  media?: MediaLimits;
+}
+
+export interface PlatformDefinition<T extends PlatformConfig = PlatformConfig> {
+  name: string;
+  displayName: string;
+  createAdapter(config: T): PlatformAdapter;
+  configSchema?: PlatformSettingsSchema;
+  limits?: PlatformLimits;
+  // Builds a config from environment variables, or returns undefined when the platform's credentials are absent
+  loadConfigFromEnv?(env: PlatformEnv): T | undefined;
+}
+
+export class PlatformRegistry {
+  private definitions: Map<string, PlatformDefinition> = new Map();
+
+  register<T extends PlatformConfig>(definition: PlatformDefinition<T>): void {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Platform already registered: ${definition.name}`);
+    }
+
+    this.definitions.set(definition.name, definition);
+  }
+
+  get(name: string): PlatformDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  list(): PlatformDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  createAdapter(config: PlatformConfig): PlatformAdapter {
+    const definition = this.definitions.get(config.platform);
+    if (!definition) {
+      throw new Error(`Unknown platform: ${config.platform}`);
+    }
+
+    if (!definition.configSchema) {
+      return definition.createAdapter(config);
+    }
+
+    const { settings, errors } = applySettingsSchema(definition.configSchema, config.settings);
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${config.platform} settings: ${errors.join(', ')}`);
+    }
+
+    return definition.createAdapter({ ...config, settings });
+  }
+
+  validateSettings(config: PlatformConfig): { isValid: boolean; errors: string[] } {
+    const definition = this.definitions.get(config.platform);
+    if (!definition) {
+      return { isValid: false, errors: [`Unknown platform: ${config.platform}`] };
+    }
+
+    const { errors } = definition.configSchema
+      ? applySettingsSchema(definition.configSchema, config.settings)
+      : { errors: [] };
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  loadConfigsFromEnv(env: PlatformEnv = process.env): PlatformConfig[] {
+    const configs: PlatformConfig[] = [];
+
+    for (const definition of this.definitions.values()) {
+      const config = definition.loadConfigFromEnv?.(env);
+      if (config) {
+        configs.push(config);
+      }
+    }
+
+    return configs;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+export interface SettingSchema {
+  type: 'string' | 'number' | 'boolean' | 'string[]';
+  required?: boolean;
+  default?: unknown;
+  description?: string;
+}
+
+// Describes the `settings` block a platform expects in its PlatformConfig
+export type PlatformSettingsSchema = Record<string, SettingSchema>;
+
+export function applySettingsSchema(
+  schema: PlatformSettingsSchema,
+  settings: Record<string, unknown> = {}
+): { settings: Record<string, unknown>; errors: string[] } {
+  const result: Record<string, unknown> = { ...settings };
+  const errors: string[] = [];
+
+  for (const [key, setting] of Object.entries(schema)) {
+    const value = result[key];
+
+    if (value === undefined || value === null) {
+      if (setting.default !== undefined) {
+        result[key] = setting.default;
+      } else if (setting.required) {
+        errors.push(`Setting "${key}" is required`);
+      }
+      continue;
+    }
+
+    if (!matchesSettingType(setting.type, value)) {
+      errors.push(`Setting "${key}" must be of type ${setting.type}`);
+    }
+  }
+
+  return { settings: result, errors };
+}
+
+function matchesSettingType(type: SettingSchema['type'], value: unknown): boolean {
+  if (type === 'string[]') {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+
+  return typeof value === type;
+}
\ No newline at end of file
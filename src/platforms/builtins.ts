@@ -0,0 +1,265 @@
+import {
+  RedditAdapter,
+  DevToAdapter,
+  GitHubAdapter,
+  LinkedInAdapter,
+  TwitterAdapter,
+  HackerNewsAdapter
+} from '../adapters';
+import {
+  PlatformConfig,
+  RedditConfig,
+  DevToConfig,
+  GitHubConfig,
+  LinkedInConfig,
+  TwitterConfig,
+  HackerNewsConfig
+} from '../models';
+import { MAX_TWEET_LENGTH, twitterTextLength } from '../content';
+import { PlatformDefinition, PlatformEnv } from './PlatformRegistry';
+
+const defaultRetryConfig: PlatformConfig['retryConfig'] = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  backoffMultiplier: 2
+};
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+export const redditPlatform: PlatformDefinition<RedditConfig> = {
+  name: 'reddit',
+  displayName: 'Reddit',
+  limits: { title: 300, body: 40000, media: RedditAdapter.MEDIA_LIMITS },
+  createAdapter: config => new RedditAdapter(config),
+  loadConfigFromEnv: (env: PlatformEnv) => {
+    if (!env.REDDIT_CLIENT_ID || !env.REDDIT_CLIENT_SECRET) {
+      return undefined;
+    }
+
+    return {
+      platform: 'reddit',
+      enabled: env.REDDIT_ENABLED !== 'false',
+      baseUrl: 'https://oauth.reddit.com',
+      auth: {
+        type: 'oauth2',
+        clientId: env.REDDIT_CLIENT_ID,
+        clientSecret: env.REDDIT_CLIENT_SECRET,
+        refreshToken: env.REDDIT_REFRESH_TOKEN,
+        scopes: ['submit', 'read']
+      },
+      rateLimit: {
+        requestsPerMinute: 60,
+        requestsPerHour: 600,
+        requestsPerDay: 1000,
+        burstLimit: 10
+      },
+      retryConfig: { ...defaultRetryConfig },
+      settings: {
+        subreddits: splitList(env.REDDIT_SUBREDDITS) || ['programming'],
+        postType: 'link',
+        titleTemplate: env.REDDIT_TITLE_TEMPLATE
+      }
+    };
+  }
+};
+
+export const devToPlatform: PlatformDefinition<DevToConfig> = {
+  name: 'dev.to',
+  displayName: 'Dev.to',
+  limits: { title: 255, tags: 4, media: DevToAdapter.MEDIA_LIMITS },
+  createAdapter: config => new DevToAdapter(config),
+  loadConfigFromEnv: (env: PlatformEnv) => {
+    if (!env.DEVTO_API_KEY) {
+      return undefined;
+    }
+
+    return {
+      platform: 'dev.to',
+      enabled: env.DEVTO_ENABLED !== 'false',
+      baseUrl: 'https://dev.to/api',
+      auth: {
+        type: 'api_key',
+        apiKey: env.DEVTO_API_KEY
+      },
+      rateLimit: {
+        requestsPerMinute: 30,
+        requestsPerHour: 300,
+        requestsPerDay: 1000,
+        burstLimit: 5
+      },
+      retryConfig: { ...defaultRetryConfig },
+      settings: {
+        published: env.DEVTO_PUBLISHED !== 'false',
+        tags: splitList(env.DEVTO_TAGS) || ['opensource', 'tools'],
+        titleTemplate: env.DEVTO_TITLE_TEMPLATE,
+        canonicalUrl: env.DEVTO_CANONICAL_URL
+      }
+    };
+  }
+};
+
+export const gitHubPlatform: PlatformDefinition<GitHubConfig> = {
+  name: 'github',
+  displayName: 'GitHub Discussions',
+  limits: { title: 256, body: 65536 },
+  createAdapter: config => new GitHubAdapter(config),
+  loadConfigFromEnv: (env: PlatformEnv) => {
+    if (!env.GITHUB_TOKEN) {
+      return undefined;
+    }
+
+    return {
+      platform: 'github',
+      enabled: env.GITHUB_ENABLED !== 'false',
+      baseUrl: 'https://api.github.com',
+      auth: {
+        type: 'token',
+        token: env.GITHUB_TOKEN
+      },
+      rateLimit: {
+        requestsPerMinute: 60,
+        requestsPerHour: 5000,
+        requestsPerDay: 5000,
+        burstLimit: 10
+      },
+      retryConfig: { ...defaultRetryConfig },
+      settings: {
+        repositories: splitList(env.GITHUB_REPOSITORIES) || [],
+        discussionCategory: env.GITHUB_DISCUSSION_CATEGORY || 'General',
+        titleTemplate: env.GITHUB_TITLE_TEMPLATE,
+        labels: splitList(env.GITHUB_LABELS)
+      }
+    };
+  }
+};
+
+export const linkedInPlatform: PlatformDefinition<LinkedInConfig> = {
+  name: 'linkedin',
+  displayName: 'LinkedIn',
+  limits: { title: 150, body: 3000, media: LinkedInAdapter.MEDIA_LIMITS },
+  createAdapter: config => new LinkedInAdapter(config),
+  loadConfigFromEnv: (env: PlatformEnv) => {
+    // Posting needs a member access token; client credentials alone cannot publish
+    if (!env.LINKEDIN_ACCESS_TOKEN) {
+      return undefined;
+    }
+
+    return {
+      platform: 'linkedin',
+      enabled: env.LINKEDIN_ENABLED !== 'false',
+      baseUrl: 'https://api.linkedin.com',
+      auth: {
+        type: 'oauth2',
+        clientId: env.LINKEDIN_CLIENT_ID,
+        clientSecret: env.LINKEDIN_CLIENT_SECRET,
+        accessToken: env.LINKEDIN_ACCESS_TOKEN,
+        redirectUri: env.LINKEDIN_REDIRECT_URI,
+        scopes: ['w_member_social']
+      },
+      rateLimit: {
+        requestsPerMinute: 30,
+        requestsPerHour: 300,
+        requestsPerDay: 1000,
+        burstLimit: 5
+      },
+      retryConfig: { ...defaultRetryConfig },
+      settings: {
+        profileType: env.LINKEDIN_PROFILE_TYPE === 'company' ? 'company' : 'personal',
+        companyId: env.LINKEDIN_COMPANY_ID,
+        includeImage: env.LINKEDIN_INCLUDE_IMAGE === 'true',
+        titleTemplate: env.LINKEDIN_TITLE_TEMPLATE
+      }
+    };
+  }
+};
+
+export const twitterPlatform: PlatformDefinition<TwitterConfig> = {
+  name: 'twitter',
+  displayName: 'Twitter/X',
+  limits: { title: 100, threadPost: MAX_TWEET_LENGTH, measureText: twitterTextLength, media: TwitterAdapter.MEDIA_LIMITS },
+  createAdapter: config => new TwitterAdapter(config),
+  loadConfigFromEnv: (env: PlatformEnv) => {
+    if (!env.TWITTER_ACCESS_TOKEN) {
+      return undefined;
+    }
+
+    return {
+      platform: 'twitter',
+      enabled: env.TWITTER_ENABLED !== 'false',
+      baseUrl: 'https://api.twitter.com',
+      auth: {
+        type: 'oauth1',
+        clientId: env.TWITTER_API_KEY,
+        clientSecret: env.TWITTER_API_SECRET,
+        accessToken: env.TWITTER_ACCESS_TOKEN,
+        tokenSecret: env.TWITTER_ACCESS_TOKEN_SECRET
+      },
+      rateLimit: {
+        requestsPerMinute: 15,
+        requestsPerHour: 100,
+        requestsPerDay: 300,
+        burstLimit: 5
+      },
+      retryConfig: { ...defaultRetryConfig },
+      settings: {
+        enableThreads: env.TWITTER_ENABLE_THREADS !== 'false',
+        numberThreads: env.TWITTER_NUMBER_THREADS === 'true',
+        includeHashtags: env.TWITTER_INCLUDE_HASHTAGS !== 'false',
+        defaultHashtags: splitList(env.TWITTER_HASHTAGS),
+        maxHashtags: env.TWITTER_MAX_HASHTAGS ? parseInt(env.TWITTER_MAX_HASHTAGS, 10) : undefined,
+        titleTemplate: env.TWITTER_TITLE_TEMPLATE
+      }
+    };
+  }
+};
+
+export const hackerNewsPlatform: PlatformDefinition<HackerNewsConfig> = {
+  name: 'hackernews',
+  displayName: 'Hacker News',
+  limits: { title: 80 },
+  createAdapter: config => new HackerNewsAdapter(config),
+  loadConfigFromEnv: (env: PlatformEnv) => {
+    if (!env.HACKERNEWS_USERNAME || !env.HACKERNEWS_PASSWORD) {
+      return undefined;
+    }
+
+    const postType = env.HACKERNEWS_POST_TYPE;
+
+    return {
+      platform: 'hackernews',
+      enabled: env.HACKERNEWS_ENABLED !== 'false',
+      baseUrl: 'https://news.ycombinator.com',
+      auth: {
+        // The adapter logs in with the username as token and the password as token secret
+        type: 'token',
+        token: env.HACKERNEWS_USERNAME,
+        tokenSecret: env.HACKERNEWS_PASSWORD
+      },
+      rateLimit: {
+        requestsPerMinute: 2,
+        requestsPerHour: 10,
+        requestsPerDay: 20,
+        burstLimit: 1
+      },
+      retryConfig: { ...defaultRetryConfig },
+      settings: {
+        username: env.HACKERNEWS_USERNAME,
+        postType: postType === 'story' || postType === 'ask' ? postType : 'show',
+        includeDescription: env.HACKERNEWS_INCLUDE_DESCRIPTION !== 'false',
+        titleTemplate: env.HACKERNEWS_TITLE_TEMPLATE
+      }
+    };
+  }
+};
+
+export const builtInPlatforms: PlatformDefinition[] = [
+  redditPlatform,
+  devToPlatform,
+  gitHubPlatform,
+  linkedInPlatform,
+  twitterPlatform,
+  hackerNewsPlatform
+];
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { PlatformRegistry } from './PlatformRegistry';
+import { builtInPlatforms } from './builtins';
+
+export * from './PlatformRegistry';
+export * from './SettingsSchema';
+export * from './builtins';
+
+export function createPlatformRegistry(): PlatformRegistry {
+  const registry = new PlatformRegistry();
+  builtInPlatforms.forEach(definition => registry.register(definition));
+  return registry;
+}
+
+// Shared registry used by the CLI and ConfigManager; plugins register additional platforms here
+export const platformRegistry = createPlatformRegistry();
\ No newline at end of file
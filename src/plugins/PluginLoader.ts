@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlatformAdapter } from '../adapters/PlatformAdapter';
+import { PlatformConfig } from '../models';
+import { PlatformDefinition, PlatformRegistry } from '../platforms';
+import { Logger } from '../utils';
+
+export const PLUGIN_PACKAGE_PREFIX = 'syndication-adapter-';
+
+// A plugin module exports one platform definition (or an array of them) as its default export or module.exports
+export type SyndicationPlugin = PlatformDefinition;
+
+export interface LoadedPlugin {
+  source: string;
+  platform: string;
+}
+
+export interface PluginLoadResult {
+  loaded: LoadedPlugin[];
+  errors: string[];
+}
+
+const REQUIRED_ADAPTER_METHODS = [
+  'authenticate',
+  'isAuthenticated',
+  'validateConfig',
+  'formatContent',
+  'publish'
+] as const;
+
+const OPTIONAL_ADAPTER_METHODS = [
+  'getTargets',
+  'getPostUrl',
+  'deletePost',
+  'updatePost'
+] as const;
+
+export function validatePlatformAdapter(adapter: unknown): string[] {
+  if (!adapter || typeof adapter !== 'object') {
+    return ['Adapter must be an object'];
+  }
+
+  const candidate = adapter as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof candidate.platform !== 'string' || candidate.platform.length === 0) {
+    errors.push('Adapter must have a platform name');
+  }
+
+  if (!candidate.config || typeof candidate.config !== 'object') {
+    errors.push('Adapter must expose its config');
+  }
+
+  REQUIRED_ADAPTER_METHODS
+    .filter(method => typeof candidate[method] !== 'function')
+    .forEach(method => errors.push(`Adapter must implement ${method}()`));
+
+  OPTIONAL_ADAPTER_METHODS
+    .filter(method => candidate[method] !== undefined && typeof candidate[method] !== 'function')
+    .forEach(method => errors.push(`Adapter ${method} must be a function`));
+
+  return errors;
+}
+
+function validatePluginDefinition(definition: unknown): string[] {
+  if (!definition || typeof definition !== 'object') {
+    return ['Plugin must export a platform definition'];
+  }
+
+  const candidate = definition as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof candidate.name !== 'string' || candidate.name.trim().length === 0) {
+    errors.push('Plugin must define a platform name');
+  }
+
+  if (typeof candidate.createAdapter !== 'function') {
+    errors.push('Plugin must define createAdapter()');
+  }
+
+  if (candidate.loadConfigFromEnv !== undefined && typeof candidate.loadConfigFromEnv !== 'function') {
+    errors.push('Plugin loadConfigFromEnv must be a function');
+  }
+
+  if (candidate.configSchema !== undefined && (typeof candidate.configSchema !== 'object' || candidate.configSchema === null)) {
+    errors.push('Plugin configSchema must be an object');
+  }
+
+  return errors;
+}
+
+export class PluginLoader {
+  private logger: Logger;
+
+  constructor(
+    private registry: PlatformRegistry,
+    private baseDir: string = process.cwd()
+  ) {
+    this.logger = new Logger('PluginLoader');
+  }
+
+  // Installed syndication-adapter-* packages, including scoped ones, plus explicitly configured paths or packages
+  discover(configuredPlugins: string[] = []): string[] {
+    const sources = [...this.discoverInstalledPackages(), ...configuredPlugins];
+    return [...new Set(sources)];
+  }
+
+  load(configuredPlugins: string[] = []): PluginLoadResult {
+    const result: PluginLoadResult = { loaded: [], errors: [] };
+
+    for (const source of this.discover(configuredPlugins)) {
+      try {
+        const definitions = this.requirePlugin(source);
+
+        for (const definition of definitions) {
+          const errors = validatePluginDefinition(definition);
+          if (errors.length > 0) {
+            throw new Error(errors.join(', '));
+          }
+
+          this.registry.register(this.wrapDefinition(definition, source));
+          result.loaded.push({ source, platform: definition.name });
+          this.logger.info(`Loaded plugin platform ${definition.name} from ${source}`);
+        }
+      } catch (error) {
+        const message = `Failed to load plugin ${source}: ${error instanceof Error ? error.message : String(error)}`;
+        result.errors.push(message);
+        this.logger.warn(message);
+      }
+    }
+
+    return result;
+  }
+
+  private discoverInstalledPackages(): string[] {
+    const nodeModules = path.join(this.baseDir, 'node_modules');
+    if (!fs.existsSync(nodeModules)) {
+      return [];
+    }
+
+    const packages: string[] = [];
+
+    for (const entry of fs.readdirSync(nodeModules)) {
+      if (entry.startsWith(PLUGIN_PACKAGE_PREFIX)) {
+        packages.push(entry);
+      } else if (entry.startsWith('@')) {
+        fs.readdirSync(path.join(nodeModules, entry))
+          .filter(scoped => scoped.startsWith(PLUGIN_PACKAGE_PREFIX))
+          .forEach(scoped => packages.push(`${entry}/${scoped}`));
+      }
+    }
+
+    return packages.sort();
+  }
+
+  private requirePlugin(source: string): SyndicationPlugin[] {
+    const isPath = source.startsWith('.') || path.isAbsolute(source);
+    const modulePath = isPath
+      ? require.resolve(path.resolve(this.baseDir, source))
+      : require.resolve(source, { paths: [this.baseDir] });
+
+    const loaded = require(modulePath);
+    const exported = loaded && loaded.__esModule && loaded.default ? loaded.default : loaded;
+
+    return Array.isArray(exported) ? exported : [exported];
+  }
+
+  private wrapDefinition(definition: SyndicationPlugin, source: string): PlatformDefinition {
+    return {
+      ...definition,
+      createAdapter: (config: PlatformConfig): PlatformAdapter => {
+        const adapter = definition.createAdapter(config);
+        const errors = validatePlatformAdapter(adapter);
+
+        if (errors.length > 0) {
+          throw new Error(`Plugin ${source} does not implement PlatformAdapter: ${errors.join(', ')}`);
+        }
+
+        if (adapter.platform !== definition.name) {
+          throw new Error(`Plugin ${source} created an adapter for ${adapter.platform}, expected ${definition.name}`);
+        }
+
+        return adapter;
+      }
+    };
+  }
+}
\ No newline at end of file
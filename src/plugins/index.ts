@@ -0,0 +1 @@
+export * from './PluginLoader';
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { FormattedContent, PlatformAdapter } from '../adapters/PlatformAdapter';
+import { Tool } from '../models';
+import { PlatformLimits, PlatformRegistry } from '../platforms';
+import { MediaLimits, isRemoteImage, loadMediaFile, validateMedia } from '../media';
+
+export interface LengthCheck {
+  length: number;
+  limit?: number;
+}
+
+export interface ThreadPostPreview {
+  text: string;
+  length: number;
+  limit?: number;
+}
+
+export interface PlatformPreview {
+  platform: string;
+  displayName: string;
+  content?: FormattedContent;
+  title?: LengthCheck;
+  body?: LengthCheck;
+  tags?: LengthCheck;
+  thread?: ThreadPostPreview[];
+  warnings: string[];
+  error?: string;
+}
+
+const TRUNCATION_MARKER = '...';
+
+export class ContentPreviewer {
+  constructor(private registry: PlatformRegistry) {}
+
+  async preview(tool: Tool, adapters: PlatformAdapter[]): Promise<PlatformPreview[]> {
+    const previews: PlatformPreview[] = [];
+
+    for (const adapter of adapters) {
+      previews.push(await this.previewPlatform(tool, adapter));
+    }
+
+    return previews;
+  }
+
+  private async previewPlatform(tool: Tool, adapter: PlatformAdapter): Promise<PlatformPreview> {
+    const definition = this.registry.get(adapter.platform);
+    const preview: PlatformPreview = {
+      platform: adapter.platform,
+      displayName: definition?.displayName || adapter.platform,
+      warnings: []
+    };
+
+    try {
+      preview.content = await adapter.formatContent(tool);
+    } catch (error) {
+      preview.error = error instanceof Error ? error.message : String(error);
+      return preview;
+    }
+
+    const limits: PlatformLimits = definition?.limits || {};
+    const { content } = preview;
+
+    preview.title = { length: content.title.length, limit: limits.title };
+    preview.body = { length: content.body.length, limit: limits.body };
+    if (content.tags) {
+      preview.tags = { length: content.tags.length, limit: limits.tags };
+    }
+
+    this.checkLength(preview, 'Title', preview.title);
+    this.checkLength(preview, 'Body', preview.body);
+    if (preview.tags && preview.tags.limit !== undefined && preview.tags.length > preview.tags.limit) {
+      preview.warnings.push(`Only the first ${preview.tags.limit} of ${preview.tags.length} tags will be used`);
+    }
+
+    this.checkTruncation(preview, 'Title', content.title, tool);
+    this.checkTruncation(preview, 'Body', content.body, tool);
+
+    const tweets: unknown = content.metadata?.tweets;
+    if (Array.isArray(tweets)) {
+      const measure = limits.measureText || ((text: string) => text.length);
+      preview.thread = tweets.map(text => ({
+        text: String(text),
+        length: measure(String(text)),
+        limit: limits.threadPost
+      }));
+
+      preview.thread.forEach((post, index) => {
+        this.checkLength(preview, `Post ${index + 1}/${preview.thread!.length}`, post);
+        this.checkTruncation(preview, `Post ${index + 1}/${preview.thread!.length}`, post.text, tool);
+      });
+    }
+
+    if (content.images && limits.media) {
+      await this.checkMedia(preview, content.images, limits.media);
+    }
+
+    return preview;
+  }
+
+  // Only local files are inspected so previews never touch the network; remote images are checked at publish time
+  private async checkMedia(preview: PlatformPreview, images: NonNullable<FormattedContent['images']>, limits: MediaLimits): Promise<void> {
+    if (images.length > limits.maxCount) {
+      preview.warnings.push(`Only the first ${limits.maxCount} of ${images.length} images will be attached`);
+    }
+
+    for (const image of images.slice(0, limits.maxCount).filter(image => !isRemoteImage(image))) {
+      try {
+        const file = await loadMediaFile(image);
+        preview.warnings.push(...validateMedia(file, limits, preview.displayName));
+      } catch (error) {
+        preview.warnings.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  private checkLength(preview: PlatformPreview, label: string, check: LengthCheck): void {
+    if (check.limit !== undefined && check.length > check.limit) {
+      preview.warnings.push(`${label} is ${check.length} characters, over the ${check.limit} character limit`);
+    }
+  }
+
+  private checkTruncation(preview: PlatformPreview, label: string, text: string, tool: Tool): void {
+    // Adapters shorten oversized text with a trailing ellipsis; flag it unless the source itself ends that way
+    const trimmed = text.trim();
+    if (!trimmed.endsWith(TRUNCATION_MARKER)) {
+      return;
+    }
+
+    const sources = [tool.name, tool.shortDescription, tool.longDescription];
+    if (!sources.some(source => source.trim().endsWith(TRUNCATION_MARKER))) {
+      preview.warnings.push(`${label} was truncated to fit the platform`);
+    }
+  }
+}
\ No newline at end of file
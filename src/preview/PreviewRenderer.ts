@@ -0,0 +1,171 @@
+import { Tool } from '../models';
+import { LengthCheck, PlatformPreview } from './ContentPreviewer';
+
+export type PreviewFormat = 'terminal' | 'markdown' | 'html';
+
+function formatCount(check: LengthCheck, unit = 'chars'): string {
+  const count = check.limit !== undefined ? `${check.length}/${check.limit} ${unit}` : `${check.length} ${unit}`;
+  return check.limit !== undefined && check.length > check.limit ? `${count} ⚠️` : count;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderPreview(tool: Tool, previews: PlatformPreview[], format: PreviewFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdownPreview(tool, previews);
+    case 'html':
+      return renderHtmlPreview(tool, previews);
+    case 'terminal':
+    default:
+      return renderTerminalPreview(tool, previews);
+  }
+}
+
+export function renderTerminalPreview(tool: Tool, previews: PlatformPreview[]): string {
+  const lines: string[] = [`\n👀 Content Preview for: ${tool.name}\n`];
+
+  previews.forEach(preview => {
+    lines.push(`━━━ ${preview.displayName} (${preview.platform}) ${'━'.repeat(Math.max(0, 40 - preview.displayName.length))}`);
+
+    if (preview.error || !preview.content) {
+      lines.push(`  ❌ Could not format content: ${preview.error}`, '');
+      return;
+    }
+
+    lines.push(`📌 Title (${formatCount(preview.title!)}):`, `  ${preview.content.title}`);
+
+    if (preview.content.url) {
+      lines.push(`🔗 URL: ${preview.content.url}`);
+    }
+
+    if (preview.content.tags && preview.tags) {
+      lines.push(`🏷️  Tags (${formatCount(preview.tags, 'tags')}): ${preview.content.tags.join(', ')}`);
+    }
+
+    if (preview.thread) {
+      lines.push(`🧵 Thread (${preview.thread.length} posts):`);
+      preview.thread.forEach((post, index) => {
+        lines.push(`  [${index + 1}/${preview.thread!.length}] (${formatCount(post)})`);
+        post.text.split('\n').forEach(line => lines.push(`    ${line}`));
+      });
+    } else {
+      lines.push(`📝 Body (${formatCount(preview.body!)}):`);
+      (preview.content.body || '(empty)').split('\n').forEach(line => lines.push(`  ${line}`));
+    }
+
+    if (preview.warnings.length > 0) {
+      lines.push('⚠️  Warnings:');
+      preview.warnings.forEach(warning => lines.push(`  • ${warning}`));
+    }
+
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+export function renderMarkdownPreview(tool: Tool, previews: PlatformPreview[]): string {
+  const lines: string[] = [`# Content Preview: ${tool.name}`, ''];
+
+  previews.forEach(preview => {
+    lines.push(`## ${preview.displayName} (\`${preview.platform}\`)`, '');
+
+    if (preview.error || !preview.content) {
+      lines.push(`**Could not format content:** ${preview.error}`, '');
+      return;
+    }
+
+    lines.push(`**Title** (${formatCount(preview.title!)}): ${preview.content.title}`, '');
+
+    if (preview.content.url) {
+      lines.push(`**URL:** ${preview.content.url}`, '');
+    }
+
+    if (preview.content.tags && preview.tags) {
+      lines.push(`**Tags** (${formatCount(preview.tags, 'tags')}): ${preview.content.tags.map(tag => `\`${tag}\``).join(', ')}`, '');
+    }
+
+    if (preview.thread) {
+      lines.push(`**Thread** (${preview.thread.length} posts):`, '');
+      preview.thread.forEach((post, index) => {
+        lines.push(`${index + 1}/${preview.thread!.length} (${formatCount(post)})`, '', '```text', post.text, '```', '');
+      });
+    } else {
+      lines.push(`**Body** (${formatCount(preview.body!)}):`, '', '```markdown', preview.content.body, '```', '');
+    }
+
+    if (preview.warnings.length > 0) {
+      lines.push('**Warnings:**', '');
+      preview.warnings.forEach(warning => lines.push(`- ${warning}`));
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+export function renderHtmlPreview(tool: Tool, previews: PlatformPreview[]): string {
+  const sections = previews.map(preview => {
+    const parts: string[] = [`<section><h2>${escapeHtml(preview.displayName)} <code>${escapeHtml(preview.platform)}</code></h2>`];
+
+    if (preview.error || !preview.content) {
+      parts.push(`<p class="error">Could not format content: ${escapeHtml(preview.error || '')}</p></section>`);
+      return parts.join('\n');
+    }
+
+    parts.push(`<p><strong>Title</strong> <span class="count">${escapeHtml(formatCount(preview.title!))}</span><br>${escapeHtml(preview.content.title)}</p>`);
+
+    if (preview.content.url) {
+      parts.push(`<p><strong>URL</strong> <a href="${escapeHtml(preview.content.url)}">${escapeHtml(preview.content.url)}</a></p>`);
+    }
+
+    if (preview.content.tags && preview.tags) {
+      parts.push(`<p><strong>Tags</strong> <span class="count">${escapeHtml(formatCount(preview.tags, 'tags'))}</span> ${preview.content.tags.map(tag => `<code>${escapeHtml(tag)}</code>`).join(' ')}</p>`);
+    }
+
+    if (preview.thread) {
+      parts.push(`<p><strong>Thread</strong> (${preview.thread.length} posts)</p><ol>`);
+      preview.thread.forEach(post => {
+        parts.push(`<li><span class="count">${escapeHtml(formatCount(post))}</span><pre>${escapeHtml(post.text)}</pre></li>`);
+      });
+      parts.push('</ol>');
+    } else {
+      parts.push(`<p><strong>Body</strong> <span class="count">${escapeHtml(formatCount(preview.body!))}</span></p><pre>${escapeHtml(preview.content.body)}</pre>`);
+    }
+
+    if (preview.warnings.length > 0) {
+      parts.push(`<ul class="warnings">${preview.warnings.map(warning => `<li>${escapeHtml(warning)}</li>`).join('')}</ul>`);
+    }
+
+    parts.push('</section>');
+    return parts.join('\n');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>Content Preview: ${escapeHtml(tool.name)}</title>`,
+    '<style>',
+    'body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }',
+    'section { border: 1px solid #ddd; border-radius: 8px; padding: 1rem; margin-bottom: 1.5rem; }',
+    'pre { white-space: pre-wrap; background: #f6f8fa; padding: 0.75rem; border-radius: 6px; }',
+    '.count { color: #666; font-size: 0.9em; }',
+    '.warnings, .error { color: #b35900; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>Content Preview: ${escapeHtml(tool.name)}</h1>`,
+    ...sections,
+    '</body>',
+    '</html>'
+  ].join('\n');
+}
\ No newline at end of file
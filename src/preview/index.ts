@@ -0,0 +1,2 @@
+export * from './ContentPreviewer';
+export * from './PreviewRenderer';
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { Logger } from '../utils';
+import { DEFAULT_MAX_WAIT_MS, RateLimitExceededError, RateLimitQuota, RateLimiter } from './RateLimiter';
+
+// What a response said about the platform's own limits
+export interface ServerRateLimit {
+  retryAfterMs?: number;
+  remaining?: number;
+  resetAt?: Date;
+}
+
+// A pause imposed by the server, kept so it can be reported alongside the publication
+export interface RateLimitWait {
+  source: 'retry-after' | 'rate-limit-reset';
+  waitMs: number;
+  resumeAt: string;
+}
+
+type HeaderBag = Record<string, unknown>;
+
+// Reset values above this are epoch seconds (GitHub, Twitter); below it, seconds from now (Reddit)
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+// Reads Retry-After and the x-ratelimit-remaining/reset family (x-rate-limit-* on Twitter)
+export function parseRateLimitHeaders(headers: HeaderBag | undefined, now: number = Date.now()): ServerRateLimit {
+  if (!headers) {
+    return {};
+  }
+
+  const info: ServerRateLimit = {};
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    const retryAt = Number.isNaN(seconds) ? Date.parse(retryAfter) : now + seconds * 1000;
+    if (!Number.isNaN(retryAt)) {
+      info.retryAfterMs = Math.max(0, retryAt - now);
+    }
+  }
+
+  const remaining = Number(readHeader(headers, 'x-ratelimit-remaining') ?? readHeader(headers, 'x-rate-limit-remaining'));
+  if (!Number.isNaN(remaining)) {
+    info.remaining = remaining;
+  }
+
+  const reset = Number(readHeader(headers, 'x-ratelimit-reset') ?? readHeader(headers, 'x-rate-limit-reset'));
+  if (!Number.isNaN(reset)) {
+    info.resetAt = new Date(reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 : now + reset * 1000);
+  }
+
+  return info;
+}
+
+function readHeader(headers: HeaderBag, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  const value = key !== undefined ? headers[key] : undefined;
+
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  return String(Array.isArray(value) ? value[0] : value);
+}
+
+// Wraps the local quotas with the limits the platform reports, pausing until the server's reset
+// instead of guessing with backoff
+export class AdaptiveRateLimiter implements RateLimiter {
+  private pausedUntil = 0;
+  private waits: RateLimitWait[] = [];
+  private logger: Logger;
+
+  constructor(
+    private platform: string,
+    private inner: RateLimiter,
+    private maxWaitMs: number = DEFAULT_MAX_WAIT_MS
+  ) {
+    this.logger = new Logger('AdaptiveRateLimiter');
+  }
+
+  async canMakeRequest(): Promise<boolean> {
+    return (await this.getWaitTime()) === 0;
+  }
+
+  recordRequest(): void {
+    this.inner.recordRequest();
+  }
+
+  async getWaitTime(): Promise<number> {
+    return Math.max(this.getPause(), await this.inner.getWaitTime());
+  }
+
+  async waitIfNeeded(): Promise<void> {
+    const pause = this.getPause();
+
+    if (pause > this.maxWaitMs) {
+      throw new RateLimitExceededError(this.platform, 'server', 0, new Date(this.pausedUntil));
+    }
+
+    if (pause > 0) {
+      await new Promise(resolve => setTimeout(resolve, pause));
+    }
+
+    await this.inner.waitIfNeeded();
+  }
+
+  getQuota(): RateLimitQuota[] {
+    return this.inner.getQuota?.() || [];
+  }
+
+  // Returns how long the next request has to wait because of this response, 0 if it doesn't
+  observe(headers: HeaderBag | undefined, now: number = Date.now()): number {
+    const info = parseRateLimitHeaders(headers, now);
+
+    let wait: Omit<RateLimitWait, 'resumeAt'> | undefined;
+    if (info.retryAfterMs !== undefined && info.retryAfterMs > 0) {
+      wait = { source: 'retry-after', waitMs: info.retryAfterMs };
+    } else if (info.remaining !== undefined && info.remaining < 1 && info.resetAt && info.resetAt.getTime() > now) {
+      wait = { source: 'rate-limit-reset', waitMs: info.resetAt.getTime() - now };
+    }
+
+    if (!wait) {
+      return 0;
+    }
+
+    this.pausedUntil = Math.max(this.pausedUntil, now + wait.waitMs);
+
+    const resumeAt = new Date(this.pausedUntil).toISOString();
+    this.waits.push({ ...wait, resumeAt });
+    this.logger.warn(`${this.platform} asked to pause for ${Math.ceil(wait.waitMs / 1000)}s (${wait.source}); resuming at ${resumeAt}`);
+
+    return this.pausedUntil - now;
+  }
+
+  // Hands over the pauses observed since the last call, for the publication being recorded
+  takeWaits(): RateLimitWait[] {
+    const waits = this.waits;
+    this.waits = [];
+    return waits;
+  }
+
+  private getPause(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+// Requests older than the longest window (a day) no longer count and are pruned
+export const RATE_LIMIT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Timestamps of requests made to each platform, shared across runs so quotas survive restarts
+export interface RateLimitStore {
+  list(platform: string, since: number): number[];
+  record(platform: string, timestamp: number): void;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private requests: Map<string, number[]> = new Map();
+
+  list(platform: string, since: number): number[] {
+    return (this.requests.get(platform) || []).filter(timestamp => timestamp >= since);
+  }
+
+  record(platform: string, timestamp: number): void {
+    const recent = this.list(platform, timestamp - RATE_LIMIT_RETENTION_MS);
+    recent.push(timestamp);
+    this.requests.set(platform, recent);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { RateLimitConfig } from '../models';
+import { RateLimitError } from '../errors';
+import { InMemoryRateLimitStore, RATE_LIMIT_RETENTION_MS, RateLimitStore } from './RateLimitStore';
+
+export interface RateLimiter {
+  canMakeRequest(): Promise<boolean>;
+  recordRequest(): void;
+  getWaitTime(): Promise<number>;
+  waitIfNeeded(): Promise<void>;
+  getQuota?(): RateLimitQuota[];
+}
+
+export type RateLimitWindow = 'minute' | 'hour' | 'day';
+
+export interface RateLimitQuota {
+  window: RateLimitWindow;
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the oldest request in the window expires and frees a slot
+  resetsAt?: Date;
+}
+
+// Raised before the request is sent, when a quota would otherwise mean waiting for hours
+export class RateLimitExceededError extends RateLimitError {
+  constructor(
+    public readonly platform: string,
+    // 'server' when the platform itself asked to pause, through Retry-After or rate limit headers
+    public readonly window: RateLimitWindow | 'server',
+    public readonly limit: number,
+    public readonly retryAt: Date
+  ) {
+    super(window === 'server'
+      ? `${platform} rate limit reported by the server; next request allowed at ${retryAt.toISOString()}`
+      : `${platform} request limit of ${limit} per ${window} reached; next request allowed at ${retryAt.toISOString()}`,
+      { platform, retryAt });
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+const WINDOWS: { window: RateLimitWindow; ms: number; limit: (config: RateLimitConfig) => number }[] = [
+  { window: 'minute', ms: 60 * 1000, limit: config => config.requestsPerMinute },
+  { window: 'hour', ms: 60 * 60 * 1000, limit: config => config.requestsPerHour },
+  { window: 'day', ms: 24 * 60 * 60 * 1000, limit: config => config.requestsPerDay }
+];
+
+// Waits up to this long for a slot; longer waits (an exhausted hourly or daily quota) fail instead
+export const DEFAULT_MAX_WAIT_MS = 60 * 1000;
+
+export class TokenBucketRateLimiter implements RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly maxTokens: number;
+  private readonly refillRate: number;
+
+  constructor(private config: { requestsPerMinute: number; burstLimit: number }) {
+    this.maxTokens = config.burstLimit;
+    this.tokens = this.maxTokens;
+    this.lastRefill = Date.now();
+    this.refillRate = config.requestsPerMinute / 60000; // tokens per millisecond
+  }
+
+  async canMakeRequest(): Promise<boolean> {
+    this.refillTokens();
+    return this.tokens >= 1;
+  }
+
+  recordRequest(): void {
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+    }
+  }
+
+  async getWaitTime(): Promise<number> {
+    this.refillTokens();
+    if (this.tokens >= 1) {
+      return 0;
+    }
+
+    return Math.ceil((1 - this.tokens) / this.refillRate);
+  }
+
+  async waitIfNeeded(): Promise<void> {
+    const waitTime = await this.getWaitTime();
+    if (waitTime > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+  }
+
+  private refillTokens(): void {
+    const now = Date.now();
+    const timePassed = now - this.lastRefill;
+    const tokensToAdd = timePassed * this.refillRate;
+
+    this.tokens = Math.min(this.maxTokens, this.tokens + tokensToAdd);
+    this.lastRefill = now;
+  }
+}
+
+// Enforces the per-minute, per-hour and per-day quotas over requests recorded in a store,
+// with a token bucket on top to smooth bursts within the current process
+export class CompositeRateLimiter implements RateLimiter {
+  private burst: TokenBucketRateLimiter;
+
+  constructor(
+    private platform: string,
+    private config: RateLimitConfig,
+    private store: RateLimitStore = new InMemoryRateLimitStore(),
+    private maxWaitMs: number = DEFAULT_MAX_WAIT_MS
+  ) {
+    this.burst = new TokenBucketRateLimiter(config);
+  }
+
+  async canMakeRequest(): Promise<boolean> {
+    return (await this.getWaitTime()) === 0;
+  }
+
+  recordRequest(): void {
+    this.burst.recordRequest();
+    this.store.record(this.platform, Date.now());
+  }
+
+  async getWaitTime(): Promise<number> {
+    const { wait } = this.findBlockingWindow();
+    return Math.max(wait, await this.burst.getWaitTime());
+  }
+
+  async waitIfNeeded(): Promise<void> {
+    const { wait, quota } = this.findBlockingWindow();
+
+    if (quota && wait > this.maxWaitMs) {
+      throw new RateLimitExceededError(this.platform, quota.window, quota.limit, quota.resetsAt!);
+    }
+
+    const waitTime = Math.max(wait, await this.burst.getWaitTime());
+    if (waitTime > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+  }
+
+  getQuota(now: number = Date.now()): RateLimitQuota[] {
+    return calculateQuota(this.config, this.store.list(this.platform, now - RATE_LIMIT_RETENTION_MS), now);
+  }
+
+  private findBlockingWindow(): { wait: number; quota?: RateLimitQuota } {
+    const now = Date.now();
+    return findBlockingQuota(this.getQuota(now), now);
+  }
+}
+
+export function calculateQuota(config: RateLimitConfig, requests: number[], now: number = Date.now()): RateLimitQuota[] {
+  return WINDOWS.map(({ window, ms, limit: getLimit }) => {
+    const limit = getLimit(config);
+    const inWindow = requests.filter(timestamp => timestamp > now - ms).sort((a, b) => a - b);
+    const used = inWindow.length;
+
+    // Once over the limit, a slot frees up when enough of the oldest requests have aged out
+    const freeing = used >= limit ? inWindow[used - limit] : inWindow[0];
+
+    return {
+      window,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      ...(freeing !== undefined && { resetsAt: new Date(freeing + ms) })
+    };
+  });
+}
+
+// The exhausted window that stays closed the longest, and how long until it frees a slot
+export function findBlockingQuota(quotas: RateLimitQuota[], now: number = Date.now()): { wait: number; quota?: RateLimitQuota } {
+  let blocking: { wait: number; quota?: RateLimitQuota } = { wait: 0 };
+
+  for (const quota of quotas) {
+    const wait = quota.remaining === 0 && quota.resetsAt ? quota.resetsAt.getTime() - now : 0;
+    if (wait > blocking.wait) {
+      blocking = { wait, quota };
+    }
+  }
+
+  return blocking;
+}
\ No newline at end of file
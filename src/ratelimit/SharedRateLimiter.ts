@@ -0,0 +1,99 @@
+import { RateLimitConfig } from '../models';
+import { RATE_LIMIT_RETENTION_MS } from './RateLimitStore';
+import {
+  DEFAULT_MAX_WAIT_MS,
+  RateLimitExceededError,
+  RateLimitQuota,
+  RateLimiter,
+  calculateQuota,
+  findBlockingQuota
+} from './RateLimiter';
+
+// A platform's token bucket and request history as every process on the machine sees it
+export interface SharedRateLimitState {
+  requests: number[];
+  tokens?: number;
+  refilledAt?: number;
+}
+
+export interface RateLimitBackend {
+  read(platform: string): SharedRateLimitState;
+  // Applies the change while holding a lock that every process using the backend respects
+  update<T>(platform: string, apply: (state: SharedRateLimitState) => T): Promise<T>;
+}
+
+// Like CompositeRateLimiter, but the token bucket lives in a backend shared between processes, so
+// concurrent CI jobs or terminals draw from the same per-platform budget
+export class SharedRateLimiter implements RateLimiter {
+  constructor(
+    private platform: string,
+    private config: RateLimitConfig,
+    private backend: RateLimitBackend,
+    private maxWaitMs: number = DEFAULT_MAX_WAIT_MS
+  ) {}
+
+  async canMakeRequest(): Promise<boolean> {
+    return (await this.getWaitTime()) === 0;
+  }
+
+  // The slot is already claimed by waitIfNeeded, so no other process can take it in between
+  recordRequest(): void {}
+
+  async getWaitTime(): Promise<number> {
+    return this.calculateWait(this.backend.read(this.platform), Date.now()).wait;
+  }
+
+  async waitIfNeeded(): Promise<void> {
+    for (;;) {
+      const { wait, windowWait, quota } = await this.backend.update(this.platform, state => {
+        const now = Date.now();
+        const result = this.calculateWait(state, now);
+
+        if (result.wait === 0) {
+          state.tokens = this.refill(state, now) - 1;
+          state.refilledAt = now;
+          state.requests = [...state.requests.filter(timestamp => timestamp > now - RATE_LIMIT_RETENTION_MS), now];
+        }
+
+        return result;
+      });
+
+      if (wait === 0) {
+        return;
+      }
+
+      if (quota && windowWait > this.maxWaitMs) {
+        throw new RateLimitExceededError(this.platform, quota.window, quota.limit, quota.resetsAt!);
+      }
+
+      // Another process may claim the slot first, in which case the loop waits again
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  getQuota(now: number = Date.now()): RateLimitQuota[] {
+    return calculateQuota(this.config, this.backend.read(this.platform).requests, now);
+  }
+
+  private calculateWait(state: SharedRateLimitState, now: number): { wait: number; windowWait: number; quota?: RateLimitQuota } {
+    const { wait: windowWait, quota } = findBlockingQuota(calculateQuota(this.config, state.requests, now), now);
+
+    const tokens = this.refill(state, now);
+    const bucketWait = tokens >= 1 ? 0 : Math.ceil((1 - tokens) / this.refillRate());
+
+    return { wait: Math.max(windowWait, bucketWait), windowWait, quota };
+  }
+
+  private refill(state: SharedRateLimitState, now: number): number {
+    if (state.tokens === undefined || state.refilledAt === undefined) {
+      return this.config.burstLimit;
+    }
+
+    return Math.min(this.config.burstLimit, state.tokens + (now - state.refilledAt) * this.refillRate());
+  }
+
+  // Tokens per millisecond
+  private refillRate(): number {
+    return this.config.requestsPerMinute / 60000;
+  }
+}
\ No newline at end of file
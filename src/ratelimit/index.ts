@@ -0,0 +1,4 @@
+export * from './RateLimitStore';
+export * from './RateLimiter';
+export * from './AdaptiveRateLimiter';
+export * from './SharedRateLimiter';
\ No newline at end of file
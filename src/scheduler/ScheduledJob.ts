@@ -0,0 +1,74 @@
+export enum ScheduledJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export interface ScheduledJob {
+  id: string;
+  toolId: string;
+  toolVersion: string;
+  platform: string;
+  publishAt: Date;
+  status: ScheduledJobStatus;
+  createdAt: Date;
+  updatedAt?: Date;
+  attempts: number;
+  publicationIds?: string[];
+  error?: string;
+  options?: {
+    dryRun?: boolean;
+    // Publish even where the tool version was already published
+    force?: boolean;
+  };
+}
+
+// Returns the changed job, or undefined to leave it as it is
+export type JobChange = (job: ScheduledJob) => ScheduledJob | undefined;
+
+export interface JobStore {
+  save(job: ScheduledJob): void;
+  get(id: string): ScheduledJob | undefined;
+  list(status?: ScheduledJobStatus): ScheduledJob[];
+  // Reads, changes and writes a job as one step, so several workers sharing the store never
+  // act on a status another one has changed in the meantime
+  update(id: string, change: JobChange): ScheduledJob | undefined;
+}
+
+export function startJob(job: ScheduledJob): ScheduledJob {
+  return {
+    ...job,
+    status: ScheduledJobStatus.RUNNING,
+    attempts: job.attempts + 1,
+    updatedAt: new Date()
+  };
+}
+
+export class InMemoryJobStore implements JobStore {
+  private jobs: Map<string, ScheduledJob> = new Map();
+
+  save(job: ScheduledJob): void {
+    this.jobs.set(job.id, job);
+  }
+
+  get(id: string): ScheduledJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(status?: ScheduledJobStatus): ScheduledJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !status || job.status === status);
+  }
+
+  update(id: string, change: JobChange): ScheduledJob | undefined {
+    const job = this.jobs.get(id);
+    const changed = job && change(job);
+    if (changed) {
+      this.jobs.set(id, changed);
+    }
+
+    return changed;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+import { InMemoryJobStore, JobStore, ScheduledJob, ScheduledJobStatus, startJob } from './ScheduledJob';
+
+// A job still running after this long was left behind by a worker that stopped in the middle of it
+export const JOB_LEASE_MS = 60 * 60 * 1000;
+// A job stranded this many times is failed rather than queued again
+export const MAX_JOB_ATTEMPTS = 3;
+
+export class Scheduler {
+  constructor(private store: JobStore = new InMemoryJobStore()) {}
+
+  schedule(
+    toolId: string,
+    toolVersion: string,
+    platform: string,
+    publishAt: Date,
+    options: ScheduledJob['options'] = {}
+  ): ScheduledJob {
+    // Rescheduling the same tool version for a platform moves the existing job instead of queueing a duplicate
+    const existing = this.store.list(ScheduledJobStatus.PENDING).find(job =>
+      job.toolId === toolId && job.toolVersion === toolVersion && job.platform === platform
+    );
+
+    // A worker may have claimed it since it was listed, in which case a new job is queued
+    const moved = existing && this.updateJob(existing.id, ScheduledJobStatus.PENDING, { publishAt, options });
+    if (moved) {
+      return moved;
+    }
+
+    const job: ScheduledJob = {
+      // Random rather than time-based, so jobs created in the same millisecond never collide
+      id: `${toolId}-${platform}-${randomUUID()}`,
+      toolId,
+      toolVersion,
+      platform,
+      publishAt,
+      status: ScheduledJobStatus.PENDING,
+      createdAt: new Date(),
+      attempts: 0,
+      options
+    };
+
+    this.store.save(job);
+    return job;
+  }
+
+  getJob(id: string): ScheduledJob | undefined {
+    return this.store.get(id);
+  }
+
+  listJobs(status?: ScheduledJobStatus): ScheduledJob[] {
+    return this.store.list(status)
+      .sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime());
+  }
+
+  getDueJobs(now: Date = new Date()): ScheduledJob[] {
+    return this.listJobs(ScheduledJobStatus.PENDING)
+      .filter(job => job.publishAt.getTime() <= now.getTime());
+  }
+
+  claim(id: string): ScheduledJob | undefined {
+    return this.store.update(id, job => job.status === ScheduledJobStatus.PENDING ? startJob(job) : undefined);
+  }
+
+  cancel(id: string): boolean {
+    return this.updateJob(id, ScheduledJobStatus.PENDING, { status: ScheduledJobStatus.CANCELLED }) !== undefined;
+  }
+
+  // Applies the updates only while the job still has the expected status, so a cancel never
+  // overwrites a job a worker has started and a worker never finishes a job twice
+  updateJob(id: string, expectedStatus: ScheduledJobStatus, updates: Partial<ScheduledJob>): ScheduledJob | undefined {
+    return this.store.update(id, job => job.status === expectedStatus
+      ? { ...job, ...updates, updatedAt: new Date() }
+      : undefined);
+  }
+
+  // Queues running jobs whose lease ran out again, or fails them once they used up their attempts
+  recoverStalledJobs(now: Date = new Date()): ScheduledJob[] {
+    const isStalled = (job: ScheduledJob): boolean => job.status === ScheduledJobStatus.RUNNING &&
+      (job.updatedAt || job.createdAt).getTime() + JOB_LEASE_MS <= now.getTime();
+
+    return this.store.list(ScheduledJobStatus.RUNNING)
+      .filter(isStalled)
+      .map(stalled => this.store.update(stalled.id, job => {
+        if (!isStalled(job)) {
+          return undefined;
+        }
+
+        const exhausted = job.attempts >= MAX_JOB_ATTEMPTS;
+        return {
+          ...job,
+          status: exhausted ? ScheduledJobStatus.FAILED : ScheduledJobStatus.PENDING,
+          error: `Worker stopped before finishing attempt ${job.attempts}`,
+          updatedAt: new Date()
+        };
+      }))
+      .filter((job): job is ScheduledJob => job !== undefined);
+  }
+}
\ No newline at end of file
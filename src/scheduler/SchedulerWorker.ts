@@ -0,0 +1,128 @@
+import { Publication, ToolRegistry, formatPublicationTarget, hasFailed } from '../models';
+import { SyndicationEngine } from '../core/SyndicationEngine';
+import { Logger } from '../utils/Logger';
+import { ScheduledJob, ScheduledJobStatus } from './ScheduledJob';
+import { Scheduler } from './Scheduler';
+
+export interface WorkerRunSummary {
+  processed: number;
+  completed: number;
+  failed: number;
+}
+
+export class SchedulerWorker {
+  private logger: Logger;
+  private stopped = false;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private engine: SyndicationEngine,
+    private scheduler: Scheduler,
+    private toolRegistry: ToolRegistry
+  ) {
+    this.logger = new Logger('SchedulerWorker');
+  }
+
+  async drainDueJobs(now: Date = new Date()): Promise<WorkerRunSummary> {
+    const summary: WorkerRunSummary = { processed: 0, completed: 0, failed: 0 };
+
+    this.scheduler.recoverStalledJobs(now).forEach(job => {
+      this.logger.warn(`Recovered stalled job ${job.id} as ${job.status}`);
+    });
+
+    for (const dueJob of this.scheduler.getDueJobs(now)) {
+      // Another worker may have picked the job up since it was listed
+      const job = this.scheduler.claim(dueJob.id);
+      if (!job) {
+        continue;
+      }
+
+      summary.processed++;
+      const succeeded = await this.runJob(job);
+      if (succeeded) {
+        summary.completed++;
+      } else {
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  async run(intervalMs: number): Promise<void> {
+    this.stopped = false;
+    this.logger.info(`Scheduler worker started, polling every ${intervalMs / 1000}s`);
+
+    while (!this.stopped) {
+      const summary = await this.drainDueJobs();
+      if (summary.processed > 0) {
+        this.logger.info('Processed scheduled jobs', summary);
+      }
+
+      await this.sleep(intervalMs);
+    }
+
+    this.logger.info('Scheduler worker stopped');
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.wake?.();
+  }
+
+  private async runJob(job: ScheduledJob): Promise<boolean> {
+    const tool = this.toolRegistry.get(job.toolId, job.toolVersion);
+    if (!tool) {
+      this.failJob(job, `Tool not found for ID: ${job.toolId} (version ${job.toolVersion})`);
+      return false;
+    }
+
+    this.logger.info(`Publishing scheduled job ${job.id}: ${tool.name} to ${job.platform}`);
+
+    try {
+      const publications = await this.engine.syndicateToPlatform(tool, job.platform, {
+        dryRun: job.options?.dryRun,
+        force: job.options?.force
+      });
+
+      // Queued retries count too; the job has not published until the retry queue gets through
+      const failed = publications.filter(hasFailed);
+      if (failed.length > 0) {
+        this.failJob(job, failed.map(pub => `${formatPublicationTarget(pub)}: ${pub.error}`).join('; '), publications);
+        return false;
+      }
+
+      this.scheduler.updateJob(job.id, ScheduledJobStatus.RUNNING, {
+        status: ScheduledJobStatus.COMPLETED,
+        publicationIds: publications.map(pub => pub.id),
+        error: undefined
+      });
+      return true;
+    } catch (error) {
+      this.failJob(job, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  private failJob(job: ScheduledJob, error: string, publications: Publication[] = []): void {
+    this.scheduler.updateJob(job.id, ScheduledJobStatus.RUNNING, {
+      status: ScheduledJobStatus.FAILED,
+      publicationIds: publications.map(pub => pub.id),
+      error
+    });
+
+    this.logger.error(`Scheduled job ${job.id} failed: ${error}`);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+
+      // Let a stop request end the wait without holding on until the next poll
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
\ No newline at end of file
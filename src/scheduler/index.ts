@@ -0,0 +1,3 @@
+export * from './ScheduledJob';
+export * from './Scheduler';
+export * from './SchedulerWorker';
\ No newline at end of file
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Gives up instead of hanging when another process holds the lock for this long
+const LOCK_TIMEOUT_MS = 10 * 1000;
+const LOCK_RETRY_MS = 20;
+// A lock this old was left behind by a process that died while holding it
+const STALE_LOCK_MS = 30 * 1000;
+
+// Runs fn while holding an exclusively created lock file, for read-modify-write cycles of files
+// shared between processes. Synchronous, because the JSON stores it guards are.
+export function withFileLockSync<T>(lockPath: string, fn: () => T): T {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (!tryAcquireLock(lockPath)) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+// Same as withFileLockSync, but polls without blocking the event loop while another process holds the lock
+export async function withFileLock<T>(lockPath: string, fn: () => T): Promise<T> {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (!tryAcquireLock(lockPath)) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function tryAcquireLock(lockPath: string): boolean {
+  try {
+    fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+  }
+
+  removeStaleLock(lockPath);
+  return false;
+}
+
+function removeStaleLock(lockPath: string): void {
+  try {
+    if (Date.now() - fs.statSync(lockPath).mtimeMs <= STALE_LOCK_MS) {
+      return;
+    }
+
+    // Moving the lock aside is atomic, so only one process can take away a given lock file. Another
+    // process may have replaced the stale lock since the check above, so look again at what was moved.
+    const asidePath = `${lockPath}.${process.pid}.${Date.now()}.stale`;
+    fs.renameSync(lockPath, asidePath);
+
+    if (Date.now() - fs.statSync(asidePath).mtimeMs <= STALE_LOCK_MS) {
+      // A live lock: put it back unless someone has taken the free slot already
+      try {
+        fs.linkSync(asidePath, lockPath);
+      } catch {
+        // The new holder's lock stays in place
+      }
+    }
+
+    fs.rmSync(asidePath, { force: true });
+  } catch {
+    // Released by its owner, or removed by another process, in the meantime
+  }
+}
\ No newline at end of file
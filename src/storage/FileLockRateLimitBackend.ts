@@ -0,0 +1,26 @@
+import * as path from 'path';
+import { RateLimitBackend, SharedRateLimitState } from '../ratelimit/SharedRateLimiter';
+import { readJsonFile, writeJsonFile } from './JsonFile';
+import { withFileLock } from './FileLock';
+
+// One JSON file per platform, guarded by an exclusively created .lock file next to it
+export class FileLockRateLimitBackend implements RateLimitBackend {
+  constructor(private directory: string) {}
+
+  read(platform: string): SharedRateLimitState {
+    return readJsonFile<SharedRateLimitState>(this.statePath(platform), { requests: [] });
+  }
+
+  async update<T>(platform: string, apply: (state: SharedRateLimitState) => T): Promise<T> {
+    return withFileLock(`${this.statePath(platform)}.lock`, () => {
+      const state = this.read(platform);
+      const result = apply(state);
+      writeJsonFile(this.statePath(platform), state);
+      return result;
+    });
+  }
+
+  private statePath(platform: string): string {
+    return path.join(this.directory, `${encodeURIComponent(platform)}.json`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  if (content.trim().length === 0) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error}`);
+  }
+}
+
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write to a temporary file first so a crash never leaves a half-written store behind
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  fs.renameSync(tempPath, filePath);
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { JobChange, JobStore, ScheduledJob, ScheduledJobStatus } from '../scheduler/ScheduledJob';
+import { readJsonFile, writeJsonFile } from './JsonFile';
+import { withFileLockSync } from './FileLock';
+
+export class JsonFileJobStore implements JobStore {
+  constructor(private filePath: string) {}
+
+  save(job: ScheduledJob): void {
+    withFileLockSync(this.lockPath, () => {
+      const jobs = this.load().filter(existing => existing.id !== job.id);
+      jobs.push(job);
+      writeJsonFile(this.filePath, jobs);
+    });
+  }
+
+  get(id: string): ScheduledJob | undefined {
+    return this.load().find(job => job.id === id);
+  }
+
+  list(status?: ScheduledJobStatus): ScheduledJob[] {
+    return this.load().filter(job => !status || job.status === status);
+  }
+
+  // The read and the write happen under one lock, so two workers cannot both claim or finish a job
+  update(id: string, change: JobChange): ScheduledJob | undefined {
+    return withFileLockSync(this.lockPath, () => {
+      const jobs = this.load();
+      const index = jobs.findIndex(job => job.id === id);
+      const changed = index === -1 ? undefined : change(jobs[index]);
+      if (!changed) {
+        return undefined;
+      }
+
+      jobs[index] = changed;
+      writeJsonFile(this.filePath, jobs);
+      return changed;
+    });
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private load(): ScheduledJob[] {
+    return readJsonFile<ScheduledJob[]>(this.filePath, []).map(deserializeScheduledJob);
+  }
+}
+
+export function deserializeScheduledJob(data: ScheduledJob): ScheduledJob {
+  return {
+    ...data,
+    publishAt: new Date(data.publishAt),
+    createdAt: new Date(data.createdAt),
+    updatedAt: data.updatedAt ? new Date(data.updatedAt) : undefined
+  };
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Publication, PublicationQuery, PublicationStore, matchesPublicationQuery } from '../models';
+import { readJsonFile, writeJsonFile } from './JsonFile';
+import { withFileLockSync } from './FileLock';
+
+export class JsonFilePublicationStore implements PublicationStore {
+  constructor(private filePath: string) {}
+
+  // Locked so concurrent runs cannot overwrite each other's publications with a stale copy of the file
+  save(publication: Publication): void {
+    withFileLockSync(`${this.filePath}.lock`, () => {
+      const publications = this.load().filter(pub => pub.id !== publication.id);
+      publications.push(publication);
+      writeJsonFile(this.filePath, publications);
+    });
+  }
+
+  get(id: string): Publication | undefined {
+    return this.load().find(pub => pub.id === id);
+  }
+
+  find(query: PublicationQuery = {}): Publication[] {
+    return this.load().filter(pub => matchesPublicationQuery(pub, query));
+  }
+
+  private load(): Publication[] {
+    // Re-read on every access so concurrent CLI invocations see each other's writes
+    return readJsonFile<Publication[]>(this.filePath, []).map(deserializePublication);
+  }
+}
+
+export function deserializePublication(data: Publication): Publication {
+  return {
+    ...data,
+    timestamp: new Date(data.timestamp),
+    updatedAt: data.updatedAt ? new Date(data.updatedAt) : undefined,
+    nextAttemptAt: data.nextAttemptAt ? new Date(data.nextAttemptAt) : undefined
+  };
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { RATE_LIMIT_RETENTION_MS, RateLimitStore } from '../ratelimit/RateLimitStore';
+import { readJsonFile, writeJsonFile } from './JsonFile';
+
+export class JsonFileRateLimitStore implements RateLimitStore {
+  constructor(private filePath: string) {}
+
+  list(platform: string, since: number): number[] {
+    return (this.load()[platform] || []).filter(timestamp => timestamp >= since);
+  }
+
+  record(platform: string, timestamp: number): void {
+    const requests = this.load();
+    const cutoff = timestamp - RATE_LIMIT_RETENTION_MS;
+
+    for (const [name, timestamps] of Object.entries(requests)) {
+      requests[name] = timestamps.filter(existing => existing >= cutoff);
+    }
+    requests[platform] = [...(requests[platform] || []), timestamp];
+
+    writeJsonFile(this.filePath, requests);
+  }
+
+  private load(): Record<string, number[]> {
+    return readJsonFile<Record<string, number[]>>(this.filePath, {});
+  }
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { ToolSnapshot, ToolStore } from '../models';
+import { readJsonFile, writeJsonFile } from './JsonFile';
+import { withFileLockSync } from './FileLock';
+
+export class JsonFileToolStore implements ToolStore {
+  constructor(private filePath: string) {}
+
+  // Locked so a CLI run and the scheduler worker cannot drop each other's snapshots
+  save(snapshot: ToolSnapshot): void {
+    withFileLockSync(this.lockPath, () => {
+      const snapshots = this.load()
+        .filter(existing => existing.toolId !== snapshot.toolId || existing.version !== snapshot.version);
+      snapshots.push(snapshot);
+      writeJsonFile(this.filePath, snapshots);
+    });
+  }
+
+  get(toolId: string, version: string): ToolSnapshot | undefined {
+    return this.load().find(snapshot => snapshot.toolId === toolId && snapshot.version === version);
+  }
+
+  list(toolId?: string): ToolSnapshot[] {
+    return this.load().filter(snapshot => !toolId || snapshot.toolId === toolId);
+  }
+
+  remove(toolId: string, version?: string): number {
+    return withFileLockSync(this.lockPath, () => {
+      const snapshots = this.load();
+      const remaining = snapshots.filter(snapshot =>
+        snapshot.toolId !== toolId || (version !== undefined && snapshot.version !== version)
+      );
+
+      if (remaining.length !== snapshots.length) {
+        writeJsonFile(this.filePath, remaining);
+      }
+
+      return snapshots.length - remaining.length;
+    });
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private load(): ToolSnapshot[] {
+    return readJsonFile<ToolSnapshot[]>(this.filePath, []).map(deserializeToolSnapshot);
+  }
+}
+
+export function deserializeToolSnapshot(data: ToolSnapshot): ToolSnapshot {
+  return {
+    ...data,
+    registeredAt: new Date(data.registeredAt)
+  };
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type SqliteDatabase = Database.Database;
+
+const connections: Map<string, SqliteDatabase> = new Map();
+
+export function openSqliteDatabase(filePath: string): SqliteDatabase {
+  const resolvedPath = path.resolve(filePath);
+  const existing = connections.get(resolvedPath);
+  if (existing && existing.open) {
+    return existing;
+  }
+
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+
+  const db = new Database(resolvedPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+
+  connections.set(resolvedPath, db);
+  return db;
+}
\ No newline at end of file
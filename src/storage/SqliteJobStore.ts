@@ -0,0 +1,67 @@
+import { JobChange, JobStore, ScheduledJob, ScheduledJobStatus } from '../scheduler/ScheduledJob';
+import { SqliteDatabase, openSqliteDatabase } from './SqliteDatabase';
+import { deserializeScheduledJob } from './JsonFileJobStore';
+
+interface ScheduledJobRow {
+  data: string;
+}
+
+export class SqliteJobStore implements JobStore {
+  private db: SqliteDatabase;
+
+  constructor(filePath: string) {
+    this.db = openSqliteDatabase(filePath);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        publish_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_status ON scheduled_jobs (status, publish_at);
+    `);
+  }
+
+  save(job: ScheduledJob): void {
+    this.db.prepare(`
+      INSERT INTO scheduled_jobs (id, status, publish_at, data)
+      VALUES (@id, @status, @publishAt, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        publish_at = excluded.publish_at,
+        data = excluded.data
+    `).run({
+      id: job.id,
+      status: job.status,
+      publishAt: new Date(job.publishAt).toISOString(),
+      data: JSON.stringify(job)
+    });
+  }
+
+  get(id: string): ScheduledJob | undefined {
+    const row = this.db.prepare('SELECT data FROM scheduled_jobs WHERE id = ?').get(id) as ScheduledJobRow | undefined;
+    return row ? deserializeScheduledJob(JSON.parse(row.data)) : undefined;
+  }
+
+  list(status?: ScheduledJobStatus): ScheduledJob[] {
+    const rows = (status
+      ? this.db.prepare('SELECT data FROM scheduled_jobs WHERE status = ? ORDER BY publish_at').all(status)
+      : this.db.prepare('SELECT data FROM scheduled_jobs ORDER BY publish_at').all()) as ScheduledJobRow[];
+
+    return rows.map(row => deserializeScheduledJob(JSON.parse(row.data)));
+  }
+
+  // An immediate transaction takes the write lock before reading, so of two workers only one sees the old status
+  update(id: string, change: JobChange): ScheduledJob | undefined {
+    return this.db.transaction(() => {
+      const job = this.get(id);
+      const changed = job && change(job);
+      if (changed) {
+        this.save(changed);
+      }
+
+      return changed;
+    }).immediate();
+  }
+}
\ No newline at end of file
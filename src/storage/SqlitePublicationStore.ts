@@ -0,0 +1,83 @@
+import { Publication, PublicationQuery, PublicationStore } from '../models';
+import { SqliteDatabase, openSqliteDatabase } from './SqliteDatabase';
+import { deserializePublication } from './JsonFilePublicationStore';
+
+interface PublicationRow {
+  data: string;
+}
+
+export class SqlitePublicationStore implements PublicationStore {
+  private db: SqliteDatabase;
+
+  constructor(filePath: string) {
+    this.db = openSqliteDatabase(filePath);
+
+    // Only queried fields get their own columns; the full record lives in `data`
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS publications (
+        id TEXT PRIMARY KEY,
+        tool_id TEXT NOT NULL,
+        platform TEXT NOT NULL,
+        status TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_publications_tool ON publications (tool_id);
+      CREATE INDEX IF NOT EXISTS idx_publications_status ON publications (status);
+    `);
+  }
+
+  save(publication: Publication): void {
+    this.db.prepare(`
+      INSERT INTO publications (id, tool_id, platform, status, timestamp, data)
+      VALUES (@id, @toolId, @platform, @status, @timestamp, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        tool_id = excluded.tool_id,
+        platform = excluded.platform,
+        status = excluded.status,
+        data = excluded.data
+    `).run({
+      id: publication.id,
+      toolId: publication.toolId,
+      platform: publication.platform,
+      status: publication.status,
+      timestamp: new Date(publication.timestamp).toISOString(),
+      data: JSON.stringify(publication)
+    });
+  }
+
+  get(id: string): Publication | undefined {
+    const row = this.db.prepare('SELECT data FROM publications WHERE id = ?').get(id) as PublicationRow | undefined;
+    return row ? this.toPublication(row) : undefined;
+  }
+
+  find(query: PublicationQuery = {}): Publication[] {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (query.toolId) {
+      conditions.push('tool_id = @toolId');
+      params.toolId = query.toolId;
+    }
+
+    if (query.platform) {
+      conditions.push('platform = @platform');
+      params.platform = query.platform;
+    }
+
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT data FROM publications ${where} ORDER BY timestamp`)
+      .all(params) as PublicationRow[];
+
+    return rows.map(row => this.toPublication(row));
+  }
+
+  private toPublication(row: PublicationRow): Publication {
+    return deserializePublication(JSON.parse(row.data));
+  }
+}
\ No newline at end of file
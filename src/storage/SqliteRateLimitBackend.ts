@@ -0,0 +1,41 @@
+import { RateLimitBackend, SharedRateLimitState } from '../ratelimit/SharedRateLimiter';
+import { SqliteDatabase, openSqliteDatabase } from './SqliteDatabase';
+
+interface RateLimitStateRow {
+  data: string;
+}
+
+// Immediate transactions take SQLite's write lock up front, serializing updates across processes
+export class SqliteRateLimitBackend implements RateLimitBackend {
+  private db: SqliteDatabase;
+
+  constructor(filePath: string) {
+    this.db = openSqliteDatabase(filePath);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        platform TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  read(platform: string): SharedRateLimitState {
+    const row = this.db.prepare('SELECT data FROM rate_limit_buckets WHERE platform = ?').get(platform) as RateLimitStateRow | undefined;
+    return row ? JSON.parse(row.data) : { requests: [] };
+  }
+
+  async update<T>(platform: string, apply: (state: SharedRateLimitState) => T): Promise<T> {
+    return this.db.transaction(() => {
+      const state = this.read(platform);
+      const result = apply(state);
+
+      this.db.prepare(`
+        INSERT INTO rate_limit_buckets (platform, data) VALUES (?, ?)
+        ON CONFLICT(platform) DO UPDATE SET data = excluded.data
+      `).run(platform, JSON.stringify(state));
+
+      return result;
+    }).immediate();
+  }
+}
\ No newline at end of file
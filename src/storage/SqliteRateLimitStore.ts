@@ -0,0 +1,36 @@
+import { RATE_LIMIT_RETENTION_MS, RateLimitStore } from '../ratelimit/RateLimitStore';
+import { SqliteDatabase, openSqliteDatabase } from './SqliteDatabase';
+
+interface RateLimitRow {
+  requested_at: number;
+}
+
+export class SqliteRateLimitStore implements RateLimitStore {
+  private db: SqliteDatabase;
+
+  constructor(filePath: string) {
+    this.db = openSqliteDatabase(filePath);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_requests (
+        platform TEXT NOT NULL,
+        requested_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_rate_limit_requests_platform ON rate_limit_requests (platform, requested_at);
+    `);
+  }
+
+  list(platform: string, since: number): number[] {
+    const rows = this.db
+      .prepare('SELECT requested_at FROM rate_limit_requests WHERE platform = ? AND requested_at >= ? ORDER BY requested_at')
+      .all(platform, since) as RateLimitRow[];
+    return rows.map(row => row.requested_at);
+  }
+
+  record(platform: string, timestamp: number): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM rate_limit_requests WHERE requested_at < ?').run(timestamp - RATE_LIMIT_RETENTION_MS);
+      this.db.prepare('INSERT INTO rate_limit_requests (platform, requested_at) VALUES (?, ?)').run(platform, timestamp);
+    })();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { ToolSnapshot, ToolStore } from '../models';
+import { SqliteDatabase, openSqliteDatabase } from './SqliteDatabase';
+import { deserializeToolSnapshot } from './JsonFileToolStore';
+
+interface ToolSnapshotRow {
+  data: string;
+}
+
+export class SqliteToolStore implements ToolStore {
+  private db: SqliteDatabase;
+
+  constructor(filePath: string) {
+    this.db = openSqliteDatabase(filePath);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tool_snapshots (
+        tool_id TEXT NOT NULL,
+        version TEXT NOT NULL,
+        registered_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (tool_id, version)
+      );
+    `);
+  }
+
+  save(snapshot: ToolSnapshot): void {
+    this.db.prepare(`
+      INSERT INTO tool_snapshots (tool_id, version, registered_at, data)
+      VALUES (@toolId, @version, @registeredAt, @data)
+      ON CONFLICT(tool_id, version) DO UPDATE SET
+        registered_at = excluded.registered_at,
+        data = excluded.data
+    `).run({
+      toolId: snapshot.toolId,
+      version: snapshot.version,
+      registeredAt: new Date(snapshot.registeredAt).toISOString(),
+      data: JSON.stringify(snapshot)
+    });
+  }
+
+  get(toolId: string, version: string): ToolSnapshot | undefined {
+    const row = this.db.prepare('SELECT data FROM tool_snapshots WHERE tool_id = ? AND version = ?')
+      .get(toolId, version) as ToolSnapshotRow | undefined;
+    return row ? deserializeToolSnapshot(JSON.parse(row.data)) : undefined;
+  }
+
+  list(toolId?: string): ToolSnapshot[] {
+    const rows = (toolId
+      ? this.db.prepare('SELECT data FROM tool_snapshots WHERE tool_id = ? ORDER BY registered_at').all(toolId)
+      : this.db.prepare('SELECT data FROM tool_snapshots ORDER BY registered_at').all()) as ToolSnapshotRow[];
+
+    return rows.map(row => deserializeToolSnapshot(JSON.parse(row.data)));
+  }
+
+  remove(toolId: string, version?: string): number {
+    const result = version
+      ? this.db.prepare('DELETE FROM tool_snapshots WHERE tool_id = ? AND version = ?').run(toolId, version)
+      : this.db.prepare('DELETE FROM tool_snapshots WHERE tool_id = ?').run(toolId);
+
+    return result.changes;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryPublicationStore, InMemoryToolStore, PublicationStore, ToolStore } from '../models';
+import { RateLimiterConfig, StorageConfig } from '../config';
+import { InMemoryJobStore, JobStore } from '../scheduler/ScheduledJob';
+import { InMemoryRateLimitStore, RateLimitStore } from '../ratelimit/RateLimitStore';
+import { RateLimitBackend } from '../ratelimit/SharedRateLimiter';
+import { JsonFilePublicationStore } from './JsonFilePublicationStore';
+import { SqlitePublicationStore } from './SqlitePublicationStore';
+import { JsonFileToolStore } from './JsonFileToolStore';
+import { SqliteToolStore } from './SqliteToolStore';
+import { JsonFileJobStore } from './JsonFileJobStore';
+import { SqliteJobStore } from './SqliteJobStore';
+import { JsonFileRateLimitStore } from './JsonFileRateLimitStore';
+import { SqliteRateLimitStore } from './SqliteRateLimitStore';
+import { FileLockRateLimitBackend } from './FileLockRateLimitBackend';
+import { SqliteRateLimitBackend } from './SqliteRateLimitBackend';
+
+export * from './JsonFile';
+export * from './SqliteDatabase';
+export * from './JsonFilePublicationStore';
+export * from './SqlitePublicationStore';
+export * from './JsonFileToolStore';
+export * from './SqliteToolStore';
+export * from './JsonFileJobStore';
+export * from './SqliteJobStore';
+export * from './JsonFileRateLimitStore';
+export * from './SqliteRateLimitStore';
+export * from './FileLockRateLimitBackend';
+export * from './SqliteRateLimitBackend';
+
+export const SQLITE_DATABASE_FILE = 'syndication.db';
+
+export const DEFAULT_RATE_LIMIT_DIRECTORY = path.join(os.tmpdir(), 'syndication-rate-limits');
+
+export function resolveStorageDirectory(config: StorageConfig, baseDir: string = process.cwd()): string {
+  return path.resolve(baseDir, config.directory);
+}
+
+export function createPublicationStore(config: StorageConfig, baseDir: string = process.cwd()): PublicationStore {
+  const directory = resolveStorageDirectory(config, baseDir);
+
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryPublicationStore();
+    case 'json':
+      return new JsonFilePublicationStore(path.join(directory, 'publications.json'));
+    case 'sqlite':
+      return new SqlitePublicationStore(path.join(directory, SQLITE_DATABASE_FILE));
+    default:
+      throw new Error(`Unknown storage type: ${config.type}`);
+  }
+}
+
+export function createToolStore(config: StorageConfig, baseDir: string = process.cwd()): ToolStore {
+  const directory = resolveStorageDirectory(config, baseDir);
+
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryToolStore();
+    case 'json':
+      return new JsonFileToolStore(path.join(directory, 'tools.json'));
+    case 'sqlite':
+      return new SqliteToolStore(path.join(directory, SQLITE_DATABASE_FILE));
+    default:
+      throw new Error(`Unknown storage type: ${config.type}`);
+  }
+}
+
+export function createJobStore(config: StorageConfig, baseDir: string = process.cwd()): JobStore {
+  const directory = resolveStorageDirectory(config, baseDir);
+
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryJobStore();
+    case 'json':
+      return new JsonFileJobStore(path.join(directory, 'jobs.json'));
+    case 'sqlite':
+      return new SqliteJobStore(path.join(directory, SQLITE_DATABASE_FILE));
+    default:
+      throw new Error(`Unknown storage type: ${config.type}`);
+  }
+}
+
+export function createRateLimitStore(config: StorageConfig, baseDir: string = process.cwd()): RateLimitStore {
+  const directory = resolveStorageDirectory(config, baseDir);
+
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryRateLimitStore();
+    case 'json':
+      return new JsonFileRateLimitStore(path.join(directory, 'rate-limits.json'));
+    case 'sqlite':
+      return new SqliteRateLimitStore(path.join(directory, SQLITE_DATABASE_FILE));
+    default:
+      throw new Error(`Unknown storage type: ${config.type}`);
+  }
+}
+
+// Only the shared backends have one; 'process' limiters keep their buckets in memory
+export function createRateLimitBackend(config: RateLimiterConfig, baseDir: string = process.cwd()): RateLimitBackend {
+  const directory = config.directory ? path.resolve(baseDir, config.directory) : DEFAULT_RATE_LIMIT_DIRECTORY;
+
+  switch (config.backend) {
+    case 'file':
+      return new FileLockRateLimitBackend(directory);
+    case 'sqlite':
+      return new SqliteRateLimitBackend(path.join(directory, 'rate-limits.db'));
+    default:
+      throw new Error(`Rate limiter backend ${config.backend} is not shared between processes`);
+  }
+}
\ No newline at end of file
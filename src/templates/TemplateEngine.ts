@@ -0,0 +1,318 @@
+import { convertMarkdown, MarkdownTarget, MARKDOWN_TARGETS } from '../content';
+
+export type TemplateFilter = (value: unknown, arg?: string) => unknown;
+
+export type TemplateData = Record<string, unknown>;
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly line?: number, public readonly column?: number) {
+    super(line !== undefined ? `${message} at line ${line}, column ${column}` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+interface FilterCall {
+  name: string;
+  arg?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; filters: FilterCall[]; position: number }
+  | { type: 'if'; path: string; negate: boolean; consequent: TemplateNode[]; alternate: TemplateNode[]; position: number }
+  | { type: 'each'; path: string; alias?: string; body: TemplateNode[]; alternate: TemplateNode[]; position: number };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+// Matches {name}, {metadata.stars | upper}, {#if githubUrl}, {#each tags as tag}, {else}, {/if} and {/each}.
+// Braces that don't form a tag, such as "{ }" or "{1}", are kept as literal text.
+const TAG_PATTERN = /\{\s*(?:(#if|#unless|#each)\s+([^{}]+?)|(\/if|\/unless|\/each|else)|(@?[A-Za-z_][\w.]*)((?:\s*\|[^{}|]+)*))\s*\}/g;
+const FILTER_PATTERN = /^\s*([A-Za-z]\w*)(?:\s*:\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?\s*$/;
+const PATH_PATTERN = /^@?[A-Za-z_]\w*(?:\.\w+)*$/;
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(stringify).join(', ');
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.keys(value).length > 0;
+  }
+
+  return Boolean(value);
+}
+
+function toHashtag(value: unknown): string {
+  const words = stringify(value).split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const tag = words.map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return tag ? `#${tag}` : '';
+}
+
+const defaultFilters: Record<string, TemplateFilter> = {
+  upper: value => stringify(value).toUpperCase(),
+  lower: value => stringify(value).toLowerCase(),
+  trim: value => stringify(value).trim(),
+  truncate: (value, arg) => {
+    const text = stringify(value);
+    const limit = Number(arg);
+
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error('truncate requires a positive length, e.g. {shortDescription | truncate:100}');
+    }
+
+    if (text.length <= limit) {
+      return text;
+    }
+
+    // Prefer cutting at a word boundary unless that would drop most of the text
+    const truncated = text.substring(0, Math.max(0, limit - 3));
+    const lastSpace = truncated.lastIndexOf(' ');
+    return `${(lastSpace > limit / 2 ? truncated.substring(0, lastSpace) : truncated).trimEnd()}...`;
+  },
+  slug: value => stringify(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, ''),
+  hashtag: value => Array.isArray(value)
+    ? value.map(toHashtag).filter(Boolean).join(' ')
+    : toHashtag(value),
+  join: (value, arg) => Array.isArray(value) ? value.map(stringify).join(arg ?? ', ') : stringify(value),
+  default: (value, arg) => isTruthy(value) ? value : arg ?? '',
+  markdown: (value, arg) => {
+    if (!arg || !MARKDOWN_TARGETS.includes(arg as MarkdownTarget)) {
+      throw new Error(`markdown requires a target (${MARKDOWN_TARGETS.join(', ')}), e.g. {longDescription | markdown:twitter}`);
+    }
+
+    return convertMarkdown(stringify(value), arg as MarkdownTarget);
+  }
+};
+
+export class TemplateEngine {
+  private filters: Map<string, TemplateFilter> = new Map(Object.entries(defaultFilters));
+  private cache: Map<string, TemplateNode[]> = new Map();
+
+  registerFilter(name: string, filter: TemplateFilter): void {
+    this.filters.set(name, filter);
+  }
+
+  render(template: string, data: TemplateData): string {
+    let nodes = this.cache.get(template);
+    if (!nodes) {
+      nodes = this.parse(template);
+      this.cache.set(template, nodes);
+    }
+
+    return this.renderNodes(nodes, [data], template);
+  }
+
+  // Parses without rendering so configured templates can be checked up front
+  validate(template: string): void {
+    this.parse(template);
+  }
+
+  private parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: { node: BlockNode; keyword: string; inElse: boolean }[] = [];
+    // New nodes are appended to the active branch of the innermost open block
+    const activeList = (): TemplateNode[] => {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        return root;
+      }
+      if (open.inElse) {
+        return open.node.alternate;
+      }
+      return open.node.type === 'if' ? open.node.consequent : open.node.body;
+    };
+    let lastIndex = 0;
+
+    for (const match of template.matchAll(TAG_PATTERN)) {
+      const position = match.index!;
+      if (position > lastIndex) {
+        activeList().push({ type: 'text', value: template.slice(lastIndex, position) });
+      }
+      lastIndex = position + match[0].length;
+
+      const [, openKeyword, expression, closeKeyword, variablePath, filterChain] = match;
+
+      if (openKeyword) {
+        const node = this.parseBlock(openKeyword, expression.trim(), template, position);
+        activeList().push(node);
+        stack.push({ node, keyword: openKeyword.slice(1), inElse: false });
+      } else if (closeKeyword === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open || open.inElse) {
+          throw this.error('Unexpected {else}', template, position);
+        }
+        open.inElse = true;
+      } else if (closeKeyword) {
+        const open = stack.pop();
+        const keyword = closeKeyword.slice(1);
+        if (!open || open.keyword !== keyword) {
+          throw this.error(`Unexpected {/${keyword}}`, template, position);
+        }
+      } else {
+        activeList().push({
+          type: 'variable',
+          path: variablePath,
+          filters: this.parseFilters(filterChain || '', template, position),
+          position
+        });
+      }
+    }
+
+    if (stack.length > 0) {
+      const open = stack[stack.length - 1];
+      throw this.error(`Unclosed {#${open.keyword}} block`, template, open.node.position);
+    }
+
+    if (lastIndex < template.length) {
+      activeList().push({ type: 'text', value: template.slice(lastIndex) });
+    }
+
+    return root;
+  }
+
+  private parseBlock(keyword: string, expression: string, template: string, position: number): BlockNode {
+    if (keyword === '#each') {
+      const [, path, alias] = expression.match(/^([\w.]+)(?:\s+as\s+([A-Za-z_]\w*))?$/) || [];
+      if (!path || !PATH_PATTERN.test(path)) {
+        throw this.error(`Invalid {#each} expression "${expression}"`, template, position);
+      }
+      return { type: 'each', path, alias, body: [], alternate: [], position };
+    }
+
+    const path = expression.trim();
+    if (!PATH_PATTERN.test(path)) {
+      throw this.error(`Invalid {${keyword}} condition "${expression}"`, template, position);
+    }
+
+    return { type: 'if', path, negate: keyword === '#unless', consequent: [], alternate: [], position };
+  }
+
+  private parseFilters(chain: string, template: string, position: number): FilterCall[] {
+    return chain
+      .split('|')
+      .slice(1)
+      .map(part => {
+        const match = part.match(FILTER_PATTERN);
+        if (!match) {
+          throw this.error(`Invalid filter "${part.trim()}"`, template, position);
+        }
+
+        const [, name, doubleQuoted, singleQuoted, bare] = match;
+        if (!this.filters.has(name)) {
+          throw this.error(`Unknown template filter "${name}"`, template, position);
+        }
+
+        return { name, arg: doubleQuoted ?? singleQuoted ?? bare };
+      });
+  }
+
+  private renderNodes(nodes: TemplateNode[], scopes: TemplateData[], template: string): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'variable':
+          output += stringify(this.applyFilters(node, this.lookup(node.path, scopes, template, node.position, true), template));
+          break;
+        case 'if': {
+          const value = isTruthy(this.lookup(node.path, scopes, template, node.position, false));
+          output += this.renderNodes(value !== node.negate ? node.consequent : node.alternate, scopes, template);
+          break;
+        }
+        case 'each': {
+          const items = this.lookup(node.path, scopes, template, node.position, false);
+          const list = Array.isArray(items) ? items : items === undefined || items === null ? [] : [items];
+
+          if (list.length === 0) {
+            output += this.renderNodes(node.alternate, scopes, template);
+            break;
+          }
+
+          list.forEach((item, index) => {
+            const scope: TemplateData = {
+              this: item,
+              '@index': index,
+              '@number': index + 1,
+              '@first': index === 0,
+              '@last': index === list.length - 1
+            };
+            if (node.alias) {
+              scope[node.alias] = item;
+            }
+            output += this.renderNodes(node.body, [scope, ...scopes], template);
+          });
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private applyFilters(node: Extract<TemplateNode, { type: 'variable' }>, value: unknown, template: string): unknown {
+    return node.filters.reduce((current, filter) => {
+      try {
+        return this.filters.get(filter.name)!(current, filter.arg);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw this.error(`Filter "${filter.name}" failed: ${message}`, template, node.position);
+      }
+    }, value);
+  }
+
+  private lookup(path: string, scopes: TemplateData[], template: string, position: number, strict: boolean): unknown {
+    const [head, ...rest] = path.split('.');
+    const scope = scopes.find(candidate => Object.prototype.hasOwnProperty.call(candidate, head));
+
+    if (!scope) {
+      if (strict) {
+        throw this.error(`Unknown template variable "${path}"`, template, position);
+      }
+      return undefined;
+    }
+
+    let value = scope[head];
+    for (const key of rest) {
+      if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+        if (strict) {
+          throw this.error(`Unknown template variable "${path}"`, template, position);
+        }
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+
+    return value;
+  }
+
+  private error(message: string, template: string, position: number): TemplateError {
+    const preceding = template.slice(0, position).split('\n');
+    return new TemplateError(message, preceding.length, preceding[preceding.length - 1].length + 1);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Tool } from '../models';
+import { TemplateData } from './TemplateEngine';
+
+// Every Tool field is present (even when unset) so optional fields render empty instead of failing as unknown
+export function createToolTemplateData(tool: Tool, extra: TemplateData = {}): TemplateData {
+  const now = new Date();
+
+  return {
+    id: tool.id,
+    name: tool.name,
+    shortDescription: tool.shortDescription,
+    longDescription: tool.longDescription,
+    url: tool.url,
+    category: tool.category || [],
+    categories: tool.category || [],
+    targetAudience: tool.targetAudience || [],
+    version: tool.version,
+    documentationUrl: tool.documentationUrl,
+    githubUrl: tool.githubUrl,
+    tags: tool.tags || [],
+    metadata: tool.metadata || {},
+    release: tool.release,
+    changelog: tool.release?.notes,
+    releaseNotes: tool.release?.notes,
+    timestamp: now.toISOString(),
+    date: now.toLocaleDateString(),
+    ...extra
+  };
+}
\ No newline at end of file
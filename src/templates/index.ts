@@ -0,0 +1,7 @@
+import { TemplateEngine } from './TemplateEngine';
+
+export * from './TemplateEngine';
+export * from './ToolTemplateData';
+
+// Shared engine used by the adapters; custom filters registered here apply to every platform
+export const templateEngine = new TemplateEngine();
\ No newline at end of file